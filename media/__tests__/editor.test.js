@@ -273,6 +273,13 @@ describe('EditorLogic', () => {
             expect(visibility.showActionFields).toBe(true);
             expect(visibility.showTerminalFields).toBe(false);
         });
+
+        it('should show cwd field but not terminal fields for process', () => {
+            const visibility = EditorLogic.getFormFieldVisibility('process');
+            expect(visibility.showActionFields).toBe(true);
+            expect(visibility.showTerminalFields).toBe(false);
+            expect(visibility.showCwdField).toBe(true);
+        });
     });
 
     describe('calculateChildPath', () => {
@@ -132,6 +132,8 @@
 
             if (formData.type === 'terminal') {
                 if (formData.terminal) item.terminal = formData.terminal;
+            }
+            if (formData.type === 'terminal' || formData.type === 'process') {
                 if (formData.cwd) item.cwd = formData.cwd;
             }
         }
@@ -164,7 +166,8 @@
         return {
             showActionFields: isActionType,
             showRefField: type === 'ref',
-            showTerminalFields: type === 'terminal'
+            showTerminalFields: type === 'terminal',
+            showCwdField: type === 'terminal' || type === 'process'
         };
     }
 
@@ -1,10 +1,31 @@
 /**
  * TaskPilot Action Executor
- * terminal, vscodeCommand, task の3種類のアクションを実行
+ * terminal, vscodeCommand, task, process 等のアクションを実行
  */
 
 import * as vscode from 'vscode';
+import { spawn, ChildProcess } from 'child_process';
 import { ResolvedAction, MultipleActionOptions, MultipleActionResult, ActionError, ActionGroup } from './types';
+import { createTerminalOptions } from './terminal-options';
+
+/** シェル統合の有効化を待つ最大時間（ミリ秒） */
+const SHELL_INTEGRATION_TIMEOUT = 3000;
+
+/** processアクションの出力先チャンネル名 */
+const OUTPUT_CHANNEL_NAME = 'TaskPilot';
+
+/**
+ * コマンドが0以外の終了コードで終了した場合のエラー（terminal, process）
+ */
+export class CommandExitError extends Error {
+    constructor(
+        public readonly command: string,
+        public readonly exitCode: number
+    ) {
+        super(`Command "${command}" exited with code ${exitCode}`);
+        this.name = 'CommandExitError';
+    }
+}
 
 /**
  * ActionExecutor - アクション実行クラス
@@ -13,9 +34,21 @@ export class ActionExecutor implements vscode.Disposable {
     /** 管理中のターミナル (名前 -> Terminal) */
     private terminals: Map<string, vscode.Terminal> = new Map();
 
+    /** dedicated-per-run の実行回数（キー: ターミナル名） */
+    private runCounts: Map<string, number> = new Map();
+
+    /** シェル統合が有効にならなかったターミナル（再度待たない） */
+    private terminalsWithoutShellIntegration: WeakSet<vscode.Terminal> = new WeakSet();
+
     /** ターミナル終了監視用Disposable */
     private terminalCloseListener: vscode.Disposable;
 
+    /** processアクションの出力チャンネル（初回使用時に作成） */
+    private outputChannel: vscode.OutputChannel | undefined;
+
+    /** 実行中のprocessアクション */
+    private processes: Set<ChildProcess> = new Set();
+
     constructor() {
         // ターミナルが閉じられたらマップから削除
         this.terminalCloseListener = vscode.window.onDidCloseTerminal(terminal => {
@@ -32,14 +65,27 @@ export class ActionExecutor implements vscode.Disposable {
      * アクションを実行
      */
     async execute(action: ResolvedAction): Promise<void> {
+        await this.executeAction(action);
+    }
+
+    /**
+     * アクションを実行し、終了コードを返す（process・task のみ、それ以外はundefined）
+     * @throws CommandExitError 終了コードが0以外の場合
+     */
+    private async executeAction(action: ResolvedAction): Promise<number | undefined> {
         switch (action.type) {
             case 'terminal':
             case 'vscodeCommand':
-            case 'task':
+            case 'process':
                 if (!action.command) {
                     throw new Error('Action command is required');
                 }
                 break;
+            case 'task':
+                if (!action.command && !action.taskGroup) {
+                    throw new Error('Action command is required');
+                }
+                break;
             case 'openInDevContainer':
             case 'openRemoteSSH':
             case 'openRemoteTunnel':
@@ -56,9 +102,13 @@ export class ActionExecutor implements vscode.Disposable {
             case 'vscodeCommand':
                 await this.executeVscodeCommand(action);
                 break;
-            case 'task':
-                await this.executeTask(action);
-                break;
+            case 'task': {
+                const exitCode = await this.executeTask(action);
+                if (exitCode !== undefined && exitCode !== 0) {
+                    throw new CommandExitError(action.command ?? action.taskGroup!, exitCode);
+                }
+                return exitCode;
+            }
             case 'openInDevContainer':
                 await this.executeOpenInDevContainer(action);
                 break;
@@ -68,17 +118,37 @@ export class ActionExecutor implements vscode.Disposable {
             case 'openRemoteTunnel':
                 await this.executeOpenRemoteTunnel(action);
                 break;
+            case 'process': {
+                const exitCode = await this.executeProcess(action);
+                if (exitCode !== 0) {
+                    throw new CommandExitError(action.command!, exitCode);
+                }
+                return exitCode;
+            }
             default:
                 throw new Error(`Unknown action type: ${(action as { type: string }).type}`);
         }
+        return undefined;
     }
 
     /**
      * ターミナルでコマンドを実行
      */
     private async executeTerminal(action: ResolvedAction): Promise<void> {
-        const terminalName = action.terminal || 'TaskPilot';
+        const terminal = await this.acquireTerminal(action.terminal || 'TaskPilot', action);
 
+        // ターミナルを表示
+        terminal.show(true);
+
+        // コマンドを送信
+        terminal.sendText(action.command!);
+    }
+
+    /**
+     * 名前でターミナルを取得（なければ作成）
+     * @param action 新規作成時のcwd・env・シェル・表示設定（既存のターミナルには適用されない）
+     */
+    private getOrCreateTerminal(terminalName: string, action?: ResolvedAction): vscode.Terminal {
         // 既存のターミナルを探す
         let terminal = this.terminals.get(terminalName);
 
@@ -89,25 +159,209 @@ export class ActionExecutor implements vscode.Disposable {
 
             if (!terminal) {
                 // 新規作成
-                const options: vscode.TerminalOptions = {
-                    name: terminalName
-                };
+                terminal = vscode.window.createTerminal(createTerminalOptions(terminalName, action));
+            }
 
-                if (action.cwd) {
-                    options.cwd = action.cwd;
-                }
+            this.terminals.set(terminalName, terminal);
+        }
 
-                terminal = vscode.window.createTerminal(options);
+        return terminal;
+    }
+
+    /**
+     * terminalPolicyに従って実行に使うターミナルを取得
+     * @param terminalName ターミナル名
+     * @param action 新規作成時の設定とterminalPolicy
+     */
+    private async acquireTerminal(terminalName: string, action?: ResolvedAction): Promise<vscode.Terminal> {
+        switch (action?.terminalPolicy) {
+            case 'restart':
+                // 実行中のプロセスごと閉じて作り直す
+                this.disposeNamedTerminal(terminalName);
+                return this.createNamedTerminal(terminalName, action);
+            case 'new':
+                return this.createNamedTerminal(terminalName, action);
+            case 'dedicated-per-run': {
+                // 番号付きの名前で作成し、名前による再利用の対象にしない
+                const runCount = (this.runCounts.get(terminalName) ?? 0) + 1;
+                this.runCounts.set(terminalName, runCount);
+                return vscode.window.createTerminal(createTerminalOptions(`${terminalName} #${runCount}`, action));
             }
+            case 'clear-before': {
+                const terminal = this.getOrCreateTerminal(terminalName, action);
+                // クリアコマンドはアクティブなターミナルが対象
+                terminal.show(true);
+                await vscode.commands.executeCommand('workbench.action.terminal.clear');
+                return terminal;
+            }
+            default:
+                return this.getOrCreateTerminal(terminalName, action);
+        }
+    }
 
-            this.terminals.set(terminalName, terminal);
+    /**
+     * 新しいターミナルを作成し、以降の同名の実行で使用する
+     */
+    private createNamedTerminal(terminalName: string, action?: ResolvedAction): vscode.Terminal {
+        const terminal = vscode.window.createTerminal(createTerminalOptions(terminalName, action));
+        this.terminals.set(terminalName, terminal);
+        return terminal;
+    }
+
+    /**
+     * 同名のターミナルを閉じる
+     */
+    private disposeNamedTerminal(terminalName: string): void {
+        (this.terminals.get(terminalName) ?? vscode.window.terminals.find(t => t.name === terminalName))?.dispose();
+        this.terminals.delete(terminalName);
+    }
+
+    /**
+     * アクションのターミナルを取得（作成できない場合はundefined）
+     */
+    private async tryAcquireTerminal(action: ResolvedAction): Promise<vscode.Terminal | undefined> {
+        try {
+            return await this.acquireTerminal(action.terminal || 'TaskPilot', action);
+        } catch {
+            return undefined;
         }
+    }
 
-        // ターミナルを表示
-        terminal.show(true);
+    /**
+     * ターミナルのシェル統合が有効になるのを待つ
+     * シェル統合APIがない（VS Code 1.93未満）か、タイムアウトした場合はundefined
+     */
+    private async waitForShellIntegration(terminal: vscode.Terminal): Promise<vscode.TerminalShellIntegration | undefined> {
+        if (terminal.shellIntegration) {
+            return terminal.shellIntegration;
+        }
 
-        // コマンドを送信
-        terminal.sendText(action.command!);
+        if (!vscode.window.onDidChangeTerminalShellIntegration ||
+            this.terminalsWithoutShellIntegration.has(terminal)) {
+            return undefined;
+        }
+
+        const shellIntegration = await new Promise<vscode.TerminalShellIntegration | undefined>(resolve => {
+            const timer = setTimeout(() => {
+                listener.dispose();
+                resolve(undefined);
+            }, SHELL_INTEGRATION_TIMEOUT);
+
+            const listener = vscode.window.onDidChangeTerminalShellIntegration(event => {
+                if (event.terminal === terminal) {
+                    clearTimeout(timer);
+                    listener.dispose();
+                    resolve(event.shellIntegration);
+                }
+            });
+        });
+
+        if (!shellIntegration) {
+            this.terminalsWithoutShellIntegration.add(terminal);
+        }
+        return shellIntegration;
+    }
+
+    /**
+     * シェル統合を使用してコマンドを実行し、終了を待つ
+     * @returns 終了コード（シェルが報告しない場合・キャンセル・ターミナル終了時はundefined）
+     */
+    private executeWithShellIntegration(
+        terminal: vscode.Terminal,
+        shellIntegration: vscode.TerminalShellIntegration,
+        command: string,
+        cancellationToken?: MultipleActionOptions['cancellationToken']
+    ): Promise<number | undefined> {
+        return new Promise(resolve => {
+            const disposables: vscode.Disposable[] = [];
+            const finish = (exitCode: number | undefined) => {
+                disposables.forEach(d => d.dispose());
+                resolve(exitCode);
+            };
+
+            // 実行開始前にリスナーを登録
+            disposables.push(vscode.window.onDidEndTerminalShellExecution(event => {
+                if (event.execution === execution) {
+                    finish(event.exitCode);
+                }
+            }));
+            disposables.push(vscode.window.onDidCloseTerminal(closed => {
+                if (closed === terminal) {
+                    finish(undefined);
+                }
+            }));
+            if (cancellationToken?.onCancellationRequested) {
+                disposables.push(cancellationToken.onCancellationRequested(() => finish(undefined)));
+            }
+
+            const execution = shellIntegration.executeCommand(command);
+        });
+    }
+
+    /**
+     * ターミナルを使わずに子プロセスでコマンドを実行し、終了を待つ
+     * 標準出力・標準エラーはOutputチャンネルに出力する
+     * @returns 終了コード
+     * @throws Error 起動失敗・タイムアウト・シグナルで終了した場合
+     */
+    private executeProcess(action: ResolvedAction): Promise<number> {
+        const output = this.getOutputChannel();
+        const command = action.command!;
+        output.appendLine(`$ ${command}`);
+        output.show(true);
+
+        return new Promise((resolve, reject) => {
+            // シェル経由の子孫プロセスもまとめて終了できるようプロセスグループを分ける
+            const child = spawn(command, {
+                shell: true,
+                cwd: action.cwd ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+                env: { ...process.env, ...action.env },
+                detached: process.platform !== 'win32'
+            });
+            this.processes.add(child);
+            let timedOut = false;
+            const timer = action.timeout !== undefined
+                ? setTimeout(() => {
+                    timedOut = true;
+                    killProcessTree(child);
+                }, action.timeout * 1000)
+                : undefined;
+
+            child.stdout?.on('data', (data: Buffer) => output.append(data.toString()));
+            child.stderr?.on('data', (data: Buffer) => output.append(data.toString()));
+
+            child.on('error', error => {
+                clearTimeout(timer);
+                this.processes.delete(child);
+                output.appendLine(error.message);
+                reject(new Error(`Failed to start "${command}": ${error.message}`));
+            });
+
+            child.on('close', (code, signal) => {
+                clearTimeout(timer);
+                this.processes.delete(child);
+                if (timedOut) {
+                    output.appendLine(`[timed out after ${action.timeout} seconds]`);
+                    reject(new Error(`Command "${command}" timed out after ${action.timeout} seconds`));
+                } else if (code === null) {
+                    output.appendLine(`[terminated by ${signal}]`);
+                    reject(new Error(`Command "${command}" was terminated by ${signal}`));
+                } else {
+                    output.appendLine(`[exit code ${code}]`);
+                    resolve(code);
+                }
+            });
+        });
+    }
+
+    /**
+     * Outputチャンネルを取得（なければ作成）
+     */
+    private getOutputChannel(): vscode.OutputChannel {
+        if (!this.outputChannel) {
+            this.outputChannel = vscode.window.createOutputChannel(OUTPUT_CHANNEL_NAME);
+        }
+        return this.outputChannel;
     }
 
     /**
@@ -127,23 +381,85 @@ export class ActionExecutor implements vscode.Disposable {
     /**
      * タスクを実行
      */
-    private async executeTask(action: ResolvedAction): Promise<void> {
+    private async executeTask(action: ResolvedAction): Promise<number | undefined> {
         // 利用可能なタスクを取得
         const tasks = await vscode.tasks.fetchTasks();
 
-        // 名前でタスクを検索
-        const task = tasks.find(t => t.name === action.command);
+        // 名前・ソース・種類・グループでタスクを検索
+        const task = findTask(tasks, action);
 
         if (!task) {
             // タスクが見つからない場合、利用可能なタスク名を表示
             const taskNames = tasks.map(t => t.name).join(', ');
             throw new Error(
-                `Task "${action.command}" not found. Available tasks: ${taskNames || 'none'}`
+                `Task ${describeTaskMatch(action)} not found. Available tasks: ${taskNames || 'none'}`
             );
         }
 
-        // タスクを実行
-        await vscode.tasks.executeTask(task);
+        // バックグラウンドタスク（watch等）は終了しないため、開始までを待つ
+        if (task.isBackground) {
+            await vscode.tasks.executeTask(task);
+            return undefined;
+        }
+
+        // 開始前から終了イベントを監視（すぐに終了するタスクを取りこぼさない）
+        let execution: vscode.TaskExecution | undefined;
+        const ended = this.waitForTaskEnd(task, () => execution);
+        try {
+            execution = await vscode.tasks.executeTask(task);
+        } catch (error) {
+            ended.dispose();
+            throw error;
+        }
+        return ended.exitCode;
+    }
+
+    /**
+     * タスクの終了を待つ
+     * プロセスの終了コードを返す（プロセスを持たないタスクはundefined）
+     * @param task 実行するタスク
+     * @param getExecution タスクの実行（executeTaskの完了までは同名・同ソースのタスクで判定）
+     */
+    private waitForTaskEnd(
+        task: vscode.Task,
+        getExecution: () => vscode.TaskExecution | undefined
+    ): { exitCode: Promise<number | undefined>; dispose(): void } {
+        const disposables: vscode.Disposable[] = [];
+        const dispose = () => disposables.forEach(d => d.dispose());
+        const isTarget = (target: vscode.TaskExecution) => {
+            const execution = getExecution();
+            return execution
+                ? target === execution
+                : target.task.name === task.name && target.task.source === task.source;
+        };
+        let hasProcess = false;
+
+        const exitCode = new Promise<number | undefined>(resolve => {
+            const finish = (code: number | undefined) => {
+                dispose();
+                resolve(code);
+            };
+            disposables.push(
+                vscode.tasks.onDidStartTaskProcess(e => {
+                    if (isTarget(e.execution)) {
+                        hasProcess = true;
+                    }
+                }),
+                vscode.tasks.onDidEndTaskProcess(e => {
+                    if (isTarget(e.execution)) {
+                        finish(e.exitCode);
+                    }
+                }),
+                // プロセスを持たないタスク（CustomExecution等）はonDidEndTaskProcessが発生しない
+                vscode.tasks.onDidEndTask(e => {
+                    if (!hasProcess && isTarget(e.execution)) {
+                        finish(undefined);
+                    }
+                })
+            );
+        });
+
+        return { exitCode, dispose };
     }
 
     /**
@@ -216,6 +532,7 @@ export class ActionExecutor implements vscode.Disposable {
         const totalCount = actions.length;
         let completedCount = 0;
         const errors: ActionError[] = [];
+        const exitCodes: (number | undefined)[] = new Array(totalCount).fill(undefined);
 
         // 空の配列の場合
         if (totalCount === 0) {
@@ -232,14 +549,114 @@ export class ActionExecutor implements vscode.Disposable {
                     success: false,
                     completedCount,
                     totalCount,
-                    cancelled: true
+                    cancelled: true,
+                    exitCodes
                 };
             }
 
+            if (group.type === 'dependency-group') {
+                // 同時に実行する前提コマンド（dependsOrder: parallel）- 全ての完了を待つ
+                const results = await Promise.allSettled(
+                    group.actions.map(action => this.executeAndWait(action, cancellationToken))
+                );
+                if (cancellationToken?.isCancellationRequested) {
+                    return { success: false, completedCount, totalCount, cancelled: true, exitCodes };
+                }
+
+                const groupErrors: ActionError[] = [];
+                results.forEach((result, offset) => {
+                    const index = group.startIndex + offset;
+                    const action = group.actions[offset];
+                    if (result.status === 'fulfilled') {
+                        exitCodes[index] = result.value;
+                        if (result.value !== undefined && result.value !== 0) {
+                            groupErrors.push({
+                                index, action, error: new CommandExitError(action.command!, result.value), exitCode: result.value
+                            });
+                        }
+                        return;
+                    }
+                    const error = result.reason instanceof Error ? result.reason : new Error(String(result.reason));
+                    const actionError: ActionError = { index, action, error };
+                    if (error instanceof CommandExitError) {
+                        actionError.exitCode = error.exitCode;
+                        exitCodes[index] = error.exitCode;
+                    }
+                    groupErrors.push(actionError);
+                });
+
+                if (groupErrors.length > 0 && !continueOnError) {
+                    return {
+                        success: false,
+                        completedCount,
+                        totalCount,
+                        error: groupErrors[0].error,
+                        failedIndex: groupErrors[0].index,
+                        exitCodes
+                    };
+                }
+                errors.push(...groupErrors);
+                for (const action of group.actions) {
+                    completedCount++;
+                    if (onProgress) {
+                        onProgress(completedCount, totalCount, action);
+                    }
+                }
+                continue;
+            }
+
+            // シェル統合が使える場合は1コマンドずつ実行して終了コードを確認
+            const terminalActions = group.type === 'terminal-group'
+                ? group.actions
+                : group.action.type === 'terminal' && group.action.command ? [group.action] : null;
+
+            // ターミナルを作成できない場合（不明なプロファイル等）は通常の実行でエラーとして扱う
+            const terminal = terminalActions ? await this.tryAcquireTerminal(terminalActions[0]) : undefined;
+            if (terminalActions && terminal) {
+                terminal.show(true);
+                const shellIntegration = await this.waitForShellIntegration(terminal);
+
+                if (shellIntegration) {
+                    for (let offset = 0; offset < terminalActions.length; offset++) {
+                        const index = group.startIndex + offset;
+                        const action = terminalActions[offset];
+                        const exitCode = await this.executeWithShellIntegration(
+                            terminal, shellIntegration, action.command!, cancellationToken
+                        );
+                        exitCodes[index] = exitCode;
+
+                        if (cancellationToken?.isCancellationRequested) {
+                            return { success: false, completedCount, totalCount, cancelled: true, exitCodes };
+                        }
+
+                        if (exitCode !== undefined && exitCode !== 0) {
+                            const error = new CommandExitError(action.command!, exitCode);
+                            if (!continueOnError) {
+                                return {
+                                    success: false,
+                                    completedCount,
+                                    totalCount,
+                                    error,
+                                    failedIndex: index,
+                                    exitCodes
+                                };
+                            }
+                            errors.push({ index, action, error, exitCode });
+                        }
+
+                        completedCount++;
+                        if (onProgress) {
+                            onProgress(completedCount, totalCount, action);
+                        }
+                    }
+                    continue;
+                }
+            }
+
             try {
                 if (group.type === 'terminal-group') {
                     // 同一ターミナルへの連続コマンドをまとめて実行
-                    await this.executeTerminalGroup(group.actions, group.terminalName);
+                    await this.executeTerminalGroup(group.actions, group.terminalName, terminal);
 
                     // グループ内の全アクションを完了としてカウント
                     for (const action of group.actions) {
@@ -249,8 +666,13 @@ export class ActionExecutor implements vscode.Disposable {
                         }
                     }
                 } else {
-                    // 通常のアクションを実行
-                    await this.execute(group.action);
+                    if (terminal) {
+                        // 取得済みのターミナルに送信（terminalPolicyで二重に作成しない）
+                        terminal.sendText(group.action.command!);
+                    } else {
+                        // 通常のアクションを実行（process・taskは終了コードを記録）
+                        exitCodes[group.startIndex] = await this.executeAction(group.action);
+                    }
                     completedCount++;
 
                     if (onProgress) {
@@ -263,6 +685,10 @@ export class ActionExecutor implements vscode.Disposable {
                     action: group.type === 'terminal-group' ? group.actions[0] : group.action,
                     error: error instanceof Error ? error : new Error(String(error))
                 };
+                if (error instanceof CommandExitError) {
+                    actionError.exitCode = error.exitCode;
+                    exitCodes[group.startIndex] = error.exitCode;
+                }
 
                 if (continueOnError) {
                     // エラーを記録して続行
@@ -278,7 +704,8 @@ export class ActionExecutor implements vscode.Disposable {
                         completedCount,
                         totalCount,
                         error: actionError.error,
-                        failedIndex: group.startIndex
+                        failedIndex: group.startIndex,
+                        exitCodes
                     };
                 }
             }
@@ -288,7 +715,8 @@ export class ActionExecutor implements vscode.Disposable {
             success: errors.length === 0,
             completedCount,
             totalCount,
-            errors: errors.length > 0 ? errors : undefined
+            errors: errors.length > 0 ? errors : undefined,
+            exitCodes
         };
     }
 
@@ -302,7 +730,18 @@ export class ActionExecutor implements vscode.Disposable {
         while (i < actions.length) {
             const action = actions[i];
 
-            if (action.type === 'terminal') {
+            if (action.dependencyGroup !== undefined) {
+                // 同時に実行する前提コマンドを収集
+                const startIndex = i;
+                while (i < actions.length && actions[i].dependencyGroup === action.dependencyGroup) {
+                    i++;
+                }
+                groups.push({
+                    type: 'dependency-group',
+                    actions: actions.slice(startIndex, i),
+                    startIndex
+                });
+            } else if (action.type === 'terminal') {
                 // 同一ターミナルへの連続するターミナルアクションを収集
                 const terminalName = action.terminal || 'TaskPilot';
                 const terminalActions: ResolvedAction[] = [action];
@@ -311,7 +750,7 @@ export class ActionExecutor implements vscode.Disposable {
 
                 while (i < actions.length) {
                     const nextAction = actions[i];
-                    if (nextAction.type === 'terminal' &&
+                    if (nextAction.type === 'terminal' && nextAction.dependencyGroup === undefined &&
                         (nextAction.terminal || 'TaskPilot') === terminalName) {
                         terminalActions.push(nextAction);
                         i++;
@@ -351,31 +790,37 @@ export class ActionExecutor implements vscode.Disposable {
     }
 
     /**
-     * 同一ターミナルへの複数コマンドをまとめて実行
+     * アクションを実行し、完了を待って終了コードを返す
+     * ターミナルアクションはシェル統合が使える場合のみ完了を待つ（使えない場合はundefined）
      */
-    private async executeTerminalGroup(actions: ResolvedAction[], terminalName: string): Promise<void> {
-        // 既存のターミナルを探す
-        let terminal = this.terminals.get(terminalName);
-
-        // 既存ターミナルがなければ新規作成
-        if (!terminal) {
-            terminal = vscode.window.terminals.find(t => t.name === terminalName);
-
-            if (!terminal) {
-                // 新規作成（最初のアクションのcwdを使用）
-                const options: vscode.TerminalOptions = {
-                    name: terminalName
-                };
-
-                if (actions[0].cwd) {
-                    options.cwd = actions[0].cwd;
-                }
-
-                terminal = vscode.window.createTerminal(options);
-            }
+    private async executeAndWait(
+        action: ResolvedAction,
+        cancellationToken?: MultipleActionOptions['cancellationToken']
+    ): Promise<number | undefined> {
+        if (action.type !== 'terminal' || !action.command) {
+            return this.executeAction(action);
+        }
 
-            this.terminals.set(terminalName, terminal);
+        const terminal = await this.acquireTerminal(action.terminal || 'TaskPilot', action);
+        terminal.show(true);
+        const shellIntegration = await this.waitForShellIntegration(terminal);
+        if (!shellIntegration) {
+            terminal.sendText(action.command);
+            return undefined;
         }
+        return this.executeWithShellIntegration(terminal, shellIntegration, action.command, cancellationToken);
+    }
+
+    /**
+     * 同一ターミナルへの複数コマンドをまとめて実行（シェル統合が使えない場合）
+     * @param acquiredTerminal 取得済みのターミナル（省略時は最初のアクションのterminalPolicyで取得）
+     */
+    private async executeTerminalGroup(
+        actions: ResolvedAction[],
+        terminalName: string,
+        acquiredTerminal?: vscode.Terminal
+    ): Promise<void> {
+        const terminal = acquiredTerminal ?? await this.acquireTerminal(terminalName, actions[0]);
 
         // ターミナルを表示
         terminal.show(true);
@@ -387,10 +832,21 @@ export class ActionExecutor implements vscode.Disposable {
 
     /**
      * 並列アクションを分割ターミナルで実行
+     * processアクションはターミナルを作成せずバックグラウンドで実行する
      * @param actions 実行するアクションの配列
      * @returns 作成されたターミナルの配列
      */
     async executeParallel(actions: ResolvedAction[]): Promise<vscode.Terminal[]> {
+        // 前提コマンド（dependsOn）は並列アクションの開始前に完了させる
+        const dependencies = actions.filter(action => action.dependency !== undefined);
+        if (dependencies.length > 0) {
+            const result = await this.executeMultiple(dependencies);
+            if (!result.success) {
+                throw result.error ?? result.errors?.[0]?.error ?? new Error('Prerequisite command failed');
+            }
+            actions = actions.filter(action => action.dependency === undefined);
+        }
+
         if (actions.length === 0) {
             return [];
         }
@@ -400,27 +856,34 @@ export class ActionExecutor implements vscode.Disposable {
 
         for (let i = 0; i < actions.length; i++) {
             const action = actions[i];
-            const terminalName = action.terminal || `TaskPilot-${i + 1}`;
 
-            // ターミナルオプション
-            const options: vscode.TerminalOptions = {
-                name: terminalName
-            };
+            if (action.type === 'process') {
+                // 完了を待たない（失敗はOutputチャンネルに出力）
+                this.execute(action).catch(error => {
+                    const message = error instanceof Error ? error.message : String(error);
+                    this.getOutputChannel().appendLine(message);
+                });
+                continue;
+            }
 
-            if (action.cwd) {
-                options.cwd = action.cwd;
+            const terminalName = action.terminal || `TaskPilot-${i + 1}`;
+            if (action.terminalPolicy === 'restart') {
+                this.disposeNamedTerminal(terminalName);
             }
 
-            // 最初のターミナルは通常作成、2つ目以降は分割
+            // ターミナルオプション（cwd・env・シェル・表示設定）
+            const options = createTerminalOptions(terminalName, action);
+
+            // 最初のターミナルは通常作成、2つ目以降は分割（locationは最初のターミナルに従う）
             let terminal: vscode.Terminal;
-            if (i === 0) {
+            if (!parentTerminal) {
                 terminal = vscode.window.createTerminal(options);
                 parentTerminal = terminal;
             } else {
                 // TerminalSplitLocationOptions を使用して分割
                 terminal = vscode.window.createTerminal({
                     ...options,
-                    location: { parentTerminal: parentTerminal! }
+                    location: { parentTerminal }
                 });
             }
 
@@ -446,7 +909,62 @@ export class ActionExecutor implements vscode.Disposable {
      */
     dispose(): void {
         this.terminalCloseListener.dispose();
+        this.outputChannel?.dispose();
+        // バックグラウンドのプロセスは拡張機能の終了と共に停止
+        this.processes.forEach(killProcessTree);
+        this.processes.clear();
         // ターミナルは明示的に閉じない（ユーザーが作業中かもしれない）
         this.terminals.clear();
     }
 }
+
+/**
+ * 子プロセスとその子孫プロセスを終了
+ */
+function killProcessTree(child: ChildProcess): void {
+    if (child.pid === undefined) {
+        return;
+    }
+    try {
+        if (process.platform === 'win32') {
+            spawn('taskkill', ['/pid', String(child.pid), '/T', '/F']);
+        } else {
+            process.kill(-child.pid, 'SIGTERM');
+        }
+    } catch {
+        // 既に終了している
+        child.kill();
+    }
+}
+
+/**
+ * アクションの条件（タスク名・taskSource・taskType・taskGroup）に一致するタスクを検索
+ * 複数一致した場合、taskGroupの指定があればグループの既定のタスクを優先する
+ */
+export function findTask(tasks: readonly vscode.Task[], action: ResolvedAction): vscode.Task | undefined {
+    const matches = tasks.filter(t =>
+        (action.command === undefined || t.name === action.command) &&
+        (action.taskSource === undefined || t.source === action.taskSource) &&
+        (action.taskType === undefined || t.definition.type === action.taskType) &&
+        (action.taskGroup === undefined || t.group?.id === action.taskGroup)
+    );
+    if (action.taskGroup !== undefined) {
+        return matches.find(t => t.group?.isDefault) ?? matches[0];
+    }
+    return matches[0];
+}
+
+/**
+ * エラー表示用にタスクの条件を文字列化（例: `"build" (source: npm)`）
+ */
+function describeTaskMatch(action: ResolvedAction): string {
+    const conditions = [
+        action.taskSource !== undefined ? `source: ${action.taskSource}` : undefined,
+        action.taskType !== undefined ? `type: ${action.taskType}` : undefined,
+        action.taskGroup !== undefined ? `group: ${action.taskGroup}` : undefined
+    ].filter((condition): condition is string => !!condition);
+
+    const name = action.command !== undefined ? `"${action.command}"` : '';
+    const filter = conditions.length > 0 ? `(${conditions.join(', ')})` : '';
+    return [name, filter].filter(part => part).join(' ');
+}
@@ -0,0 +1,162 @@
+/**
+ * TaskPilot Command Graph
+ * コマンドのdependsOn（前提コマンド）の検証と実行順の解決
+ */
+
+import { CommandDefinition, MenuConfig, MenuItem, ValidationError } from './types';
+
+/**
+ * 前提コマンドの検証（未定義のコマンド・循環依存）
+ * includeのマージ後のcommandsに対して行う
+ */
+export function validateCommandDependencies(commands: Record<string, CommandDefinition> = {}): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    for (const [name, command] of Object.entries(commands)) {
+        for (const dependency of command.dependsOn ?? []) {
+            if (!commands[dependency]) {
+                errors.push({ message: `Unknown command "${dependency}"`, path: `commands.${name}.dependsOn` });
+            }
+        }
+    }
+
+    // 深さ優先探索で循環を検出（同じ循環は最初に見つかったコマンドでのみ報告）
+    const visited = new Set<string>();
+    const visit = (name: string, stack: string[]): void => {
+        const index = stack.indexOf(name);
+        if (index >= 0) {
+            const cycle = [...stack.slice(index), name];
+            errors.push({
+                message: `Circular dependency: ${cycle.join(' -> ')}`,
+                path: `commands.${stack[index]}.dependsOn`
+            });
+            return;
+        }
+        if (visited.has(name) || !commands[name]) {
+            return;
+        }
+        visited.add(name);
+        for (const dependency of commands[name].dependsOn ?? []) {
+            visit(dependency, [...stack, name]);
+        }
+    };
+    for (const name of Object.keys(commands)) {
+        visit(name, []);
+    }
+
+    return errors;
+}
+
+/**
+ * コマンドの前提コマンドを実行順のステージに解決
+ * - 各ステージのコマンドは同時に実行できる（`dependsOrder: parallel`の場合のみ複数）
+ * - `done`に含まれるコマンドは実行済みとして除外し、解決したコマンドを追加する
+ * @param commands コマンド定義
+ * @param name 実行するコマンド名（結果には含まない）
+ * @param done 実行済み（実行予定）のコマンド名
+ * @returns 前提コマンド名のステージ（実行順）
+ */
+export function resolveDependencyStages(
+    commands: Record<string, CommandDefinition>,
+    name: string,
+    done: Set<string> = new Set()
+): string[][] {
+    const stages: string[][] = [];
+    // 循環していても無限に再帰しないよう、解決中のコマンドを記録
+    const resolving = new Set<string>();
+
+    const addPrerequisites = (commandName: string): void => {
+        const command = commands[commandName];
+        if (!command || resolving.has(commandName)) {
+            return;
+        }
+        resolving.add(commandName);
+
+        const dependencies = (command.dependsOn ?? []).filter(dependency => commands[dependency]);
+        if (command.dependsOrder === 'parallel') {
+            // 各前提コマンドの前提を先に解決してから、前提コマンドを同時に実行
+            const pending = dependencies.filter(dependency => !done.has(dependency));
+            pending.forEach(addPrerequisites);
+            const stage = pending.filter(dependency => !done.has(dependency) && !resolving.has(dependency));
+            stage.forEach(dependency => done.add(dependency));
+            if (stage.length > 0) {
+                stages.push([...new Set(stage)]);
+            }
+        } else {
+            dependencies.forEach(add);
+        }
+
+        resolving.delete(commandName);
+    };
+
+    const add = (commandName: string): void => {
+        if (done.has(commandName) || resolving.has(commandName)) {
+            return;
+        }
+        addPrerequisites(commandName);
+        if (!done.has(commandName)) {
+            done.add(commandName);
+            stages.push([commandName]);
+        }
+    };
+
+    addPrerequisites(name);
+    return stages;
+}
+
+/**
+ * コマンドへの参照（`ref`・`dependsOn`の要素）
+ */
+export interface CommandReference {
+    /** 参照しているコマンド名 */
+    name: string;
+    /** 参照の値へのパス（例: "menu[0].actions[1].ref"、"commands.deploy.dependsOn[0]"） */
+    path: string;
+}
+
+/**
+ * 設定内のコマンドへの参照をすべて取得
+ * メニュー項目・actions・parallelの`ref`と、コマンドの`dependsOn`を対象とする
+ */
+export function findCommandReferences(config: Partial<MenuConfig>): CommandReference[] {
+    const references: CommandReference[] = [];
+
+    const visit = (items: MenuItem[], path: string): void => {
+        items.forEach((item, index) => {
+            const itemPath = `${path}[${index}]`;
+            if (typeof item?.ref === 'string') {
+                references.push({ name: item.ref, path: `${itemPath}.ref` });
+            }
+            for (const key of ['actions', 'parallel'] as const) {
+                const actions = item?.[key];
+                if (!Array.isArray(actions)) {
+                    continue;
+                }
+                actions.forEach((action, actionIndex) => {
+                    if (typeof action?.ref === 'string') {
+                        references.push({ name: action.ref, path: `${itemPath}.${key}[${actionIndex}].ref` });
+                    }
+                });
+            }
+            if (Array.isArray(item?.children)) {
+                visit(item.children, `${itemPath}.children`);
+            }
+        });
+    };
+    if (Array.isArray(config.menu)) {
+        visit(config.menu, 'menu');
+    }
+
+    for (const [name, command] of Object.entries(config.commands ?? {})) {
+        if (!Array.isArray(command?.dependsOn)) {
+            continue;
+        }
+        command.dependsOn.forEach((dependency, index) => {
+            if (typeof dependency === 'string') {
+                references.push({ name: dependency, path: `commands.${name}.dependsOn[${index}]` });
+            }
+        });
+    }
+
+    return references;
+}
@@ -0,0 +1,250 @@
+/**
+ * TaskPilot Config Completion
+ * 設定ファイルの値の補完（ref・タスク名・アイコン・VS CodeコマンドID）
+ */
+
+import * as vscode from 'vscode';
+import * as yaml from 'js-yaml';
+import codiconMapping from '@vscode/codicons/src/template/mapping.json';
+import { ConfigManager } from './config-manager';
+import { CommandDefinition } from './types';
+
+/**
+ * 補完に使用する行の情報
+ */
+interface KeyLine {
+    /** キー（`- `のみの行などはundefined） */
+    key?: string;
+    /** 値（引用符・コメントを除く） */
+    value?: string;
+    /** キーの開始列（`- `を含む） */
+    column: number;
+    /** シーケンスの要素の先頭行（`- `で始まる）かどうか */
+    item: boolean;
+}
+
+/** codicon名（@vscode/codiconsのマッピングから作成） */
+let codiconNames: string[] | undefined;
+
+/**
+ * ConfigCompletionProvider - 設定ファイルの値の補完
+ * - `ref:` commandsのコマンド名
+ * - `command:`（`type: task`）タスク名
+ * - `command:`（`type: vscodeCommand`）VS CodeコマンドID
+ * - `icon:` codicon名（`$(name)`）
+ */
+export class ConfigCompletionProvider implements vscode.CompletionItemProvider, vscode.Disposable {
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly configManager: ConfigManager) {
+        this.disposables.push(
+            vscode.languages.registerCompletionItemProvider(
+                { scheme: 'file', language: 'yaml' },
+                this,
+                ' ', '('
+            )
+        );
+    }
+
+    /**
+     * カーソル位置の値の補完候補を作成
+     */
+    async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.CompletionItem[] | undefined> {
+        if (!this.configManager.getConfigFileKind(document.uri.fsPath)) {
+            return undefined;
+        }
+
+        const prefix = document.lineAt(position.line).text.slice(0, position.character);
+        const match = /^\s*(?:-\s+)?([\w.-]+)\s*:\s+(["']?)([^"'#]*)$/.exec(prefix);
+        if (!match) {
+            return undefined;
+        }
+        const [, key, , typed] = match;
+        const range = new vscode.Range(position.line, position.character - typed.length, position.line, position.character);
+
+        switch (key) {
+            case 'ref':
+                return this.getCommandItems(document, range);
+            case 'icon':
+                return getCodiconItems(range);
+            case 'command': {
+                const type = findSiblingValue(document, position.line, 'type');
+                if (type === 'task') {
+                    return getTaskItems(range);
+                }
+                if (type === 'vscodeCommand') {
+                    return getVscodeCommandItems(range);
+                }
+                return undefined;
+            }
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * commandsのコマンド名（includeされたファイルを含む読み込み済みの設定と、編集中の内容）
+     */
+    private getCommandItems(document: vscode.TextDocument, range: vscode.Range): vscode.CompletionItem[] {
+        const commands: Record<string, CommandDefinition> = {
+            ...this.configManager.getConfig()?.commands,
+            ...parseCommands(document.getText())
+        };
+
+        return Object.entries(commands).map(([name, command]) => {
+            const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Reference);
+            item.detail = command?.description ?? command?.command;
+            item.documentation = command?.type;
+            item.range = range;
+            return item;
+        });
+    }
+
+    /**
+     * リソースを解放
+     */
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+/**
+ * 編集中の内容からcommandsを取得（YAMLとして不正な場合は空）
+ */
+function parseCommands(content: string): Record<string, CommandDefinition> {
+    try {
+        const data = yaml.load(content) as { commands?: unknown } | undefined;
+        return data?.commands && typeof data.commands === 'object' && !Array.isArray(data.commands)
+            ? data.commands as Record<string, CommandDefinition>
+            : {};
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * タスク名の補完候補
+ */
+async function getTaskItems(range: vscode.Range): Promise<vscode.CompletionItem[]> {
+    // 同名のタスク（ソースが異なる）は1つにまとめる
+    const tasks = new Map<string, vscode.Task>();
+    for (const task of await vscode.tasks.fetchTasks()) {
+        if (!tasks.has(task.name)) {
+            tasks.set(task.name, task);
+        }
+    }
+    return [...tasks.values()].map(task => {
+        const item = new vscode.CompletionItem(task.name, vscode.CompletionItemKind.Event);
+        item.detail = task.source;
+        item.range = range;
+        return item;
+    });
+}
+
+/**
+ * VS CodeコマンドIDの補完候補（内部コマンドを除く）
+ */
+async function getVscodeCommandItems(range: vscode.Range): Promise<vscode.CompletionItem[]> {
+    const commands = await vscode.commands.getCommands(true);
+    return commands.map(command => {
+        const item = new vscode.CompletionItem(command, vscode.CompletionItemKind.Function);
+        item.range = range;
+        return item;
+    });
+}
+
+/**
+ * codicon名の補完候補
+ */
+function getCodiconItems(range: vscode.Range): vscode.CompletionItem[] {
+    return getCodiconNames().map(name => {
+        const item = new vscode.CompletionItem(`$(${name})`, vscode.CompletionItemKind.Constant);
+        item.range = range;
+        return item;
+    });
+}
+
+/**
+ * codicon名の一覧
+ */
+function getCodiconNames(): string[] {
+    if (!codiconNames) {
+        const mapping: Record<string, string[]> = codiconMapping;
+        codiconNames = [...new Set(Object.values(mapping).flat())].sort();
+    }
+    return codiconNames;
+}
+
+/**
+ * 同じマッピング（メニュー項目・コマンド定義・アクション）内の別のキーの値を取得
+ * @param document ドキュメント
+ * @param lineNumber キーのある行
+ * @param key 取得するキー
+ */
+export function findSiblingValue(document: vscode.TextDocument, lineNumber: number, key: string): string | undefined {
+    const current = parseKeyLine(document.lineAt(lineNumber).text);
+    if (!current) {
+        return undefined;
+    }
+
+    // 上方向：同じ要素の先頭（`- `の行）まで
+    if (!current.item) {
+        for (let i = lineNumber - 1; i >= 0; i--) {
+            const line = parseKeyLine(document.lineAt(i).text);
+            if (!line || line.column > current.column) {
+                continue;
+            }
+            if (line.column < current.column || !line.key) {
+                break;
+            }
+            if (line.key === key) {
+                return line.value;
+            }
+            if (line.item) {
+                break;
+            }
+        }
+    }
+
+    // 下方向：次の要素またはマッピングの終わりまで
+    for (let i = lineNumber + 1; i < document.lineCount; i++) {
+        const line = parseKeyLine(document.lineAt(i).text);
+        if (!line || line.column > current.column) {
+            continue;
+        }
+        if (line.column < current.column || line.item || !line.key) {
+            break;
+        }
+        if (line.key === key) {
+            return line.value;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * 行をキー・値・列に分解（空行・コメント行はundefined）
+ */
+function parseKeyLine(text: string): KeyLine | undefined {
+    const match = /^(\s*)(-(?:\s+|$))?(.*)$/.exec(text) as RegExpExecArray;
+    const [, indent, dash = '', rest] = match;
+    if (!dash && (rest === '' || rest.startsWith('#'))) {
+        return undefined;
+    }
+
+    const column = indent.length + dash.length;
+    const keyValue = /^([\w.-]+)\s*:(?:\s+(.*))?$/.exec(rest);
+    if (!keyValue) {
+        return { column, item: !!dash };
+    }
+
+    const value = keyValue[2]
+        ?.replace(/\s+#.*$/, '')
+        .trim()
+        .replace(/^(["'])(.*)\1$/, '$2');
+    return { key: keyValue[1], value, column, item: !!dash };
+}
@@ -0,0 +1,195 @@
+/**
+ * TaskPilot Config Diagnostics
+ * 編集中の設定ファイル（includeされたファイルを含む）を検証し、問題をエディタに表示する
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ConfigManager } from './config-manager';
+import { CommandDefinition, MenuConfig, ValidationError } from './types';
+import { validateCommandDependencies } from './command-graph';
+import { YamlParseError, parseIncludedConfig, parseMenuConfig } from './yaml-parser';
+import { createSourceMap, findPosition } from './yaml-source-map';
+
+/** Diagnosticのソース名 */
+const DIAGNOSTIC_SOURCE = 'TaskPilot';
+
+/** 編集後に検証するまでの待ち時間（ミリ秒） */
+const VALIDATE_DELAY = 300;
+
+/**
+ * ConfigDiagnostics - 設定ファイルの編集ごとの検証
+ * 保存前の内容を検証するため、読み込み済みの設定とは独立して動作する
+ */
+export class ConfigDiagnostics implements vscode.Disposable {
+    private readonly diagnostics = vscode.languages.createDiagnosticCollection('taskpilot');
+    private readonly disposables: vscode.Disposable[] = [];
+    /** ドキュメントのURIごとの検証待ちのタイマー */
+    private readonly pending = new Map<string, ReturnType<typeof setTimeout>>();
+
+    constructor(private readonly configManager: ConfigManager) {
+        this.disposables.push(
+            this.diagnostics,
+            vscode.workspace.onDidOpenTextDocument(document => this.validate(document)),
+            // 入力のたびに検証しないよう、編集が止まってから検証する
+            vscode.workspace.onDidChangeTextDocument(event => this.scheduleValidate(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                this.cancelValidate(document.uri);
+                this.diagnostics.delete(document.uri);
+            }),
+            // includeの追加・削除で対象のファイルが変わるため、再読み込み後に開いているファイルを検証し直す
+            configManager.onConfigChanged(() => this.validateAll())
+        );
+        this.validateAll();
+    }
+
+    /**
+     * 開いているすべてのドキュメントを検証
+     */
+    validateAll(): void {
+        this.diagnostics.clear();
+        vscode.workspace.textDocuments.forEach(document => this.validate(document));
+    }
+
+    /**
+     * 編集が止まってからドキュメントを検証
+     */
+    scheduleValidate(document: vscode.TextDocument): void {
+        this.cancelValidate(document.uri);
+        this.pending.set(document.uri.toString(), setTimeout(() => {
+            this.pending.delete(document.uri.toString());
+            this.validate(document);
+        }, VALIDATE_DELAY));
+    }
+
+    /**
+     * ドキュメントの検証待ちを取り消す
+     */
+    private cancelValidate(uri: vscode.Uri): void {
+        const timer = this.pending.get(uri.toString());
+        if (timer !== undefined) {
+            clearTimeout(timer);
+            this.pending.delete(uri.toString());
+        }
+    }
+
+    /**
+     * ドキュメントを検証（設定ファイル以外は何もしない）
+     */
+    validate(document: vscode.TextDocument): void {
+        this.cancelValidate(document.uri);
+        if (document.uri.scheme !== 'file') {
+            return;
+        }
+        const kind = this.configManager.getConfigFileKind(document.uri.fsPath);
+        if (!kind) {
+            this.diagnostics.delete(document.uri);
+            return;
+        }
+        this.diagnostics.set(
+            document.uri,
+            kind === 'include'
+                ? createDiagnostics(document, true)
+                : createDiagnostics(document, false, this.getIncludedCommands(document.uri.fsPath))
+        );
+    }
+
+    /**
+     * ルート設定ファイルがincludeしたファイルで定義されたコマンド（ルート設定ファイル自身のコマンドを除く）
+     */
+    private getIncludedCommands(configPath: string): Record<string, CommandDefinition> {
+        const resolved = path.resolve(configPath);
+        const folderConfig = this.configManager.getFolderConfigs().find(fc => path.resolve(fc.configPath) === resolved);
+        if (!folderConfig) {
+            return {};
+        }
+        const own = folderConfig.rootConfig.commands ?? {};
+        return Object.fromEntries(
+            Object.entries(folderConfig.config.commands ?? {}).filter(([name]) => !Object.prototype.hasOwnProperty.call(own, name))
+        );
+    }
+
+    /**
+     * リソースを解放
+     */
+    dispose(): void {
+        this.pending.forEach(timer => clearTimeout(timer));
+        this.pending.clear();
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+/**
+ * 設定ファイルの内容を検証してDiagnosticを作成
+ * ルート設定ファイルでは前提コマンド（dependsOn）の未定義・循環依存も検証する
+ * @param document 設定ファイルのドキュメント
+ * @param included includeされるファイルかどうか（`version`・`menu`を省略可能）
+ * @param includedCommands ルート設定ファイルがincludeしたファイルのコマンド（dependsOnの参照先に含める）
+ */
+export function createDiagnostics(
+    document: vscode.TextDocument,
+    included = false,
+    includedCommands: Record<string, CommandDefinition> = {}
+): vscode.Diagnostic[] {
+    let errors: ValidationError[];
+    try {
+        if (included) {
+            parseIncludedConfig(document.getText());
+            errors = [];
+        } else {
+            errors = findDependencyErrors(document.getText(), parseMenuConfig(document.getText()), includedCommands);
+        }
+    } catch (error) {
+        if (!(error instanceof YamlParseError)) {
+            return [];
+        }
+        // 構文エラーはerrorsを持たないため、エラー自体の位置で報告する
+        errors = error.errors.length > 0
+            ? error.errors
+            : [{ message: error.reason, line: error.line, column: error.column }];
+    }
+    return errors.map(e => {
+        const diagnostic = new vscode.Diagnostic(
+            getErrorRange(document, e),
+            e.path ? `${e.path}: ${e.message}` : e.message,
+            vscode.DiagnosticSeverity.Error
+        );
+        diagnostic.source = DIAGNOSTIC_SOURCE;
+        return diagnostic;
+    });
+}
+
+/**
+ * ルート設定ファイルのコマンドのdependsOnの問題を位置付きで取得
+ * includeしたファイルのコマンドも参照先に含め、このファイルのコマンドのエラーのみを返す
+ */
+function findDependencyErrors(
+    content: string,
+    config: MenuConfig,
+    includedCommands: Record<string, CommandDefinition>
+): ValidationError[] {
+    const own = Object.keys(config.commands ?? {}).map(name => `commands.${name}.dependsOn`);
+    const errors = validateCommandDependencies({ ...includedCommands, ...config.commands })
+        .filter(e => own.includes(e.path ?? ''));
+    if (errors.length === 0) {
+        return [];
+    }
+    const sourceMap = createSourceMap(content);
+    return errors.map(e => ({ ...e, ...findPosition(sourceMap, e.path) }));
+}
+
+/**
+ * エラー位置の範囲（位置にあるキーや値の1語、位置がない場合は先頭）
+ */
+function getErrorRange(document: vscode.TextDocument, error: ValidationError): vscode.Range {
+    if (!error.line || error.line > document.lineCount) {
+        return new vscode.Range(0, 0, 0, 0);
+    }
+
+    const line = error.line - 1;
+    const text = document.lineAt(line).text;
+    const start = Math.min((error.column ?? 1) - 1, text.length);
+    const word = /^[^\s:#,[\]{}]+/.exec(text.slice(start));
+    const end = word ? start + word[0].length : text.length;
+    return new vscode.Range(line, start, line, end);
+}
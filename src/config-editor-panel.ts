@@ -8,6 +8,8 @@ import { MenuConfig, MenuItem, CommandDefinition } from './types';
 import { ConfigManager } from './config-manager';
 import { ConfigEditor } from './config-editor';
 import { generateYaml } from './yaml-generator';
+import { tryPatchYaml } from './yaml-patch';
+import { confirmSave } from './save-preview';
 import { getStyles } from './webview/styles';
 
 /**
@@ -88,8 +90,8 @@ export class ConfigEditorPanel {
         this._configManager = configManager;
         this._editor = new ConfigEditor();
 
-        // 現在の設定を取得
-        this._currentConfig = this._configManager.getConfig();
+        // 保存先の設定を取得（グローバルメニュー・他のワークスペースフォルダ・includeしたファイルは含まない）
+        this._currentConfig = this._configManager.getEditableConfig();
 
         // HTMLを設定
         this._update();
@@ -105,9 +107,10 @@ export class ConfigEditorPanel {
         );
 
         // 設定変更を監視
-        this._configManager.onConfigChanged((event) => {
-            if (event.config) {
-                this._currentConfig = event.config;
+        this._configManager.onConfigChanged(() => {
+            const config = this._configManager.getEditableConfig();
+            if (config) {
+                this._currentConfig = config;
                 this._sendConfigToWebview();
             }
         }, null, this._disposables);
@@ -232,7 +235,7 @@ export class ConfigEditorPanel {
 
             case 'refresh':
                 await this._configManager.reloadConfig();
-                this._currentConfig = this._configManager.getConfig();
+                this._currentConfig = this._configManager.getEditableConfig();
                 this._sendConfigToWebview();
                 break;
         }
@@ -252,6 +255,7 @@ export class ConfigEditorPanel {
 
     /**
      * 設定を保存
+     * 既存のファイルには変更箇所だけを適用し（コメント・書式を保持）、差分を確認してから書き込む
      */
     private async _saveConfig(): Promise<void> {
         if (!this._currentConfig) {
@@ -266,8 +270,20 @@ export class ConfigEditorPanel {
         }
 
         try {
-            const yamlContent = generateYaml(this._currentConfig);
             const uri = vscode.Uri.file(configPath);
+            const original = await this._readFile(uri);
+            // 変更箇所だけを適用できない場合は全体を生成し直す（コメント等は失われる）
+            const patched = original === undefined ? undefined : tryPatchYaml(original, this._currentConfig);
+            const yamlContent = patched ?? generateYaml(this._currentConfig);
+
+            if (yamlContent === original) {
+                vscode.window.showInformationMessage('TaskPilot: 変更はありません');
+                return;
+            }
+            if (original !== undefined && !(await confirmSave(uri, yamlContent, patched === undefined))) {
+                return;
+            }
+
             await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(yamlContent));
             vscode.window.showInformationMessage('TaskPilot: 設定を保存しました');
             this._editor.clearHistory();
@@ -278,6 +294,17 @@ export class ConfigEditorPanel {
         }
     }
 
+    /**
+     * ファイルの内容を読み込み（存在しない場合はundefined）
+     */
+    private async _readFile(uri: vscode.Uri): Promise<string | undefined> {
+        try {
+            return new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+        } catch {
+            return undefined;
+        }
+    }
+
     /**
      * Webviewを更新
      */
@@ -357,6 +384,7 @@ export class ConfigEditorPanel {
                         <option value="terminal">Terminal</option>
                         <option value="vscodeCommand">VS Code Command</option>
                         <option value="task">Task</option>
+                        <option value="process">Process (no terminal)</option>
                         <option value="ref">Reference (ref)</option>
                     </select>
                 </div>
@@ -581,7 +609,7 @@ export class ConfigEditorPanel {
             document.getElementById('actionFields').style.display = visibility.showActionFields ? 'block' : 'none';
             document.getElementById('refField').style.display = visibility.showRefField ? 'block' : 'none';
             document.getElementById('terminalNameGroup').style.display = visibility.showTerminalFields ? 'block' : 'none';
-            document.getElementById('cwdGroup').style.display = visibility.showTerminalFields ? 'block' : 'none';
+            document.getElementById('cwdGroup').style.display = visibility.showCwdField ? 'block' : 'none';
         }
 
         function updateRefOptions() {
@@ -641,7 +669,7 @@ export class ConfigEditorPanel {
             const name = prompt('Command name:');
             if (!name) return;
 
-            const type = prompt('Type (terminal, vscodeCommand, task):', 'terminal');
+            const type = prompt('Type (terminal, vscodeCommand, task, process):', 'terminal');
             if (!type) return;
 
             const command = prompt('Command:');
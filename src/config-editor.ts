@@ -217,8 +217,13 @@ export class ConfigEditor implements vscode.Disposable {
             newConfig.commands[newName] = newConfig.commands[oldName];
             delete newConfig.commands[oldName];
 
-            // メニュー内のref参照を更新
+            // メニュー内のref参照と前提コマンドを更新
             this.updateRefsInMenu(newConfig.menu, oldName, newName);
+            for (const command of Object.values(newConfig.commands)) {
+                if (command.dependsOn) {
+                    command.dependsOn = command.dependsOn.map(name => name === oldName ? newName : name);
+                }
+            }
         }
 
         return newConfig;
@@ -243,7 +248,7 @@ export class ConfigEditor implements vscode.Disposable {
 
         // childrenがない場合はref, type+command, またはactionsが必要
         const hasRef = !!item.ref;
-        const hasInlineAction = item.type && item.command;
+        const hasInlineAction = item.type && (item.command || (item.type === 'task' && item.taskGroup));
         const hasActions = item.actions && item.actions.length > 0;
 
         if (!hasRef && !hasInlineAction && !hasActions) {
@@ -363,11 +368,9 @@ export class ConfigEditor implements vscode.Disposable {
                 item.ref = newRef;
             }
 
-            if (item.actions) {
-                for (const action of item.actions) {
-                    if (action.ref === oldRef) {
-                        action.ref = newRef;
-                    }
+            for (const action of [...item.actions ?? [], ...item.parallel ?? []]) {
+                if (action.ref === oldRef) {
+                    action.ref = newRef;
                 }
             }
 
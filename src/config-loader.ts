@@ -0,0 +1,180 @@
+/**
+ * TaskPilot Config Loader
+ * include を解決して複数のYAML設定ファイルを読み込み・マージする
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { parseMenuConfig, parseIncludedConfig, YamlParseError } from './yaml-parser';
+import { MenuConfig } from './types';
+
+/**
+ * 設定ファイル読み込み用のファイルシステム
+ */
+export interface ConfigFileSystem {
+    /** ファイルをテキストとして読み込む */
+    readFile(filePath: string): Promise<string>;
+    /** ベースディレクトリからのグロブパターンに一致するファイルを検索 */
+    findFiles(baseDir: string, pattern: string): Promise<string[]>;
+}
+
+/**
+ * 監視対象のinclude パターン
+ */
+export interface IncludePattern {
+    /** パターンの基準ディレクトリ */
+    baseDir: string;
+    /** ファイル名またはグロブパターン */
+    pattern: string;
+}
+
+/**
+ * 読み込み結果
+ */
+export interface LoadedConfig {
+    /** マージ済みの設定 */
+    config: MenuConfig;
+    /** ルート設定ファイル自身の設定（includeしたファイルをマージする前） */
+    rootConfig: MenuConfig;
+    /** 読み込んだファイルの絶対パス（読み込み順） */
+    files: string[];
+    /** includeで指定されたパターン（ファイル監視用） */
+    includePatterns: IncludePattern[];
+}
+
+/**
+ * VS Code Workspace API を使用したファイルシステム
+ */
+export const workspaceFileSystem: ConfigFileSystem = {
+    async readFile(filePath: string): Promise<string> {
+        const content = await vscode.workspace.fs.readFile(vscode.Uri.file(filePath));
+        return new TextDecoder().decode(content);
+    },
+    async findFiles(baseDir: string, pattern: string): Promise<string[]> {
+        const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(baseDir, pattern));
+        return uris.map(uri => uri.fsPath);
+    }
+};
+
+/**
+ * グロブパターンかどうかを判定
+ */
+export function isGlobPattern(pattern: string): boolean {
+    return /[*?[\]{}]/.test(pattern);
+}
+
+/**
+ * 設定ファイルをincludeも含めて読み込む
+ * @param configPath ルート設定ファイルの絶対パス
+ * @param fileSystem ファイルシステム（テスト用に差し替え可能）
+ * @returns マージ済みの設定と読み込んだファイル情報
+ * @throws YamlParseError パース/バリデーション/include解決の失敗時（ファイル名付き）
+ * @throws Error ルート設定ファイルの読み込み失敗時
+ */
+export async function loadConfig(
+    configPath: string,
+    fileSystem: ConfigFileSystem = workspaceFileSystem
+): Promise<LoadedConfig> {
+    const rootDir = path.dirname(configPath);
+    const displayName = (filePath: string) => path.relative(rootDir, filePath) || path.basename(filePath);
+
+    const files: string[] = [];
+    const includePatterns: IncludePattern[] = [];
+    let rootConfig: MenuConfig | undefined;
+
+    const load = async (filePath: string, stack: string[], includedFrom?: string): Promise<MenuConfig> => {
+        files.push(filePath);
+
+        let text: string;
+        try {
+            text = await fileSystem.readFile(filePath);
+        } catch (error) {
+            if (!includedFrom) {
+                throw error;
+            }
+            throw new YamlParseError(
+                `Included file not found: ${displayName(filePath)}`,
+                undefined,
+                undefined,
+                displayName(includedFrom)
+            );
+        }
+
+        const config = includedFrom
+            ? parseIncludedConfig(text, displayName(filePath))
+            : parseMenuConfig(text, displayName(filePath));
+        rootConfig = rootConfig ?? config;
+
+        let merged: MenuConfig = { ...config };
+        const baseDir = path.dirname(filePath);
+
+        for (const pattern of config.include ?? []) {
+            for (const includedPath of await resolveInclude(baseDir, pattern)) {
+                if (stack.includes(includedPath)) {
+                    throw new YamlParseError(
+                        `Circular include: ${[...stack, includedPath].map(displayName).join(' -> ')}`,
+                        undefined,
+                        undefined,
+                        displayName(filePath)
+                    );
+                }
+                // 複数経路から参照されるファイルは一度だけ読み込む
+                if (files.includes(includedPath)) {
+                    continue;
+                }
+                const included = await load(includedPath, [...stack, includedPath], filePath);
+                merged = mergeConfigs(merged, included);
+            }
+        }
+
+        return merged;
+    };
+
+    const resolveInclude = async (baseDir: string, pattern: string): Promise<string[]> => {
+        if (isGlobPattern(pattern)) {
+            includePatterns.push({ baseDir, pattern });
+            const matches = await fileSystem.findFiles(baseDir, pattern);
+            return matches.map(p => path.resolve(p)).sort();
+        }
+
+        const includedPath = path.resolve(baseDir, pattern);
+        includePatterns.push({ baseDir: path.dirname(includedPath), pattern: path.basename(includedPath) });
+        return [includedPath];
+    };
+
+    const root = path.resolve(configPath);
+    const config = await load(root, [root]);
+
+    return { config, rootConfig: rootConfig ?? config, files, includePatterns };
+}
+
+/**
+ * include元の設定にincludeされた設定をマージ
+ * - menu: include元の後ろに追加
+ * - commands / variables / inputs: 同名の場合はinclude元を優先
+ */
+export function mergeConfigs(base: MenuConfig, included: MenuConfig): MenuConfig {
+    const merged: MenuConfig = {
+        ...base,
+        menu: [...base.menu, ...included.menu]
+    };
+
+    if (base.commands || included.commands) {
+        merged.commands = { ...included.commands, ...base.commands };
+    }
+
+    if (base.variables || included.variables) {
+        merged.variables = { ...included.variables, ...base.variables };
+    }
+
+    if (base.inputs || included.inputs) {
+        const baseInputs = base.inputs ?? [];
+        const baseIds = new Set(baseInputs.map(input => input.id));
+        merged.inputs = [
+            ...baseInputs,
+            ...(included.inputs ?? []).filter(input => !baseIds.has(input.id))
+        ];
+    }
+
+    return merged;
+}
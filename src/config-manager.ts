@@ -5,8 +5,14 @@
 
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { parseMenuConfig, YamlParseError } from './yaml-parser';
-import { MenuConfig, MenuItem, ResolvedAction, CommandDefinition, ActionDefinition } from './types';
+import { YamlParseError, formatValidationError } from './yaml-parser';
+import { loadConfig, IncludePattern } from './config-loader';
+import { MenuConfig, MenuItem, ResolvedAction, CommandDefinition, ActionDefinition, TerminalProfileOptions, EnvLayer } from './types';
+import { createVariableContext, resolveActionVariables, collectInputIds } from './variable-resolver';
+import { promptInputs } from './input-prompter';
+import { evaluateWhen, collectFilePatterns, WhenContext } from './when-evaluator';
+import { loadEnvFiles } from './env-file';
+import { validateCommandDependencies, resolveDependencyStages } from './command-graph';
 
 /**
  * 設定変更イベントの型
@@ -16,14 +22,54 @@ export interface ConfigChangeEvent {
     error?: Error;
 }
 
+/**
+ * ワークスペースフォルダごとの設定
+ */
+export interface FolderConfig {
+    /** ワークスペースフォルダ名 */
+    name: string;
+    /** ワークスペースフォルダの絶対パス */
+    folderPath: string;
+    /** 設定ファイルの絶対パス */
+    configPath: string;
+    /** 読み込んだ設定（include解決済み） */
+    config: MenuConfig;
+    /** ルート設定ファイル自身の設定（includeしたファイルの項目を含まない） */
+    rootConfig: MenuConfig;
+    /** 読み込んだ設定ファイル（include含む） */
+    files: string[];
+}
+
+/**
+ * 設定ファイルの読み込み対象
+ */
+export interface ConfigTarget {
+    /** ワークスペースフォルダ */
+    folder: vscode.WorkspaceFolder;
+    /** 設定ファイルの絶対パス */
+    configPath: string;
+}
+
 /**
  * ConfigManager - 設定ファイルの管理クラス
  */
 export class ConfigManager implements vscode.Disposable {
     private config: MenuConfig | null = null;
-    private fileWatcher: vscode.FileSystemWatcher | null = null;
+    private fileWatchers: vscode.FileSystemWatcher[] = [];
     private configWatcher: vscode.Disposable | null = null;
-    private currentConfigPath: string | null = null;
+    /** 現在のウォッチ対象（変更検知用のキー） */
+    private currentWatchKey: string | null = null;
+    /** 最後に読み込めたときのincludeパターン（キー: 設定ファイルの絶対パス） */
+    private lastIncludePatterns = new Map<string, IncludePattern[]>();
+    /** ワークスペースフォルダごとの設定（マルチルート対応） */
+    private folderConfigs: FolderConfig[] = [];
+    /** メニューアイテムと所属フォルダの対応 */
+    private itemFolders = new WeakMap<MenuItem, FolderConfig>();
+    /** when式のexists()の結果（キー: 基準ディレクトリ + パターン） */
+    private fileConditions = new Map<string, boolean>();
+    private conditionWatchers: vscode.FileSystemWatcher[] = [];
+    /** 現在のexists()監視対象（変更検知用のキー） */
+    private conditionWatchKey: string | null = null;
 
     private readonly _onConfigChanged = new vscode.EventEmitter<ConfigChangeEvent>();
     public readonly onConfigChanged = this._onConfigChanged.event;
@@ -70,22 +116,33 @@ export class ConfigManager implements vscode.Disposable {
         // VS Code設定の変更監視
         this.configWatcher = vscode.workspace.onDidChangeConfiguration(e => {
             if (e.affectsConfiguration('taskPilot.configPath') || e.affectsConfiguration('taskPilot.globalMenu')) {
-                this.reloadConfig();
+                this.reloadConfigInBackground();
             }
         });
         this.disposables.push(this.configWatcher);
 
+        // ワークスペースフォルダの追加・削除を監視
+        this.disposables.push(vscode.workspace.onDidChangeWorkspaceFolders(() => this.reloadConfigInBackground()));
+
         // 初回読み込み
         await this.reloadConfig();
     }
 
     /**
-     * 設定ファイルパスを取得
+     * 設定ファイルパスを取得（最初のワークスペースフォルダ）
      */
     getConfigPath(): string | null {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
-            return null;
+        return this.getConfigTargets()[0]?.configPath ?? null;
+    }
+
+    /**
+     * ワークスペースフォルダごとの設定ファイルパスを取得
+     * configPathが絶対パスの場合は最初のフォルダのみを対象とする
+     */
+    getConfigTargets(): ConfigTarget[] {
+        const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+        if (workspaceFolders.length === 0) {
+            return [];
         }
 
         const configSetting = vscode.workspace
@@ -94,119 +151,380 @@ export class ConfigManager implements vscode.Disposable {
 
         // 絶対パスか相対パスかを判定
         if (path.isAbsolute(configSetting)) {
-            return configSetting;
+            return [{ folder: workspaceFolders[0], configPath: configSetting }];
         }
 
-        return path.join(workspaceFolder.uri.fsPath, configSetting);
+        return workspaceFolders.map(folder => ({
+            folder,
+            configPath: path.join(folder.uri.fsPath, configSetting)
+        }));
     }
 
     /**
      * 設定ファイルを再読み込み
+     * マルチルートワークスペースでは各フォルダの設定ファイルを読み込む
      */
     async reloadConfig(): Promise<void> {
-        const configPath = this.getConfigPath();
-
-        // パスが変更された場合、ファイルウォッチャーを更新
-        if (configPath !== this.currentConfigPath) {
-            this.setupFileWatcher(configPath);
-            this.currentConfigPath = configPath;
-        }
+        const targets = this.getConfigTargets();
 
-        if (!configPath) {
+        if (targets.length === 0) {
+            this.setupFileWatchers([]);
             this.config = null;
+            this.folderConfigs = [];
             this._onConfigChanged.fire({ config: null, error: new Error('No workspace folder open') });
             return;
         }
 
-        try {
-            const uri = vscode.Uri.file(configPath);
-            const content = await vscode.workspace.fs.readFile(uri);
-            const text = new TextDecoder().decode(content);
+        const folderConfigs: FolderConfig[] = [];
+        const includePatterns: IncludePattern[][] = [];
+        const notFound: string[] = [];
+        let parseError: Error | undefined;
+
+        for (const target of targets) {
+            try {
+                const loaded = await loadConfig(target.configPath);
+                validateDependencies(loaded.config, target.configPath);
+                folderConfigs.push({
+                    name: target.folder.name,
+                    folderPath: target.folder.uri.fsPath,
+                    configPath: target.configPath,
+                    config: loaded.config,
+                    rootConfig: loaded.rootConfig,
+                    files: loaded.files
+                });
+                includePatterns.push(loaded.includePatterns);
+                this.lastIncludePatterns.set(target.configPath, loaded.includePatterns);
+            } catch (error) {
+                // includeしたファイルの修正で再読み込みできるよう、前回読み込めたときのパターンを監視し続ける
+                includePatterns.push(this.lastIncludePatterns.get(target.configPath) ?? []);
+                const err = error instanceof Error ? error : new Error(String(error));
+
+                // ファイルが存在しない場合は静かに失敗
+                if (err.message.includes('ENOENT') || err.message.includes('FileNotFound')) {
+                    notFound.push(target.configPath);
+                } else {
+                    // パースエラーなどは通知
+                    parseError = parseError ?? err;
+                    this.showErrorNotification(err, target.configPath);
+                }
+            }
+        }
+
+        // includeされたファイルも監視対象に追加
+        this.setupFileWatchers(targets.map((target, index) => ({
+            configPath: target.configPath,
+            includePatterns: includePatterns[index]
+        })));
+
+        this.folderConfigs = folderConfigs;
+        this.config = this.combineFolderConfigs(folderConfigs);
+        await this.refreshFileConditions();
 
-            this.config = parseMenuConfig(text);
+        if (parseError) {
+            this._onConfigChanged.fire({ config: this.config, error: parseError });
+        } else if (!this.config) {
+            this._onConfigChanged.fire({
+                config: null,
+                error: new Error(`Configuration file not found: ${notFound.join(', ')}`)
+            });
+        } else {
             this._onConfigChanged.fire({ config: this.config });
-        } catch (error) {
-            this.config = null;
-            const err = error instanceof Error ? error : new Error(String(error));
+        }
+    }
 
-            // ファイルが存在しない場合は静かに失敗
-            if (err.message.includes('ENOENT') || err.message.includes('FileNotFound')) {
-                this._onConfigChanged.fire({
-                    config: null,
-                    error: new Error(`Configuration file not found: ${configPath}`)
-                });
-            } else {
-                // パースエラーなどは通知
-                this._onConfigChanged.fire({ config: null, error: err });
-                this.showErrorNotification(err);
+    /**
+     * フォルダごとの設定を1つのMenuConfigにまとめる
+     * 設定が複数ある場合は、各フォルダをトップレベルのグループとして表示する
+     */
+    private combineFolderConfigs(folderConfigs: FolderConfig[]): MenuConfig | null {
+        this.itemFolders = new WeakMap();
+        for (const folderConfig of folderConfigs) {
+            this.registerItemFolder(folderConfig.config.menu, folderConfig);
+        }
+
+        if (folderConfigs.length === 0) {
+            return null;
+        }
+
+        if (folderConfigs.length === 1) {
+            return folderConfigs[0].config;
+        }
+
+        return {
+            version: '1.0',
+            menu: folderConfigs
+                .filter(folderConfig => folderConfig.config.menu.length > 0)
+                .map(folderConfig => ({
+                    label: folderConfig.name,
+                    icon: '$(root-folder)',
+                    children: folderConfig.config.menu
+                }))
+        };
+    }
+
+    /**
+     * メニューアイテムに所属フォルダを関連付け（再帰）
+     */
+    private registerItemFolder(items: MenuItem[], folderConfig: FolderConfig): void {
+        for (const item of items) {
+            this.itemFolders.set(item, folderConfig);
+            if (item.children) {
+                this.registerItemFolder(item.children, folderConfig);
             }
         }
     }
 
     /**
      * ファイルウォッチャーをセットアップ
+     * 各フォルダのルート設定ファイルとincludeパターンを監視する
      */
-    private setupFileWatcher(configPath: string | null): void {
+    private setupFileWatchers(targets: { configPath: string; includePatterns: IncludePattern[] }[]): void {
+        const watchKey = JSON.stringify(targets);
+        if (watchKey === this.currentWatchKey) {
+            return;
+        }
+        this.currentWatchKey = watchKey;
+
         // 既存のウォッチャーを破棄
-        if (this.fileWatcher) {
-            this.fileWatcher.dispose();
-            this.fileWatcher = null;
+        for (const watcher of this.fileWatchers) {
+            watcher.dispose();
+            this.disposables = this.disposables.filter(d => d !== watcher);
+        }
+        this.fileWatchers = [];
+
+        for (const target of targets) {
+            const patterns: IncludePattern[] = [
+                // ルート設定ファイル
+                { baseDir: path.dirname(target.configPath), pattern: path.basename(target.configPath) },
+                ...target.includePatterns
+            ];
+
+            // 追加・変更・削除のいずれも再読み込み
+            for (const include of patterns) {
+                const watcher = vscode.workspace.createFileSystemWatcher(
+                    new vscode.RelativePattern(include.baseDir, include.pattern)
+                );
+                watcher.onDidChange(() => this.reloadConfigInBackground());
+                watcher.onDidCreate(() => this.reloadConfigInBackground());
+                watcher.onDidDelete(() => this.reloadConfigInBackground());
+                this.fileWatchers.push(watcher);
+            }
+        }
+
+        this.disposables.push(...this.fileWatchers);
+    }
+
+    /**
+     * when式のexists()で参照されるパターンを収集
+     */
+    private collectConditionPatterns(): IncludePattern[] {
+        const patterns: IncludePattern[] = [];
+        const addPatterns = (baseDir: string, when?: string) => {
+            for (const pattern of when ? collectFilePatterns(when) : []) {
+                if (!patterns.some(p => p.baseDir === baseDir && p.pattern === pattern)) {
+                    patterns.push({ baseDir, pattern });
+                }
+            }
+        };
+        const walk = (items: MenuItem[], baseDir: string) => {
+            for (const item of items) {
+                addPatterns(baseDir, item.when);
+                if (item.children) {
+                    walk(item.children, baseDir);
+                }
+            }
+        };
+
+        for (const folderConfig of this.folderConfigs) {
+            walk(folderConfig.config.menu, folderConfig.folderPath);
+            for (const command of Object.values(folderConfig.config.commands ?? {})) {
+                addPatterns(folderConfig.folderPath, command.when);
+            }
+        }
+
+        // グローバルメニューは最初のワークスペースフォルダ基準
+        const firstFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (firstFolder) {
+            walk(this.getGlobalMenu(), firstFolder);
+        }
+
+        return patterns;
+    }
+
+    /**
+     * ウォッチャー等から待たずに設定を再読み込み
+     */
+    private reloadConfigInBackground(): void {
+        this.reloadConfig()
+            .catch(error => console.error('TaskPilot config error:', error instanceof Error ? error.message : error));
+    }
+
+    /**
+     * exists()の結果を再計算し、対象ファイルの追加・削除を監視
+     * 検索に失敗したパターン（不正なglob等）はファイルが存在しないものとして扱う
+     */
+    private async refreshFileConditions(): Promise<void> {
+        const patterns = this.collectConditionPatterns();
+        const results = new Map<string, boolean>();
+
+        for (const { baseDir, pattern } of patterns) {
+            let exists = false;
+            try {
+                const found = await vscode.workspace.findFiles(new vscode.RelativePattern(baseDir, pattern), null, 1);
+                exists = found.length > 0;
+            } catch (error) {
+                console.error('TaskPilot when error:', error instanceof Error ? error.message : error);
+            }
+            results.set(conditionKey(baseDir, pattern), exists);
         }
 
-        if (!configPath) {
+        this.fileConditions = results;
+        this.setupConditionWatchers(patterns);
+    }
+
+    /**
+     * exists()の対象ファイルのウォッチャーをセットアップ
+     */
+    private setupConditionWatchers(patterns: IncludePattern[]): void {
+        const watchKey = JSON.stringify(patterns);
+        if (watchKey === this.conditionWatchKey) {
             return;
         }
+        this.conditionWatchKey = watchKey;
+
+        for (const watcher of this.conditionWatchers) {
+            watcher.dispose();
+            this.disposables = this.disposables.filter(d => d !== watcher);
+        }
+        this.conditionWatchers = [];
+
+        const refresh = () => {
+            this.refreshFileConditions()
+                .then(() => this._onConfigChanged.fire({ config: this.config }))
+                .catch(error => console.error('TaskPilot when error:', error instanceof Error ? error.message : error));
+        };
+
+        // 内容の変更は結果に影響しないため、追加・削除のみ監視
+        for (const { baseDir, pattern } of patterns) {
+            const watcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(baseDir, pattern), false, true, false
+            );
+            watcher.onDidCreate(refresh);
+            watcher.onDidDelete(refresh);
+            this.conditionWatchers.push(watcher);
+        }
+
+        this.disposables.push(...this.conditionWatchers);
+    }
 
-        // 新しいウォッチャーを作成
-        const pattern = new vscode.RelativePattern(
-            path.dirname(configPath),
-            path.basename(configPath)
+    /**
+     * when式の評価コンテキストを作成
+     * @param baseDir exists()の基準ディレクトリ
+     */
+    private createWhenContext(baseDir?: string): WhenContext {
+        return {
+            platform: process.platform,
+            remoteName: vscode.env.remoteName,
+            env: process.env,
+            fileExists: pattern =>
+                baseDir !== undefined && (this.fileConditions.get(conditionKey(baseDir, pattern)) ?? false)
+        };
+    }
+
+    /**
+     * メニューアイテムが表示条件を満たすか判定
+     * 項目のwhenに加え、ref先コマンド（actions・parallelのrefを含む）のwhenも評価する
+     */
+    isItemVisible(item: MenuItem): boolean {
+        const folderConfig = this.itemFolders.get(item);
+        const commands = (folderConfig?.config ?? this.config)?.commands;
+        const refs = [item.ref, ...(item.actions ?? []).map(a => a.ref), ...(item.parallel ?? []).map(a => a.ref)];
+        const conditions = [item.when, ...refs.map(ref => (ref ? commands?.[ref]?.when : undefined))]
+            .filter((when): when is string => !!when);
+        if (conditions.length === 0) {
+            return true;
+        }
+
+        const context = this.createWhenContext(
+            folderConfig?.folderPath ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
         );
 
-        this.fileWatcher = vscode.workspace.createFileSystemWatcher(pattern);
+        try {
+            return conditions.every(when => evaluateWhen(when, context));
+        } catch (error) {
+            // 不正な式（検証されないグローバルメニュー等）は表示したままにする
+            console.error('TaskPilot when error:', error instanceof Error ? error.message : error);
+            return true;
+        }
+    }
 
-        this.fileWatcher.onDidChange(() => this.reloadConfig());
-        this.fileWatcher.onDidCreate(() => this.reloadConfig());
-        this.fileWatcher.onDidDelete(() => {
-            this.config = null;
-            this._onConfigChanged.fire({
-                config: null,
-                error: new Error('Configuration file was deleted')
-            });
-        });
+    /**
+     * 表示条件を満たさない項目を除外（再帰）
+     * 子項目がすべて非表示になったカテゴリも除外する
+     */
+    private filterVisibleItems(items: MenuItem[]): MenuItem[] {
+        const visible: MenuItem[] = [];
+
+        for (const item of items) {
+            if (!this.isItemVisible(item)) {
+                continue;
+            }
+
+            if (item.children && item.children.length > 0) {
+                const children = this.filterVisibleItems(item.children);
+                if (children.length === 0) {
+                    continue;
+                }
+                if (children.length !== item.children.length) {
+                    const filtered = { ...item, children };
+                    const folderConfig = this.itemFolders.get(item);
+                    if (folderConfig) {
+                        this.itemFolders.set(filtered, folderConfig);
+                    }
+                    visible.push(filtered);
+                    continue;
+                }
+            }
 
-        this.disposables.push(this.fileWatcher);
+            visible.push(item);
+        }
+
+        return visible;
     }
 
     /**
      * エラー通知を表示
+     * 「Open Settings」ではエラーのあるファイル（includeされたファイルを含む）の最初のエラー位置を開く
      */
-    private showErrorNotification(error: Error): void {
-        let message = 'TaskPilot: Configuration error';
+    private showErrorNotification(error: Error, configPath: string): void {
+        const message = `TaskPilot: ${error.message}`;
 
+        let filePath = configPath;
+        let position: vscode.Position | undefined;
         if (error instanceof YamlParseError) {
-            message = `TaskPilot: ${error.message}`;
-        } else {
-            message = `TaskPilot: ${error.message}`;
+            if (error.file) {
+                filePath = path.resolve(path.dirname(configPath), error.file);
+            }
+            const located = error.line ? error : error.errors.find(e => e.line);
+            if (located?.line) {
+                position = new vscode.Position(located.line - 1, (located.column ?? 1) - 1);
+            }
         }
 
         vscode.window.showErrorMessage(message, 'Open Settings').then(selection => {
             if (selection === 'Open Settings') {
-                const configPath = this.getConfigPath();
-                if (configPath) {
-                    vscode.workspace.openTextDocument(configPath).then(doc => {
-                        vscode.window.showTextDocument(doc);
-                    });
-                }
+                vscode.workspace.openTextDocument(filePath).then(doc => {
+                    vscode.window.showTextDocument(doc, position ? { selection: new vscode.Range(position, position) } : undefined);
+                });
             }
         });
     }
 
     /**
-     * 現在の設定を取得（グローバルメニューをマージ済み）
+     * 現在の設定を取得（グローバルメニューをマージ済み、when条件で非表示の項目は除外）
      */
     getConfig(): MenuConfig | null {
-        const globalMenu = this.getGlobalMenu();
+        const globalMenu = this.filterVisibleItems(this.getGlobalMenu());
 
         // ワークスペース設定がない場合
         if (!this.config) {
@@ -223,15 +541,81 @@ export class ConfigManager implements vscode.Disposable {
         // ワークスペース設定とグローバルメニューをマージ
         return {
             ...this.config,
-            menu: this.mergeMenus(this.config.menu, globalMenu)
+            menu: this.mergeMenus(this.filterVisibleItems(this.config.menu), globalMenu)
         };
     }
 
+    /**
+     * 読み込んだ設定ファイルの絶対パス（includeされたファイルを含む）
+     */
+    getLoadedFiles(): string[] {
+        return this.folderConfigs.flatMap(folderConfig => folderConfig.files);
+    }
+
+    /**
+     * ファイルと同じ設定に含まれるファイル（ルート設定とinclude）の絶対パス
+     * @param filePath 設定ファイルの絶対パス
+     * @returns 読み込めていない設定の場合はファイル自身のみ
+     */
+    getRelatedConfigFiles(filePath: string): string[] {
+        const resolved = path.resolve(filePath);
+        const folderConfig = this.folderConfigs.find(fc => fc.files.some(file => path.resolve(file) === resolved));
+        return folderConfig ? [...folderConfig.files] : [filePath];
+    }
+
+    /**
+     * 設定ファイルの種類を取得
+     * @param filePath ファイルの絶対パス
+     * @returns ルート設定ファイルは'root'、includeされたファイルは'include'、それ以外はundefined
+     */
+    getConfigFileKind(filePath: string): 'root' | 'include' | undefined {
+        const resolved = path.resolve(filePath);
+        if (this.getConfigTargets().some(target => path.resolve(target.configPath) === resolved)) {
+            return 'root';
+        }
+        return this.getLoadedFiles().some(file => path.resolve(file) === resolved) ? 'include' : undefined;
+    }
+
+    /**
+     * ワークスペースフォルダごとの設定を取得
+     */
+    getFolderConfigs(): FolderConfig[] {
+        return [...this.folderConfigs];
+    }
+
     /**
      * ワークスペース設定のみを取得（マージなし）
+     * マルチルートワークスペースでは最初のフォルダの設定（getConfigPathのファイル）を返す
      */
     getWorkspaceConfig(): MenuConfig | null {
-        return this.config;
+        const configPath = this.getConfigPath();
+        const primary = this.folderConfigs.find(folderConfig => folderConfig.configPath === configPath);
+        return primary?.config ?? (this.folderConfigs.length > 0 ? null : this.config);
+    }
+
+    /**
+     * 設定エディタで編集・保存する設定を取得
+     * getConfigPathのルート設定ファイル自身の設定（includeしたファイルの項目は含まない）
+     */
+    getEditableConfig(): MenuConfig | null {
+        const configPath = this.getConfigPath();
+        const primary = this.folderConfigs.find(folderConfig => folderConfig.configPath === configPath);
+        return primary?.rootConfig ?? (this.folderConfigs.length > 0 ? null : this.config);
+    }
+
+    /**
+     * メニューアイテムが所属するワークスペースフォルダの設定を取得
+     */
+    getItemFolder(item: MenuItem): FolderConfig | undefined {
+        return this.itemFolders.get(item);
+    }
+
+    /**
+     * ワークスペースフォルダのパスから設定を取得（見つからない場合は現在の設定）
+     */
+    private getFolderScopedConfig(folderPath?: string): MenuConfig | null {
+        const folderConfig = this.folderConfigs.find(f => f.folderPath === folderPath);
+        return folderConfig?.config ?? this.config;
     }
 
     /**
@@ -244,40 +628,7 @@ export class ConfigManager implements vscode.Disposable {
             return null;
         }
 
-        if (item.ref) {
-            // ref参照を解決
-            const command = this.config?.commands?.[item.ref];
-            if (!command) {
-                vscode.window.showErrorMessage(`TaskPilot: Unknown command reference "${item.ref}"`);
-                return null;
-            }
-            return this.commandToAction(command);
-        }
-
-        if (item.type && item.command) {
-            // インラインアクション（terminal, vscodeCommand, task）
-            return {
-                type: item.type,
-                command: item.command,
-                terminal: item.terminal,
-                args: item.args,
-                cwd: item.cwd,
-                description: item.description
-            };
-        }
-
-        if (item.type && item.path) {
-            // Remote系アクション（openInDevContainer, openRemoteSSH, openRemoteTunnel）
-            return {
-                type: item.type,
-                path: item.path,
-                host: item.host,
-                tunnelName: item.tunnelName,
-                description: item.description
-            };
-        }
-
-        return null;
+        return this.resolveActionDefinition(item, this.itemFolders.get(item));
     }
 
     /**
@@ -290,10 +641,16 @@ export class ConfigManager implements vscode.Disposable {
             terminal: cmd.terminal,
             args: cmd.args,
             cwd: cmd.cwd,
+            env: cmd.env,
+            timeout: cmd.timeout,
             description: cmd.description,
             path: cmd.path,
             host: cmd.host,
-            tunnelName: cmd.tunnelName
+            tunnelName: cmd.tunnelName,
+            taskSource: cmd.taskSource,
+            taskType: cmd.taskType,
+            taskGroup: cmd.taskGroup,
+            confirm: cmd.confirm
         };
     }
 
@@ -303,17 +660,33 @@ export class ConfigManager implements vscode.Disposable {
      * 親のterminal設定で子のterminalを上書きする
      */
     resolveActions(item: MenuItem): ResolvedAction[] | null {
+        const folderConfig = this.itemFolders.get(item);
+
         if (!item.actions || item.actions.length === 0) {
             // 単一アクションの場合
             const action = this.resolveAction(item);
-            return action ? [action] : null;
+            return action ? [...this.resolveDependencies(item.ref, folderConfig, new Set()), action] : null;
         }
 
+        // 各アクションの直前にその前提コマンドを実行順に追加する
+        // 前のアクション・前提として実行済みのコマンドは前提に加えず、前提として実行済みのコマンドを参照するアクションは省く
+        const done = new Set<string>();
+        const explicitRefs = new Set<string>();
+        const sequence: ResolvedAction[] = [];
         const resolved: ResolvedAction[] = [];
         for (const actionDef of item.actions) {
-            const action = this.resolveActionDefinition(actionDef);
-            if (action) {
-                resolved.push(action);
+            if (actionDef.ref && done.has(actionDef.ref) && !explicitRefs.has(actionDef.ref)) {
+                continue;
+            }
+            const action = this.resolveActionDefinition(actionDef, folderConfig, item);
+            if (!action) {
+                continue;
+            }
+            sequence.push(...this.resolveDependencies(actionDef.ref, folderConfig, done), action);
+            resolved.push(action);
+            if (actionDef.ref) {
+                done.add(actionDef.ref);
+                explicitRefs.add(actionDef.ref);
             }
         }
 
@@ -333,16 +706,78 @@ export class ConfigManager implements vscode.Disposable {
             }
         }
 
-        return resolved;
+        return sequence;
+    }
+
+    /**
+     * ref参照先のコマンドのdependsOnを解決し、前提コマンドのアクションを実行順に返す
+     * doneに含まれるコマンドは前提から除外し、返した前提コマンドをdoneに追加する
+     */
+    private resolveDependencies(ref: string | undefined, folderConfig: FolderConfig | undefined, done: Set<string>): ResolvedAction[] {
+        if (!ref) {
+            return [];
+        }
+        const commands = (folderConfig?.config ?? this.config)?.commands ?? {};
+        const dependencies: ResolvedAction[] = [];
+
+        for (const stage of resolveDependencyStages(commands, ref, done)) {
+            // 段階ごとにdoneが増えるため、その大きさを1回の実行の中で一意なグループ番号にする
+            const group = done.size;
+            for (const name of stage) {
+                const action = this.resolveActionDefinition({ ref: name }, folderConfig);
+                if (!action) {
+                    continue;
+                }
+                action.dependency = name;
+                if (stage.length > 1) {
+                    action.dependencyGroup = group;
+                    if (action.type === 'terminal' && !action.terminal) {
+                        // 同時に実行する前提コマンドが同じターミナルを使わないようコマンド名で分ける
+                        action.terminal = name;
+                    }
+                }
+                dependencies.push(action);
+            }
+        }
+
+        return dependencies;
     }
 
     /**
      * ActionDefinitionをResolvedActionに変換
+     * @param folderConfig 所属するワークスペースフォルダ（refの解決・cwdのデフォルトに使用）
      */
-    private resolveActionDefinition(actionDef: ActionDefinition): ResolvedAction | null {
+    private resolveActionDefinition(
+        actionDef: ActionDefinition,
+        folderConfig?: FolderConfig,
+        parent?: MenuItem
+    ): ResolvedAction | null {
+        const action = this.resolveActionDefinitionInFolder(actionDef, folderConfig);
+        if (!action) {
+            return null;
+        }
+        if (folderConfig) {
+            action.workspaceFolder = folderConfig.folderPath;
+        }
+        if (action.type === 'terminal' || action.type === 'process') {
+            // ルート → コマンド定義 → メニュー項目 → アクションの順にenvを継承
+            const config = folderConfig?.config ?? this.config;
+            const command = actionDef.ref ? config?.commands?.[actionDef.ref] : undefined;
+            inheritEnv(action, [config ?? undefined, command, parent, actionDef]);
+            if (action.type === 'terminal') {
+                inheritTerminalOptions(action, [command, parent, actionDef]);
+            }
+        }
+        return action;
+    }
+
+    /**
+     * ActionDefinitionをフォルダの設定で解決
+     */
+    private resolveActionDefinitionInFolder(actionDef: ActionDefinition, folderConfig?: FolderConfig): ResolvedAction | null {
         if (actionDef.ref) {
             // ref参照を解決
-            const command = this.config?.commands?.[actionDef.ref];
+            const command = (folderConfig?.config ?? this.config)?.commands?.[actionDef.ref];
             if (!command) {
                 vscode.window.showErrorMessage(`TaskPilot: Unknown command reference "${actionDef.ref}"`);
                 return null;
@@ -350,15 +785,21 @@ export class ConfigManager implements vscode.Disposable {
             return this.commandToAction(command);
         }
 
-        if (actionDef.type && actionDef.command) {
-            // インラインアクション（terminal, vscodeCommand, task）
+        if (actionDef.type && (actionDef.command || (actionDef.type === 'task' && actionDef.taskGroup))) {
+            // インラインアクション（terminal, vscodeCommand, task, process）
+            // taskはtaskGroupの指定があればタスク名を省略できる
             return {
                 type: actionDef.type,
                 command: actionDef.command,
                 terminal: actionDef.terminal,
                 args: actionDef.args,
                 cwd: actionDef.cwd,
-                description: actionDef.description
+                env: actionDef.env,
+                timeout: actionDef.timeout,
+                description: actionDef.description,
+                taskSource: actionDef.taskSource,
+                taskType: actionDef.taskType,
+                taskGroup: actionDef.taskGroup
             };
         }
 
@@ -398,15 +839,83 @@ export class ConfigManager implements vscode.Disposable {
             return null;
         }
 
+        const folderConfig = this.itemFolders.get(item);
         const resolved: ResolvedAction[] = [];
         for (const actionDef of item.parallel) {
-            const action = this.resolveActionDefinition(actionDef);
+            const action = this.resolveActionDefinition(actionDef, folderConfig, item);
             if (action) {
                 resolved.push(action);
             }
         }
 
-        return resolved.length > 0 ? resolved : null;
+        if (resolved.length === 0) {
+            return null;
+        }
+
+        // 同時に開始するアクションが参照するコマンドは前提から除外する
+        const done = new Set(item.parallel.map(actionDef => actionDef.ref).filter((ref): ref is string => !!ref));
+        const dependencies = item.parallel.flatMap(actionDef => this.resolveDependencies(actionDef.ref, folderConfig, done));
+        return [...dependencies, ...resolved];
+    }
+
+    /**
+     * 解決済みアクションの変数（${workspaceFolder}, ${file}, ${env:NAME}, カスタム変数等）を展開
+     * 所属フォルダがある場合、terminal・processアクションのcwdはフォルダ基準で解決する
+     * @param actions 解決済みアクション
+     * @param inputs ユーザー入力値（${input:id}）
+     * @throws VariableResolveError 未知の変数・解決できない変数がある場合
+     */
+    resolveVariables(actions: ResolvedAction[], inputs: Record<string, string> = {}): ResolvedAction[] {
+        return actions.map(action => {
+            const config = this.getFolderScopedConfig(action.workspaceFolder);
+            const context = createVariableContext(config?.variables, inputs, action.workspaceFolder);
+            const resolved = resolveActionVariables(action, context);
+
+            if (resolved.workspaceFolder && (resolved.type === 'terminal' || resolved.type === 'process')) {
+                resolved.cwd = resolved.cwd
+                    ? path.resolve(resolved.workspaceFolder, resolved.cwd)
+                    : resolved.workspaceFolder;
+            }
+            return resolved;
+        });
+    }
+
+    /**
+     * 実行前の準備：参照されている入力をプロンプトし、変数を展開
+     * @returns 実行可能なアクション（ユーザーが入力をキャンセルした場合はundefined）
+     * @throws VariableResolveError 未定義の入力・未知の変数がある場合
+     */
+    async prepareActions(actions: ResolvedAction[]): Promise<ResolvedAction[] | undefined> {
+        const config = this.getFolderScopedConfig(actions[0]?.workspaceFolder);
+        const inputIds = collectInputIds(actions, config?.variables);
+        const inputs = await promptInputs(config?.inputs, inputIds);
+        if (!inputs) {
+            return undefined;
+        }
+        return Promise.all(this.resolveVariables(actions, inputs).map(action => this.loadEnvFiles(action)));
+    }
+
+    /**
+     * 環境変数ファイルを読み込み、envにマージ
+     * 継承の段階ごとにenvFile → envの順に重ねる（深い段階の値が優先）
+     * @throws EnvFileError ファイルを読み込めない場合
+     */
+    private async loadEnvFiles(action: ResolvedAction): Promise<ResolvedAction> {
+        if (!action.envLayers) {
+            return action;
+        }
+
+        const baseDir = action.workspaceFolder ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        const env: Record<string, string> = {};
+        for (const layer of action.envLayers) {
+            if (layer.envFile) {
+                Object.assign(env, await loadEnvFiles([layer.envFile], baseDir));
+            }
+            Object.assign(env, layer.env);
+        }
+        const loaded: ResolvedAction = { ...action, env };
+        delete loaded.envLayers;
+        return loaded;
     }
 
     /**
@@ -419,3 +928,73 @@ export class ConfigManager implements vscode.Disposable {
         this.disposables = [];
     }
 }
+
+/**
+ * 前提コマンド（dependsOn）の未定義・循環依存を検証
+ * @throws YamlParseError 問題がある場合（通常のバリデーションエラーと同じ形式）
+ */
+function validateDependencies(config: MenuConfig, configPath: string): void {
+    const errors = validateCommandDependencies(config.commands);
+    if (errors.length > 0) {
+        throw new YamlParseError(
+            `Configuration validation failed:\n${errors.map(formatValidationError).join('\n')}`,
+            undefined,
+            undefined,
+            path.basename(configPath),
+            errors
+        );
+    }
+}
+
+/**
+ * exists()の結果キャッシュのキー
+ */
+function conditionKey(baseDir: string, pattern: string): string {
+    return `${baseDir}\n${pattern}`;
+}
+
+/**
+ * env・envFileを継承順（後のものが優先）にマージしてアクションに設定
+ * envFileがある場合は実行前に読み込めるよう、段階ごとのenv・envFileも設定する
+ */
+function inheritEnv(
+    action: ResolvedAction,
+    sources: ({ env?: Record<string, string>; envFile?: string } | undefined)[]
+): void {
+    const env: Record<string, string> = {};
+    const layers: EnvLayer[] = [];
+    for (const source of sources) {
+        Object.assign(env, source?.env);
+        if (source?.envFile) {
+            layers.push({ envFile: source.envFile });
+        }
+        if (source?.env) {
+            layers.push({ env: source.env });
+        }
+    }
+
+    if (Object.keys(env).length > 0) {
+        action.env = env;
+    }
+    if (layers.some(layer => layer.envFile)) {
+        action.envLayers = layers;
+    }
+}
+
+/** ターミナルのシェル・表示・再利用設定のキー */
+const TERMINAL_OPTION_KEYS: (keyof TerminalProfileOptions)[] = [
+    'shell', 'shellArgs', 'terminalProfile', 'iconPath', 'color', 'location', 'terminalPolicy'
+];
+
+/**
+ * ターミナルのシェル・表示・再利用設定を継承順（後のものが優先）にアクションに設定
+ */
+function inheritTerminalOptions(action: ResolvedAction, sources: (TerminalProfileOptions | undefined)[]): void {
+    for (const source of sources) {
+        for (const key of TERMINAL_OPTION_KEYS) {
+            if (source?.[key] !== undefined) {
+                Object.assign(action, { [key]: source[key] });
+            }
+        }
+    }
+}
@@ -0,0 +1,234 @@
+/**
+ * TaskPilot Config References
+ * 設定ファイルのコマンド（`commands`）と参照（`ref`・`dependsOn`）の定義へ移動・参照の検索・名前の変更
+ */
+
+import * as vscode from 'vscode';
+import * as yaml from 'js-yaml';
+import { ConfigManager } from './config-manager';
+import { MenuConfig } from './types';
+import { findCommandReferences } from './command-graph';
+import { SourceRange, createRangeMap } from './yaml-source-map';
+
+/**
+ * 設定ファイル内のコマンドの定義と参照の範囲
+ */
+export interface CommandSymbols {
+    /** コマンド名から定義（`commands`のキー）の範囲 */
+    definitions: Map<string, SourceRange>;
+    /** 参照（`ref`・`dependsOn`の値）の範囲 */
+    references: { name: string; range: SourceRange }[];
+}
+
+/** コマンド名として使用できない文字（YAMLのキーとして引用符なしで書けない文字を含む） */
+const INVALID_COMMAND_NAME = /[\s:#'"{}[\],&*!|>%@`]/;
+
+/**
+ * ConfigReferenceProvider - `ref`のコマンドのナビゲーション
+ * - 定義へ移動: `ref`・`dependsOn`から`commands`の定義へ
+ * - 参照の検索: コマンドを使用している箇所
+ * - 名前の変更: 定義とすべての参照（コメントや書式はそのまま）
+ * includeされたファイルを含め、同じ設定のファイルをまとめて対象とする
+ */
+export class ConfigReferenceProvider implements vscode.DefinitionProvider, vscode.ReferenceProvider, vscode.RenameProvider, vscode.Disposable {
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly configManager: ConfigManager) {
+        const selector: vscode.DocumentSelector = { scheme: 'file', language: 'yaml' };
+        this.disposables.push(
+            vscode.languages.registerDefinitionProvider(selector, this),
+            vscode.languages.registerReferenceProvider(selector, this),
+            vscode.languages.registerRenameProvider(selector, this)
+        );
+    }
+
+    /**
+     * コマンドの定義の位置
+     */
+    async provideDefinition(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Location[] | undefined> {
+        const name = this.getCommandNameAt(document, position)?.name;
+        if (name === undefined) {
+            return undefined;
+        }
+
+        const locations: vscode.Location[] = [];
+        for (const { document: doc, symbols } of await this.getRelatedSymbols(document)) {
+            const definition = symbols.definitions.get(name);
+            if (definition) {
+                locations.push(new vscode.Location(doc.uri, toRange(doc, definition)));
+            }
+        }
+        return locations;
+    }
+
+    /**
+     * コマンドを参照している位置
+     */
+    async provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext
+    ): Promise<vscode.Location[] | undefined> {
+        const name = this.getCommandNameAt(document, position)?.name;
+        if (name === undefined) {
+            return undefined;
+        }
+
+        const locations: vscode.Location[] = [];
+        for (const { document: doc, symbols } of await this.getRelatedSymbols(document)) {
+            const definition = symbols.definitions.get(name);
+            if (context.includeDeclaration && definition) {
+                locations.push(new vscode.Location(doc.uri, toRange(doc, definition)));
+            }
+            for (const reference of symbols.references.filter(r => r.name === name)) {
+                locations.push(new vscode.Location(doc.uri, toRange(doc, reference.range)));
+            }
+        }
+        return locations;
+    }
+
+    /**
+     * 名前を変更できる範囲（コマンド名の上でない場合はエラー）
+     */
+    prepareRename(document: vscode.TextDocument, position: vscode.Position): vscode.Range {
+        const found = this.getCommandNameAt(document, position);
+        if (!found) {
+            throw new Error(vscode.l10n.t('Place the cursor on a command name or a ref to rename'));
+        }
+        return toRange(document, found.range);
+    }
+
+    /**
+     * 定義とすべての参照の名前を変更する編集
+     * @throws Error 新しい名前が不正、または既に存在する場合
+     */
+    async provideRenameEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        newName: string
+    ): Promise<vscode.WorkspaceEdit | undefined> {
+        const name = this.getCommandNameAt(document, position)?.name;
+        if (name === undefined || newName === name) {
+            return undefined;
+        }
+        if (!newName || INVALID_COMMAND_NAME.test(newName)) {
+            throw new Error(vscode.l10n.t('Invalid command name: {0}', newName));
+        }
+
+        const related = await this.getRelatedSymbols(document);
+        if (related.some(({ symbols }) => symbols.definitions.has(newName))) {
+            throw new Error(vscode.l10n.t('Command "{0}" already exists', newName));
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        for (const { document: doc, symbols } of related) {
+            const definition = symbols.definitions.get(name);
+            const ranges = [
+                ...(definition ? [definition] : []),
+                ...symbols.references.filter(r => r.name === name).map(r => r.range)
+            ];
+            for (const range of ranges) {
+                edit.replace(doc.uri, toRange(doc, range), newName);
+            }
+        }
+        return edit;
+    }
+
+    /**
+     * カーソル位置のコマンド名（定義のキーまたは参照の値）
+     */
+    private getCommandNameAt(document: vscode.TextDocument, position: vscode.Position): { name: string; range: SourceRange } | undefined {
+        if (!this.configManager.getConfigFileKind(document.uri.fsPath)) {
+            return undefined;
+        }
+
+        const symbols = findCommandSymbols(document.getText());
+        const offset = document.offsetAt(position);
+        const contains = (range: SourceRange) => range.start <= offset && offset <= range.end;
+
+        for (const [name, range] of symbols.definitions) {
+            if (contains(range)) {
+                return { name, range };
+            }
+        }
+        return symbols.references.find(reference => contains(reference.range));
+    }
+
+    /**
+     * 同じ設定のファイル（編集中のドキュメントを含む）のコマンドの定義と参照
+     */
+    private async getRelatedSymbols(document: vscode.TextDocument): Promise<{ document: vscode.TextDocument; symbols: CommandSymbols }[]> {
+        const related: { document: vscode.TextDocument; symbols: CommandSymbols }[] = [];
+        for (const file of this.configManager.getRelatedConfigFiles(document.uri.fsPath)) {
+            let doc: vscode.TextDocument;
+            try {
+                doc = file === document.uri.fsPath
+                    ? document
+                    : await vscode.workspace.openTextDocument(vscode.Uri.file(file));
+            } catch {
+                // 削除されたincludeファイルなどは対象外
+                continue;
+            }
+            related.push({ document: doc, symbols: findCommandSymbols(doc.getText()) });
+        }
+        if (!related.some(r => r.document === document)) {
+            related.unshift({ document, symbols: findCommandSymbols(document.getText()) });
+        }
+        return related;
+    }
+
+    /**
+     * リソースを解放
+     */
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+/**
+ * YAMLコンテンツからコマンドの定義と参照の範囲を取得
+ * @param content YAMLコンテンツ文字列
+ * @returns 定義と参照（YAMLとして不正な場合は空）
+ */
+export function findCommandSymbols(content: string): CommandSymbols {
+    const symbols: CommandSymbols = { definitions: new Map(), references: [] };
+
+    let data: unknown;
+    try {
+        data = yaml.load(content);
+    } catch {
+        return symbols;
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return symbols;
+    }
+
+    const config = data as Partial<MenuConfig>;
+    const ranges = createRangeMap(content);
+
+    if (config.commands && typeof config.commands === 'object') {
+        for (const name of Object.keys(config.commands)) {
+            const key = ranges.get(`commands.${name}`)?.key;
+            if (key) {
+                symbols.definitions.set(name, key);
+            }
+        }
+    }
+
+    for (const reference of findCommandReferences(config)) {
+        const value = ranges.get(reference.path)?.value;
+        if (value) {
+            symbols.references.push({ name: reference.name, range: value });
+        }
+    }
+    symbols.references.sort((a, b) => a.range.start - b.range.start);
+
+    return symbols;
+}
+
+/**
+ * オフセットの範囲をドキュメントの範囲に変換
+ */
+function toRange(document: vscode.TextDocument, range: SourceRange): vscode.Range {
+    return new vscode.Range(document.positionAt(range.start), document.positionAt(range.end));
+}
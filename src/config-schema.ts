@@ -0,0 +1,32 @@
+/**
+ * TaskPilot Config Schema
+ * types.ts から生成したJSONスキーマ（schemas/taskpilot.schema.json）
+ * 検証・YAMLの生成で同じスキーマを使用する
+ */
+
+import schemaJson from '../schemas/taskpilot.schema.json';
+
+/**
+ * JSONスキーマ（TaskPilotで使用する部分）
+ */
+export interface JsonSchema {
+    $ref?: string;
+    type?: string | string[];
+    enum?: unknown[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    anyOf?: JsonSchema[];
+    definitions?: Record<string, JsonSchema>;
+}
+
+/** 設定ファイルのJSONスキーマ */
+export const configSchema: JsonSchema = schemaJson;
+
+/**
+ * $ref（"#/definitions/MenuItem"）の参照先の定義を取得
+ */
+export function getDefinition(ref: string): JsonSchema | undefined {
+    return configSchema.definitions?.[decodeURIComponent(ref.replace('#/definitions/', ''))];
+}
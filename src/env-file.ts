@@ -0,0 +1,98 @@
+/**
+ * TaskPilot Env File
+ * .envファイル（KEY=VALUE形式）の読み込み
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * 環境変数ファイルの読み込みエラー
+ */
+export class EnvFileError extends Error {
+    constructor(
+        message: string,
+        public readonly file: string
+    ) {
+        super(message);
+        this.name = 'EnvFileError';
+    }
+}
+
+/** 行のパターン（`export KEY=VALUE`形式にも対応） */
+const LINE_PATTERN = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)?$/;
+
+/**
+ * .envファイルの内容をパース
+ * - `#`で始まる行と空行は無視
+ * - ダブルクォートの値は`\n`等のエスケープを展開、シングルクォートの値はそのまま
+ * - クォートなしの値は` #`以降をコメントとして除去
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+    const env: Record<string, string> = {};
+
+    for (const line of content.split(/\r?\n/)) {
+        if (!line.trim() || line.trim().startsWith('#')) {
+            continue;
+        }
+
+        const match = LINE_PATTERN.exec(line);
+        if (!match) {
+            continue;
+        }
+
+        const [, key, rawValue = ''] = match;
+        env[key] = parseValue(rawValue.trim());
+    }
+
+    return env;
+}
+
+/**
+ * 値のクォート・コメントを処理
+ */
+function parseValue(value: string): string {
+    const quote = value[0];
+    if ((quote === '"' || quote === '\'') && value.indexOf(quote, 1) > 0) {
+        const inner = value.slice(1, value.indexOf(quote, 1));
+        if (quote === '\'') {
+            return inner;
+        }
+        return inner.replace(/\\([nrt"\\])/g, (_, ch: string) => {
+            switch (ch) {
+                case 'n': return '\n';
+                case 'r': return '\r';
+                case 't': return '\t';
+                default: return ch;
+            }
+        });
+    }
+
+    const commentIndex = value.search(/\s#/);
+    return (commentIndex >= 0 ? value.slice(0, commentIndex) : value).trim();
+}
+
+/**
+ * 環境変数ファイルを順に読み込んでマージ（後のファイルが優先）
+ * @param files ファイルパス（相対パスはbaseDir基準）
+ * @param baseDir 基準ディレクトリ
+ * @throws EnvFileError 読み込みに失敗した場合
+ */
+export async function loadEnvFiles(files: string[], baseDir?: string): Promise<Record<string, string>> {
+    const env: Record<string, string> = {};
+
+    for (const file of files) {
+        const filePath = baseDir ? path.resolve(baseDir, file) : file;
+        let content: string;
+        try {
+            const data = await vscode.workspace.fs.readFile(vscode.Uri.file(filePath));
+            content = Buffer.from(data).toString('utf-8');
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new EnvFileError(`Failed to load env file "${file}": ${message}`, filePath);
+        }
+        Object.assign(env, parseEnvFile(content));
+    }
+
+    return env;
+}
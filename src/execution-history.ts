@@ -0,0 +1,133 @@
+/**
+ * TaskPilot Execution History
+ * 実行したメニューアイテムの履歴を保存する
+ */
+
+import * as vscode from 'vscode';
+import { ResolvedAction } from './types';
+
+/** 履歴の保存キー */
+const HISTORY_KEY = 'taskPilot.history';
+
+/** 保存する履歴の最大件数 */
+const MAX_ENTRIES = 50;
+
+/**
+ * 実行結果
+ * - `success`: 正常終了（ターミナルの場合はコマンドの送信まで）
+ * - `failed`: エラー・0以外の終了コード
+ * - `cancelled`: ユーザーがキャンセル
+ */
+export type ExecutionResult = 'success' | 'failed' | 'cancelled';
+
+/**
+ * 履歴エントリ
+ */
+export interface HistoryEntry {
+    /** ルートからのメニューラベル */
+    labelPath: string[];
+    /** 実行したアクション（変数・入力値・envFileは展開前。再実行時に改めて展開する） */
+    actions: ResolvedAction[];
+    /** 並列実行したかどうか */
+    parallel?: boolean;
+    /** エラー時に続行するかどうか */
+    continueOnError?: boolean;
+    /** メニュー項目の実行前の確認（再実行時にも確認する） */
+    confirm?: boolean | string;
+    /** 実行日時（エポックミリ秒） */
+    timestamp: number;
+    /** 実行結果 */
+    result: ExecutionResult;
+}
+
+/**
+ * ExecutionHistory - 実行履歴の管理クラス
+ * ワークスペースごとに新しい順で保存する
+ */
+export class ExecutionHistory implements vscode.Disposable {
+    /** 履歴変更イベント */
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor(private readonly storage: vscode.Memento) {}
+
+    /**
+     * 履歴を取得（新しい順）
+     */
+    getEntries(): HistoryEntry[] {
+        return this.storage.get<HistoryEntry[]>(HISTORY_KEY, []);
+    }
+
+    /**
+     * 最後に実行したエントリを取得
+     */
+    getLast(): HistoryEntry | undefined {
+        return this.getEntries()[0];
+    }
+
+    /**
+     * 最近実行したエントリを取得（同じメニューアイテムは最新のみ）
+     * @param limit 最大件数
+     */
+    getRecent(limit: number): HistoryEntry[] {
+        const seen = new Set<string>();
+        const recent: HistoryEntry[] = [];
+        for (const entry of this.getEntries()) {
+            const key = entry.labelPath.join('\n');
+            if (seen.has(key)) {
+                continue;
+            }
+            seen.add(key);
+            recent.push(entry);
+            if (recent.length >= limit) {
+                break;
+            }
+        }
+        return recent;
+    }
+
+    /**
+     * エントリを追加
+     */
+    async add(entry: HistoryEntry): Promise<void> {
+        const entries = [entry, ...this.getEntries()].slice(0, MAX_ENTRIES);
+        await this.storage.update(HISTORY_KEY, entries);
+        this._onDidChange.fire();
+    }
+
+    /**
+     * 履歴を消去
+     */
+    async clear(): Promise<void> {
+        await this.storage.update(HISTORY_KEY, undefined);
+        this._onDidChange.fire();
+    }
+
+    /**
+     * リソースを解放
+     */
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+}
+
+/**
+ * 履歴エントリの表示名を取得
+ */
+export function formatHistoryLabel(entry: HistoryEntry): string {
+    return entry.labelPath.join(' > ');
+}
+
+/**
+ * 実行結果に対応するアイコンを取得
+ */
+export function getResultIcon(result: ExecutionResult): string {
+    switch (result) {
+        case 'success':
+            return '$(pass)';
+        case 'failed':
+            return '$(error)';
+        case 'cancelled':
+            return '$(circle-slash)';
+    }
+}
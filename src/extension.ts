@@ -9,6 +9,16 @@ import { ActionExecutor } from './action-executor';
 import { QuickPickMenu } from './quick-pick-menu';
 import { SidebarViewProvider } from './sidebar-view-provider';
 import { ConfigEditorPanel } from './config-editor-panel';
+import { ExecutionHistory } from './execution-history';
+import { MenuRunner } from './menu-runner';
+import { PinnedItems } from './pinned-items';
+import { ItemCommands } from './item-commands';
+import { StatusBarItems } from './status-bar-items';
+import { ItemPreview } from './item-preview';
+import { ConfigDiagnostics } from './config-diagnostics';
+import { ConfigCompletionProvider } from './config-completion';
+import { ConfigReferenceProvider } from './config-references';
+import { TaskImporter } from './task-importer';
 import { generateSampleConfig, setExtensionPath } from './sample-generator';
 
 /** ConfigManager インスタンス */
@@ -17,6 +27,12 @@ let configManager: ConfigManager | undefined;
 /** ActionExecutor インスタンス */
 let actionExecutor: ActionExecutor | undefined;
 
+/** MenuRunner インスタンス */
+let menuRunner: MenuRunner | undefined;
+
+/** PinnedItems インスタンス */
+let pinnedItems: PinnedItems | undefined;
+
 /** SidebarViewProvider インスタンス */
 let sidebarProvider: SidebarViewProvider | undefined;
 
@@ -37,6 +53,35 @@ export function activate(context: vscode.ExtensionContext): void {
     actionExecutor = new ActionExecutor();
     context.subscriptions.push(actionExecutor);
 
+    // Initialize execution history (per workspace) and MenuRunner
+    const executionHistory = new ExecutionHistory(context.workspaceState);
+    context.subscriptions.push(executionHistory);
+    menuRunner = new MenuRunner(configManager, actionExecutor, executionHistory);
+    context.subscriptions.push(menuRunner);
+
+    // Initialize pinned items (per workspace)
+    pinnedItems = new PinnedItems(context.workspaceState);
+    context.subscriptions.push(pinnedItems);
+
+    // Register taskPilot.run and per-item taskPilot.run.<id> commands
+    context.subscriptions.push(new ItemCommands(configManager, menuRunner));
+
+    // Show status bar buttons for items with statusBar
+    context.subscriptions.push(new StatusBarItems(configManager, menuRunner));
+
+    // Register taskPilot.previewItem (shows resolved actions without running them)
+    context.subscriptions.push(new ItemPreview(configManager));
+
+    // Validate config files while editing and complete ref / task / icon / command values
+    context.subscriptions.push(new ConfigDiagnostics(configManager));
+    context.subscriptions.push(new ConfigCompletionProvider(configManager));
+
+    // Go to definition / find references / rename for commands used by ref and dependsOn
+    context.subscriptions.push(new ConfigReferenceProvider(configManager));
+
+    // Register taskPilot.importTasks (adds tasks.json / launch.json entries to the config)
+    context.subscriptions.push(new TaskImporter(configManager));
+
     // Listen for config changes
     configManager.onConfigChanged(event => {
         if (event.error) {
@@ -55,8 +100,9 @@ export function activate(context: vscode.ExtensionContext): void {
     sidebarProvider = new SidebarViewProvider(
         context.extensionUri,
         configManager,
-        actionExecutor,
-        context
+        menuRunner,
+        context,
+        pinnedItems
     );
     context.subscriptions.push(
         vscode.window.registerWebviewViewProvider(
@@ -67,7 +113,7 @@ export function activate(context: vscode.ExtensionContext): void {
 
     // Register showMenu command
     const showMenuCommand = vscode.commands.registerCommand('taskPilot.showMenu', async () => {
-        if (!configManager || !actionExecutor) {
+        if (!configManager || !menuRunner || !pinnedItems) {
             vscode.window.showErrorMessage(`TaskPilot: ${vscode.l10n.t('Extension not initialized')}`);
             return;
         }
@@ -87,11 +133,53 @@ export function activate(context: vscode.ExtensionContext): void {
         }
 
         // Show the menu
-        await QuickPickMenu.show(configManager, actionExecutor);
+        await QuickPickMenu.show(configManager, menuRunner, pinnedItems);
     });
 
     context.subscriptions.push(showMenuCommand);
 
+    // Register searchMenu command
+    const searchMenuCommand = vscode.commands.registerCommand('taskPilot.searchMenu', async () => {
+        if (!configManager || !menuRunner || !pinnedItems) {
+            vscode.window.showErrorMessage(`TaskPilot: ${vscode.l10n.t('Extension not initialized')}`);
+            return;
+        }
+
+        await QuickPickMenu.search(configManager, menuRunner, pinnedItems);
+    });
+
+    context.subscriptions.push(searchMenuCommand);
+
+    // Register rerunLast command
+    const rerunLastCommand = vscode.commands.registerCommand('taskPilot.rerunLast', async () => {
+        if (!menuRunner) {
+            vscode.window.showErrorMessage(`TaskPilot: ${vscode.l10n.t('Extension not initialized')}`);
+            return;
+        }
+
+        const last = menuRunner.history.getLast();
+        if (!last) {
+            vscode.window.showInformationMessage(`TaskPilot: ${vscode.l10n.t('No execution history')}`);
+            return;
+        }
+
+        await menuRunner.rerun(last);
+    });
+
+    context.subscriptions.push(rerunLastCommand);
+
+    // Register showHistory command
+    const showHistoryCommand = vscode.commands.registerCommand('taskPilot.showHistory', async () => {
+        if (!menuRunner) {
+            vscode.window.showErrorMessage(`TaskPilot: ${vscode.l10n.t('Extension not initialized')}`);
+            return;
+        }
+
+        await QuickPickMenu.showHistory(menuRunner);
+    });
+
+    context.subscriptions.push(showHistoryCommand);
+
     // Register reload command
     const reloadCommand = vscode.commands.registerCommand('taskPilot.reloadConfig', async () => {
         if (configManager) {
@@ -231,5 +319,7 @@ menu:
 export function deactivate(): void {
     configManager = undefined;
     actionExecutor = undefined;
+    menuRunner = undefined;
+    pinnedItems = undefined;
     sidebarProvider = undefined;
 }
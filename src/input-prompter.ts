@@ -0,0 +1,115 @@
+/**
+ * TaskPilot Input Prompter
+ * inputs定義（promptString / pickString）に基づいてユーザー入力を取得する
+ */
+
+import * as vscode from 'vscode';
+import { InputDefinition, InputOption } from './types';
+import { VariableResolveError } from './variable-resolver';
+
+/**
+ * pickString用のQuickPick項目
+ */
+interface InputPickItem extends vscode.QuickPickItem {
+    /** 入力値 */
+    value: string;
+}
+
+/**
+ * 選択肢を{label, value}形式に正規化
+ */
+export function normalizeOptions(options: (string | InputOption)[] = []): InputOption[] {
+    return options.map(option =>
+        typeof option === 'string' ? { label: option, value: option } : option
+    );
+}
+
+/**
+ * promptStringの入力値を検証
+ * @returns エラーメッセージ（有効な場合はundefined）
+ */
+export function validateInputValue(definition: InputDefinition, value: string): string | undefined {
+    if (!definition.validation) {
+        return undefined;
+    }
+
+    if (new RegExp(definition.validation).test(value)) {
+        return undefined;
+    }
+
+    return definition.validationMessage ||
+        vscode.l10n.t('Value must match the pattern {0}', definition.validation);
+}
+
+/**
+ * 指定された入力IDについてユーザーに入力を求める
+ * @param definitions MenuConfig.inputs
+ * @param ids 入力が必要なID（collectInputIdsの結果）
+ * @returns 入力値のマップ（キャンセル時はundefined）
+ * @throws VariableResolveError 未定義の入力IDが参照されている場合
+ */
+export async function promptInputs(
+    definitions: InputDefinition[] | undefined,
+    ids: string[]
+): Promise<Record<string, string> | undefined> {
+    const values: Record<string, string> = {};
+
+    for (const id of ids) {
+        const definition = definitions?.find(d => d.id === id);
+        if (!definition) {
+            throw new VariableResolveError(`Input "${id}" is not defined in "inputs"`, `input:${id}`);
+        }
+
+        const value = definition.type === 'pickString'
+            ? await promptPickString(definition)
+            : await promptString(definition);
+
+        if (value === undefined) {
+            // ユーザーがキャンセル
+            return undefined;
+        }
+
+        values[id] = value;
+    }
+
+    return values;
+}
+
+/**
+ * テキスト入力ボックスを表示
+ */
+async function promptString(definition: InputDefinition): Promise<string | undefined> {
+    return vscode.window.showInputBox({
+        title: `TaskPilot: ${definition.id}`,
+        prompt: definition.description,
+        value: definition.default,
+        password: definition.password ?? false,
+        ignoreFocusOut: true,
+        validateInput: value => validateInputValue(definition, value)
+    });
+}
+
+/**
+ * 選択肢リストを表示
+ */
+async function promptPickString(definition: InputDefinition): Promise<string | undefined> {
+    const items: InputPickItem[] = normalizeOptions(definition.options).map(option => ({
+        label: option.label,
+        description: option.label !== option.value ? option.value : undefined,
+        value: option.value
+    }));
+
+    // デフォルト値を先頭に移動
+    const defaultIndex = items.findIndex(item => item.value === definition.default);
+    if (defaultIndex > 0) {
+        items.unshift(...items.splice(defaultIndex, 1));
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+        title: `TaskPilot: ${definition.id}`,
+        placeHolder: definition.description,
+        ignoreFocusOut: true
+    });
+
+    return selected?.value;
+}
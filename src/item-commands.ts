@@ -0,0 +1,99 @@
+/**
+ * TaskPilot Item Commands
+ * メニューアイテムを直接実行するコマンド（taskPilot.run、taskPilot.run.<id>）
+ */
+
+import * as vscode from 'vscode';
+import { ConfigManager } from './config-manager';
+import { MenuRunner } from './menu-runner';
+import { RunTarget, findRunTarget, flattenMenu, formatRunTarget } from './menu-tree';
+
+/** 汎用の実行コマンドID */
+export const RUN_COMMAND = 'taskPilot.run';
+
+/**
+ * ItemCommands - アイテム実行コマンドの管理クラス
+ * 設定の変更に合わせて、IDを持つアイテムごとのコマンドを登録し直す
+ */
+export class ItemCommands implements vscode.Disposable {
+    /** アイテムごとのコマンド登録 */
+    private itemCommands: vscode.Disposable[] = [];
+    /** 登録中のアイテムID */
+    private itemIds: string[] = [];
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly configManager: ConfigManager,
+        private readonly menuRunner: MenuRunner
+    ) {
+        this.disposables.push(
+            vscode.commands.registerCommand(RUN_COMMAND, (target?: RunTarget) => this.run(target)),
+            configManager.onConfigChanged(() => this.updateItemCommands())
+        );
+        this.updateItemCommands();
+    }
+
+    /**
+     * アイテムIDまたはラベルのパスで指定したアイテムを実行
+     */
+    async run(target?: RunTarget): Promise<void> {
+        if (target === undefined || target === null || target === '') {
+            vscode.window.showErrorMessage(`TaskPilot: ${vscode.l10n.t('Specify an item id or label path to run')}`);
+            return;
+        }
+
+        const config = this.configManager.getConfig();
+        const found = config ? findRunTarget(config.menu, target) : undefined;
+        if (!found) {
+            vscode.window.showErrorMessage(`TaskPilot: ${vscode.l10n.t('Menu item not found: {0}', formatRunTarget(target))}`);
+            return;
+        }
+
+        await this.menuRunner.run(found.item, found.labelPath);
+    }
+
+    /**
+     * 登録中のアイテムごとのコマンドIDを取得
+     */
+    getItemCommandIds(): string[] {
+        return this.itemIds.map(id => `${RUN_COMMAND}.${id}`);
+    }
+
+    /**
+     * アイテムごとのコマンドを登録し直す
+     */
+    private updateItemCommands(): void {
+        const config = this.configManager.getConfig();
+        const ids = [...new Set(
+            (config ? flattenMenu(config.menu) : [])
+                .map(flat => flat.item.id)
+                .filter((id): id is string => !!id)
+        )];
+        if (ids.join('\n') === this.itemIds.join('\n')) {
+            return;
+        }
+
+        this.disposeItemCommands();
+        this.itemIds = ids;
+        this.itemCommands = ids.map(id =>
+            vscode.commands.registerCommand(`${RUN_COMMAND}.${id}`, () => this.run({ id }))
+        );
+    }
+
+    /**
+     * アイテムごとのコマンドを解除
+     */
+    private disposeItemCommands(): void {
+        this.itemCommands.forEach(d => d.dispose());
+        this.itemCommands = [];
+        this.itemIds = [];
+    }
+
+    /**
+     * リソースを解放
+     */
+    dispose(): void {
+        this.disposeItemCommands();
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -0,0 +1,160 @@
+/**
+ * TaskPilot Item Preview
+ * メニューアイテムが実行するアクションを、実行せずに読み取り専用のドキュメントで表示する
+ */
+
+import * as vscode from 'vscode';
+import * as yaml from 'js-yaml';
+import { MenuItem, ResolvedAction } from './types';
+import { ConfigManager } from './config-manager';
+import { FlatMenuItem, RunTarget, findItemByLabelPath, findRunTarget, flattenMenu, formatRunTarget } from './menu-tree';
+
+/** プレビューコマンドID */
+export const PREVIEW_COMMAND = 'taskPilot.previewItem';
+
+/** プレビュードキュメントのURIスキーム */
+export const PREVIEW_SCHEME = 'taskpilot-preview';
+
+/**
+ * ItemPreview - アクションのプレビュー（ドライラン）
+ * 設定の変更時は開いているプレビューを更新する
+ */
+export class ItemPreview implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    /** 表示したプレビューのURI */
+    private readonly uris = new Map<string, vscode.Uri>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly configManager: ConfigManager) {
+        this.disposables.push(
+            vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, this),
+            vscode.commands.registerCommand(PREVIEW_COMMAND, (target?: RunTarget) => this.preview(target)),
+            configManager.onConfigChanged(() => this.uris.forEach(uri => this._onDidChange.fire(uri)))
+        );
+    }
+
+    /**
+     * アイテムのプレビューを表示（対象の指定がない場合は選択する）
+     */
+    async preview(target?: RunTarget): Promise<void> {
+        const config = this.configManager.getConfig();
+        if (!config) {
+            vscode.window.showErrorMessage(`TaskPilot: ${vscode.l10n.t('No configuration loaded')}`);
+            return;
+        }
+
+        const found = target === undefined || target === null || target === ''
+            ? await pickItem(config.menu)
+            : findRunTarget(config.menu, target);
+        if (!found) {
+            if (target) {
+                vscode.window.showErrorMessage(`TaskPilot: ${vscode.l10n.t('Menu item not found: {0}', formatRunTarget(target))}`);
+            }
+            return;
+        }
+
+        const uri = createPreviewUri(found.labelPath);
+        this.uris.set(uri.toString(), uri);
+        const document = await vscode.workspace.openTextDocument(uri);
+        await vscode.window.showTextDocument(document, { preview: true });
+    }
+
+    /**
+     * プレビューの内容を作成
+     */
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        const labelPath = parsePreviewUri(uri);
+        const config = this.configManager.getConfig();
+        const item = config ? findItemByLabelPath(config.menu, labelPath) : undefined;
+        if (!item) {
+            return `# ${vscode.l10n.t('Menu item not found: {0}', labelPath.join(' > '))}\n`;
+        }
+
+        const parallel = this.configManager.hasParallelActions(item);
+        const actions = (parallel ? this.configManager.resolveParallelActions(item) : this.configManager.resolveActions(item)) ?? [];
+        return formatItemPreview(item, labelPath, actions, parallel);
+    }
+
+    /**
+     * リソースを解放
+     */
+    dispose(): void {
+        this._onDidChange.dispose();
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+/**
+ * 解決済みのアクションをYAML形式のプレビューに変換
+ * @param item メニューアイテム
+ * @param labelPath ルートからのラベル
+ * @param actions 解決済み（ref解決・ターミナル名統一後、変数展開前）のアクション
+ * @param parallel 並列実行するかどうか
+ */
+export function formatItemPreview(item: MenuItem, labelPath: string[], actions: ResolvedAction[], parallel: boolean): string {
+    const header = [
+        `# ${vscode.l10n.t('Preview: {0}', labelPath.join(' > '))}`,
+        `# ${vscode.l10n.t('Nothing is executed. Variables and inputs are expanded when the item runs.')}`
+    ];
+
+    if (actions.length === 0) {
+        return [...header, `# ${vscode.l10n.t('No executable action available')}`, ''].join('\n');
+    }
+
+    const preview: Record<string, unknown> = {
+        mode: parallel ? 'parallel' : 'sequence'
+    };
+    if (item.continueOnError) {
+        preview.continueOnError = true;
+    }
+    if (item.confirm) {
+        preview.confirm = item.confirm;
+    }
+    preview.actions = actions.map(omitUndefined);
+
+    return `${header.join('\n')}\n${yaml.dump(preview, { lineWidth: -1, noRefs: true })}`;
+}
+
+/**
+ * 値がundefinedのプロパティを除去
+ */
+function omitUndefined(action: ResolvedAction): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(action).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * プレビューするアイテムをQuickPickで選択
+ */
+async function pickItem(menu: MenuItem[]): Promise<FlatMenuItem | undefined> {
+    const picked = await vscode.window.showQuickPick(
+        flattenMenu(menu).map(flat => ({ label: flat.labelPath.join(' > '), flat })),
+        { placeHolder: vscode.l10n.t('Select a menu item to preview') }
+    );
+    return picked?.flat;
+}
+
+/**
+ * プレビューのURIを作成（タブにはアイテムのラベルを表示）
+ */
+export function createPreviewUri(labelPath: string[]): vscode.Uri {
+    const label = labelPath[labelPath.length - 1] ?? 'preview';
+    return vscode.Uri.from({
+        scheme: PREVIEW_SCHEME,
+        path: `/${label.replace(/[\\/]/g, '-')}.yaml`,
+        query: JSON.stringify(labelPath)
+    });
+}
+
+/**
+ * プレビューのURIからラベルのパスを取得
+ */
+function parsePreviewUri(uri: vscode.Uri): string[] {
+    try {
+        const labelPath: unknown = JSON.parse(uri.query);
+        return Array.isArray(labelPath) ? labelPath.map(String) : [];
+    } catch {
+        return [];
+    }
+}
@@ -0,0 +1,237 @@
+/**
+ * TaskPilot Menu Runner
+ * メニューアイテムの実行（QuickPick・サイドバー共通）
+ */
+
+import * as vscode from 'vscode';
+import { MenuItem, ResolvedAction } from './types';
+import { ConfigManager } from './config-manager';
+import { ActionExecutor } from './action-executor';
+import { ExecutionHistory, ExecutionResult, HistoryEntry, formatHistoryLabel } from './execution-history';
+
+/**
+ * 実行オプション
+ */
+interface RunOptions {
+    /** 進捗表示のタイトル */
+    title: string;
+    /** 並列実行するかどうか */
+    parallel?: boolean;
+    /** エラー時に続行するかどうか */
+    continueOnError?: boolean;
+}
+
+/**
+ * MenuRunner - メニューアイテム実行クラス
+ * 入力プロンプト・変数展開・実行・結果通知を行い、実行履歴に記録する
+ */
+export class MenuRunner implements vscode.Disposable {
+    /** 実行中のアイテム（キー: ラベルのパス） */
+    private readonly running = new Set<string>();
+
+    /** 実行状態の変更イベント */
+    private readonly _onDidChangeRunning = new vscode.EventEmitter<void>();
+    public readonly onDidChangeRunning = this._onDidChangeRunning.event;
+
+    constructor(
+        private readonly configManager: ConfigManager,
+        private readonly actionExecutor: ActionExecutor,
+        public readonly history: ExecutionHistory
+    ) {}
+
+    /**
+     * メニューアイテムを実行
+     * @param item 実行するアイテム
+     * @param labelPath ルートからのラベル（履歴の表示に使用）
+     */
+    async run(item: MenuItem, labelPath: string[]): Promise<void> {
+        // 並列アクションがあれば優先
+        let unresolvedActions = this.configManager.hasParallelActions(item)
+            ? this.configManager.resolveParallelActions(item)
+            : null;
+        const parallel = !!unresolvedActions && unresolvedActions.length > 0;
+        if (!parallel) {
+            unresolvedActions = this.configManager.resolveActions(item);
+        }
+        if (!unresolvedActions || unresolvedActions.length === 0) {
+            vscode.window.showErrorMessage(`TaskPilot: ${vscode.l10n.t('No executable action available')}`);
+            return;
+        }
+
+        const actions = await this.prepare(unresolvedActions);
+        if (!actions || !await this.confirmRun(item.label, item.confirm, actions)) {
+            return;
+        }
+
+        const continueOnError = item.continueOnError ?? false;
+        const result = await this.track(labelPath, () =>
+            this.runActions(actions, { title: item.label, parallel, continueOnError })
+        );
+        // 入力値・envFileの内容はワークスペースの状態として保存しないよう、展開前のアクションを記録する
+        await this.history.add({
+            labelPath,
+            actions: unresolvedActions,
+            parallel: parallel || undefined,
+            continueOnError: continueOnError || undefined,
+            confirm: item.confirm || undefined,
+            timestamp: Date.now(),
+            result
+        });
+    }
+
+    /**
+     * 履歴のエントリを同じアクションで再実行
+     * 入力のプロンプト・変数の展開・envFileの読み込みは改めて行う
+     */
+    async rerun(entry: HistoryEntry): Promise<void> {
+        const title = entry.labelPath[entry.labelPath.length - 1] ?? formatHistoryLabel(entry);
+        const actions = await this.prepare(entry.actions);
+        if (!actions || !await this.confirmRun(title, entry.confirm, actions)) {
+            return;
+        }
+
+        const result = await this.track(entry.labelPath, () => this.runActions(actions, {
+            title,
+            parallel: entry.parallel,
+            continueOnError: entry.continueOnError
+        }));
+        await this.history.add({ ...entry, timestamp: Date.now(), result });
+    }
+
+    /**
+     * 入力プロンプト・変数展開・envFileの読み込み
+     * @returns 実行可能なアクション（入力がキャンセルされた場合・エラーの場合はundefined）
+     */
+    private async prepare(actions: ResolvedAction[]): Promise<ResolvedAction[] | undefined> {
+        try {
+            return await this.configManager.prepareActions(actions);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`TaskPilot: ${message}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * 確認が必要な場合、展開済みのコマンドをモーダルで表示して実行の可否を確認
+     * @param label 実行するアイテムのラベル
+     * @param confirm メニュー項目のconfirm（未指定の場合は参照先のコマンド定義のconfirmを使用）
+     * @returns 実行してよい場合はtrue
+     */
+    private async confirmRun(label: string, confirm: boolean | string | undefined, actions: ResolvedAction[]): Promise<boolean> {
+        const required = confirm || actions.find(action => action.confirm)?.confirm;
+        if (!required) {
+            return true;
+        }
+
+        const runLabel = vscode.l10n.t('Run');
+        const message = typeof required === 'string' ? required : vscode.l10n.t('Run "{0}"?', label);
+        const selection = await vscode.window.showWarningMessage(
+            message,
+            { modal: true, detail: actions.map(formatCommandLine).join('\n') },
+            runLabel
+        );
+        return selection === runLabel;
+    }
+
+    /**
+     * アイテムが実行中か判定
+     */
+    isRunning(labelPath: string[]): boolean {
+        return this.running.has(labelPath.join('\n'));
+    }
+
+    /**
+     * 実行中として記録しながら実行
+     */
+    private async track<T>(labelPath: string[], run: () => Promise<T>): Promise<T> {
+        const key = labelPath.join('\n');
+        this.running.add(key);
+        this._onDidChangeRunning.fire();
+        try {
+            return await run();
+        } finally {
+            this.running.delete(key);
+            this._onDidChangeRunning.fire();
+        }
+    }
+
+    /**
+     * 展開済みのアクションを実行し、結果を通知
+     */
+    private async runActions(actions: ResolvedAction[], options: RunOptions): Promise<ExecutionResult> {
+        if (options.parallel) {
+            try {
+                const terminals = await this.actionExecutor.executeParallel(actions);
+                vscode.window.showInformationMessage(
+                    `TaskPilot: ${vscode.l10n.t('Started {0} parallel terminal(s)', terminals.length)}`
+                );
+                return 'success';
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`TaskPilot: ${message}`);
+                return 'failed';
+            }
+        }
+
+        if (actions.length === 1) {
+            // 単一アクション
+            try {
+                await this.actionExecutor.execute(actions[0]);
+                return 'success';
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`TaskPilot: ${message}`);
+                return 'failed';
+            }
+        }
+
+        // 複数アクション - 進捗表示
+        return vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `TaskPilot: ${options.title}`,
+            cancellable: true
+        }, async (progress, token): Promise<ExecutionResult> => {
+            const result = await this.actionExecutor.executeMultiple(actions, {
+                continueOnError: options.continueOnError ?? false,
+                cancellationToken: token,
+                onProgress: (current, total, action) => {
+                    progress.report({
+                        increment: 100 / total,
+                        message: `(${current}/${total}) ${action.description || action.command || action.taskGroup}`
+                    });
+                }
+            });
+
+            if (result.cancelled) {
+                vscode.window.showWarningMessage(`TaskPilot: ${vscode.l10n.t('Execution cancelled ({0}/{1} completed)', result.completedCount, result.totalCount)}`);
+                return 'cancelled';
+            }
+            if (!result.success) {
+                if (result.error) {
+                    vscode.window.showErrorMessage(`TaskPilot: ${vscode.l10n.t('{0} (at step {1})', result.error.message, (result.failedIndex ?? 0) + 1)}`);
+                } else if (result.errors && result.errors.length > 0) {
+                    vscode.window.showWarningMessage(`TaskPilot: ${vscode.l10n.t('Completed with {0} error(s)', result.errors.length)}`);
+                }
+                return 'failed';
+            }
+            vscode.window.showInformationMessage(`TaskPilot: ${vscode.l10n.t('All {0} actions completed', result.totalCount)}`);
+            return 'success';
+        });
+    }
+
+    /**
+     * リソースを解放
+     */
+    dispose(): void {
+        this._onDidChangeRunning.dispose();
+    }
+}
+
+/**
+ * 確認ダイアログに表示するアクションのコマンド行
+ */
+function formatCommandLine(action: ResolvedAction): string {
+    const line = action.command ?? action.path ?? action.taskGroup ?? '';
+    return action.type === 'terminal' || action.type === 'process' ? `$ ${line}` : `${action.type}: ${line}`;
+}
@@ -0,0 +1,104 @@
+/**
+ * TaskPilot Menu Tree
+ * メニューツリーの走査（ラベルのパス・IDによる検索、平坦化）
+ */
+
+import { MenuItem } from './types';
+
+/**
+ * 平坦化したメニューアイテム
+ */
+export interface FlatMenuItem {
+    /** メニューアイテム */
+    item: MenuItem;
+    /** ルートからのラベル */
+    labelPath: string[];
+}
+
+/**
+ * ラベルのパスからメニューアイテムを検索（同名の場合は最初のアイテム）
+ * カテゴリは対象外
+ */
+export function findItemByLabelPath(menu: MenuItem[], labelPath: string[]): MenuItem | undefined {
+    let items: MenuItem[] | undefined = menu;
+    let found: MenuItem | undefined;
+    for (const label of labelPath) {
+        found = items?.find(item => item.label === label);
+        if (!found) {
+            return undefined;
+        }
+        items = found.children;
+    }
+    return found && !(found.children && found.children.length > 0) ? found : undefined;
+}
+
+/**
+ * メニューツリーを実行可能なアイテムの一覧に平坦化（表示順）
+ */
+export function flattenMenu(menu: MenuItem[], parentPath: string[] = []): FlatMenuItem[] {
+    const result: FlatMenuItem[] = [];
+    for (const item of menu) {
+        const labelPath = [...parentPath, item.label];
+        if (item.children && item.children.length > 0) {
+            result.push(...flattenMenu(item.children, labelPath));
+        } else {
+            result.push({ item, labelPath });
+        }
+    }
+    return result;
+}
+
+/**
+ * アイテムIDからメニューアイテムを検索（カテゴリは対象外）
+ */
+export function findItemById(menu: MenuItem[], id: string): FlatMenuItem | undefined {
+    return flattenMenu(menu).find(flat => flat.item.id === id);
+}
+
+/**
+ * taskPilot.run コマンドの引数
+ * - 文字列: アイテムID、または " > " 区切りのラベルのパス
+ * - 配列: ラベルのパス
+ * - オブジェクト: `{ id }` または `{ labelPath }`
+ */
+export type RunTarget = string | string[] | { id?: string; labelPath?: string[] };
+
+/**
+ * taskPilot.run コマンドの引数から実行対象を検索
+ */
+export function findRunTarget(menu: MenuItem[], target: RunTarget): FlatMenuItem | undefined {
+    if (typeof target === 'string') {
+        return findItemById(menu, target) ?? findByLabelPath(menu, target.split(' > '));
+    }
+    if (Array.isArray(target)) {
+        return findByLabelPath(menu, target);
+    }
+    if (target && typeof target.id === 'string') {
+        return findItemById(menu, target.id);
+    }
+    if (target && Array.isArray(target.labelPath)) {
+        return findByLabelPath(menu, target.labelPath);
+    }
+    return undefined;
+}
+
+/**
+ * ラベルのパスから検索し、平坦化したアイテムとして返す
+ */
+function findByLabelPath(menu: MenuItem[], labelPath: string[]): FlatMenuItem | undefined {
+    const item = findItemByLabelPath(menu, labelPath);
+    return item ? { item, labelPath } : undefined;
+}
+
+/**
+ * エラー表示用に実行対象をフォーマット
+ */
+export function formatRunTarget(target: RunTarget): string {
+    if (typeof target === 'string') {
+        return target;
+    }
+    if (Array.isArray(target)) {
+        return target.join(' > ');
+    }
+    return target.id ?? target.labelPath?.join(' > ') ?? JSON.stringify(target);
+}
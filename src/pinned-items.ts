@@ -0,0 +1,103 @@
+/**
+ * TaskPilot Pinned Items
+ * ピン留めしたメニューアイテム（ラベルのパスで保持）を管理する
+ */
+
+import * as vscode from 'vscode';
+import { MenuItem } from './types';
+import { findItemByLabelPath } from './menu-tree';
+
+/** ピン留めの保存キー */
+const PINNED_KEY = 'taskPilot.pinnedItems';
+
+/**
+ * ピン留めの解決結果
+ */
+export interface PinnedItem {
+    /** ルートからのメニューラベル */
+    labelPath: string[];
+    /** 対象のメニューアイテム（設定から削除された場合はundefined） */
+    item?: MenuItem;
+}
+
+/**
+ * PinnedItems - ピン留めの管理クラス
+ * 設定の再読み込み後もラベルのパスで対象を探し直す
+ */
+export class PinnedItems implements vscode.Disposable {
+    /** ピン留め変更イベント */
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor(private readonly storage: vscode.Memento) {}
+
+    /**
+     * ピン留めしたラベルのパスを取得（ピン留めした順）
+     */
+    getLabelPaths(): string[][] {
+        return this.storage.get<string[][]>(PINNED_KEY, []);
+    }
+
+    /**
+     * ピン留めをメニューから解決
+     */
+    resolve(menu: MenuItem[]): PinnedItem[] {
+        return this.getLabelPaths().map(labelPath => ({
+            labelPath,
+            item: findItemByLabelPath(menu, labelPath)
+        }));
+    }
+
+    /**
+     * ピン留めされているか判定
+     */
+    isPinned(labelPath: string[]): boolean {
+        const key = pinKey(labelPath);
+        return this.getLabelPaths().some(p => pinKey(p) === key);
+    }
+
+    /**
+     * ピン留めを切り替え
+     */
+    async toggle(labelPath: string[]): Promise<void> {
+        if (this.isPinned(labelPath)) {
+            await this.unpin(labelPath);
+        } else {
+            await this.pin(labelPath);
+        }
+    }
+
+    /**
+     * ピン留め
+     */
+    async pin(labelPath: string[]): Promise<void> {
+        if (this.isPinned(labelPath)) {
+            return;
+        }
+        await this.storage.update(PINNED_KEY, [...this.getLabelPaths(), labelPath]);
+        this._onDidChange.fire();
+    }
+
+    /**
+     * ピン留めを解除
+     */
+    async unpin(labelPath: string[]): Promise<void> {
+        const key = pinKey(labelPath);
+        await this.storage.update(PINNED_KEY, this.getLabelPaths().filter(p => pinKey(p) !== key));
+        this._onDidChange.fire();
+    }
+
+    /**
+     * リソースを解放
+     */
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+}
+
+/**
+ * ラベルのパスの比較用キー
+ */
+function pinKey(labelPath: string[]): string {
+    return labelPath.join('\n');
+}
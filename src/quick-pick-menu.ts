@@ -4,9 +4,15 @@
  */
 
 import * as vscode from 'vscode';
-import { MenuItem, ResolvedAction } from './types';
+import { MenuItem } from './types';
 import { ConfigManager } from './config-manager';
-import { ActionExecutor } from './action-executor';
+import { MenuRunner } from './menu-runner';
+import { HistoryEntry, formatHistoryLabel, getResultIcon } from './execution-history';
+import { PinnedItem, PinnedItems } from './pinned-items';
+import { flattenMenu } from './menu-tree';
+
+/** ルートメニューに表示する最近の実行の件数 */
+const RECENT_ITEM_COUNT = 5;
 
 /**
  * QuickPick用の拡張アイテム型
@@ -16,6 +22,12 @@ export interface TaskQuickPickItem extends vscode.QuickPickItem {
     menuItem: MenuItem;
     /** 戻るボタンかどうか */
     isBack?: boolean;
+    /** 最近の実行（選択すると同じアクションを再実行） */
+    historyEntry?: HistoryEntry;
+    /** ルートからのラベル（ピン留めに使用） */
+    labelPath?: string[];
+    /** 対象が見つからないピン留め */
+    isMissingPin?: boolean;
 }
 
 /**
@@ -28,7 +40,7 @@ export class QuickPickMenu {
     static createQuickPickItems(menuItems: MenuItem[]): TaskQuickPickItem[] {
         return menuItems.map(item => ({
             label: this.formatLabel(item.label, item.icon),
-            description: item.description,
+            description: this.formatDescription(item),
             detail: item.children && item.children.length > 0 ? '→ submenu' : undefined,
             menuItem: item
         }));
@@ -46,6 +58,97 @@ export class QuickPickMenu {
         };
     }
 
+    /**
+     * ピン留めのQuickPickItemを作成（区切り線付き）
+     * 対象が見つからないピン留めは警告アイコンで表示する
+     */
+    static createPinnedItems(pins: PinnedItem[]): TaskQuickPickItem[] {
+        if (pins.length === 0) {
+            return [];
+        }
+
+        return [
+            this.createSeparator(vscode.l10n.t('Pinned')),
+            ...pins.map(pin => {
+                const parentLabel = pin.labelPath.slice(0, -1).join(' > ') || undefined;
+                if (!pin.item) {
+                    return {
+                        label: `$(warning) ${pin.labelPath.join(' > ')}`,
+                        description: vscode.l10n.t('Item no longer exists'),
+                        menuItem: { label: pin.labelPath[pin.labelPath.length - 1] },
+                        labelPath: pin.labelPath,
+                        isMissingPin: true,
+                        buttons: [this.createPinButton(true)]
+                    };
+                }
+                return {
+                    label: this.formatLabel(pin.item.label, pin.item.icon),
+                    description: parentLabel,
+                    menuItem: pin.item,
+                    labelPath: pin.labelPath,
+                    buttons: [this.createPinButton(true)]
+                };
+            })
+        ];
+    }
+
+    /**
+     * 最近の実行のQuickPickItemを作成（区切り線付き）
+     */
+    static createRecentItems(entries: HistoryEntry[]): TaskQuickPickItem[] {
+        if (entries.length === 0) {
+            return [];
+        }
+
+        return [
+            this.createSeparator(vscode.l10n.t('Recent')),
+            ...entries.map(entry => ({
+                label: `${getResultIcon(entry.result)} ${formatHistoryLabel(entry)}`,
+                description: entry.actions.map(action => action.command ?? action.path).join(' && '),
+                menuItem: { label: formatHistoryLabel(entry) },
+                historyEntry: entry
+            }))
+        ];
+    }
+
+    /**
+     * メニューツリー全体の実行可能なアイテムを検索用に作成
+     * 親カテゴリのラベルをdetailに表示する
+     */
+    static createSearchItems(menu: MenuItem[], pinnedItems?: PinnedItems): TaskQuickPickItem[] {
+        return flattenMenu(menu)
+            .filter(flat => this.isActionableItem(flat.item))
+            .map(flat => ({
+                label: this.formatLabel(flat.item.label, flat.item.icon),
+                description: this.formatDescription(flat.item),
+                detail: flat.labelPath.length > 1 ? flat.labelPath.slice(0, -1).join(' > ') : undefined,
+                menuItem: flat.item,
+                labelPath: flat.labelPath,
+                buttons: pinnedItems ? [this.createPinButton(pinnedItems.isPinned(flat.labelPath))] : undefined
+            }));
+    }
+
+    /**
+     * ピン留め/解除ボタンを作成
+     */
+    private static createPinButton(pinned: boolean): vscode.QuickInputButton {
+        return {
+            iconPath: new vscode.ThemeIcon(pinned ? 'pinned' : 'pin'),
+            tooltip: pinned ? vscode.l10n.t('Unpin') : vscode.l10n.t('Pin')
+        };
+    }
+
+    /**
+     * 区切り線を作成
+     */
+    private static createSeparator(label: string): TaskQuickPickItem {
+        return {
+            label,
+            kind: vscode.QuickPickItemKind.Separator,
+            menuItem: { label }
+        };
+    }
+
     /**
      * アイテムがアクション実行可能か判定
      */
@@ -54,8 +157,9 @@ export class QuickPickMenu {
         if (item.children && item.children.length > 0) {
             return false;
         }
-        // actions配列、parallel配列、refまたはtype+commandがあればアクション可能
-        return !!(item.actions || item.parallel || item.ref || (item.type && item.command));
+        // actions配列、parallel配列、refまたはtype+command（taskはtaskGroupでも可）があればアクション可能
+        return !!(item.actions || item.parallel || item.ref ||
+            (item.type && (item.command || (item.type === 'task' && item.taskGroup))));
     }
 
     /**
@@ -68,12 +172,23 @@ export class QuickPickMenu {
         return label;
     }
 
+    /**
+     * 説明文をフォーマット（キーバインドのヒントがあれば末尾に追加）
+     */
+    static formatDescription(item: MenuItem): string | undefined {
+        if (item.keybinding) {
+            return item.description ? `${item.description} (${item.keybinding})` : `(${item.keybinding})`;
+        }
+        return item.description;
+    }
+
     /**
      * メニューを表示（階層対応）
      */
     static async show(
         configManager: ConfigManager,
-        actionExecutor: ActionExecutor,
+        menuRunner: MenuRunner,
+        pinnedItems: PinnedItems,
         items?: MenuItem[],
         breadcrumb: string[] = []
     ): Promise<void> {
@@ -84,36 +199,78 @@ export class QuickPickMenu {
         }
 
         const menuItems = items || config!.menu;
-        const quickPickItems: TaskQuickPickItem[] = [];
 
-        // 戻るボタン（ルート以外）
-        if (breadcrumb.length > 0) {
-            quickPickItems.push(this.createBackItem(breadcrumb[breadcrumb.length - 1]));
-        }
+        // ピン留めの切り替えで作り直すため関数にする
+        const createItems = (): TaskQuickPickItem[] => {
+            const quickPickItems: TaskQuickPickItem[] = [];
 
-        // メニューアイテムを追加
-        quickPickItems.push(...this.createQuickPickItems(menuItems));
+            // 戻るボタン（ルート以外）、ルートではピン留めと最近の実行
+            if (breadcrumb.length > 0) {
+                quickPickItems.push(this.createBackItem(breadcrumb[breadcrumb.length - 1]));
+            } else {
+                quickPickItems.push(...this.createPinnedItems(pinnedItems.resolve(config!.menu)));
+                quickPickItems.push(...this.createRecentItems(menuRunner.history.getRecent(RECENT_ITEM_COUNT)));
+                if (quickPickItems.length > 0) {
+                    quickPickItems.push(this.createSeparator(vscode.l10n.t('Menu')));
+                }
+            }
+
+            // メニューアイテムを追加（実行可能なアイテムにはピン留めボタン）
+            for (const quickPickItem of this.createQuickPickItems(menuItems)) {
+                if (this.isActionableItem(quickPickItem.menuItem)) {
+                    quickPickItem.labelPath = [...breadcrumb, quickPickItem.menuItem.label];
+                    quickPickItem.buttons = [this.createPinButton(pinnedItems.isPinned(quickPickItem.labelPath))];
+                }
+                quickPickItems.push(quickPickItem);
+            }
+            return quickPickItems;
+        };
 
         // QuickPickを表示
         const title = breadcrumb.length > 0
             ? `TaskPilot: ${breadcrumb.join(' > ')}`
             : 'TaskPilot';
 
-        const selected = await vscode.window.showQuickPick(quickPickItems, {
+        const selected = await this.pick(createItems, {
             title,
-            placeHolder: 'Select an action or category',
+            placeholder: 'Select an action or category',
             matchOnDescription: true
-        });
+        }, item => (item.labelPath ? pinnedItems.toggle(item.labelPath) : Promise.resolve()));
 
         if (!selected) {
             return; // ユーザーがキャンセル
         }
 
+        // 対象が見つからないピン留め
+        if (selected.isMissingPin) {
+            const unpin = vscode.l10n.t('Unpin');
+            const answer = await vscode.window.showWarningMessage(
+                `TaskPilot: ${vscode.l10n.t('Pinned item "{0}" no longer exists', selected.labelPath!.join(' > '))}`,
+                unpin
+            );
+            if (answer === unpin) {
+                await pinnedItems.unpin(selected.labelPath!);
+            }
+            return;
+        }
+
         // 戻るボタン
         if (selected.isBack) {
             breadcrumb.pop();
             const parentItems = this.getParentItems(config!.menu, breadcrumb);
-            await this.show(configManager, actionExecutor, parentItems, breadcrumb.slice(0, -1));
+            await this.show(configManager, menuRunner, pinnedItems, parentItems, breadcrumb.slice(0, -1));
+            return;
+        }
+
+        // 最近実行したアイテム
+        if (selected.historyEntry) {
+            await menuRunner.rerun(selected.historyEntry);
+            return;
+        }
+
+        // ピン留めしたアイテム・メニューのアイテムを実行
+        if (selected.labelPath && this.isActionableItem(selected.menuItem)) {
+            await menuRunner.run(selected.menuItem, selected.labelPath);
             return;
         }
 
@@ -123,83 +280,113 @@ export class QuickPickMenu {
         if (menuItem.children && menuItem.children.length > 0) {
             await this.show(
                 configManager,
-                actionExecutor,
+                menuRunner,
+                pinnedItems,
                 menuItem.children,
                 [...breadcrumb, menuItem.label]
             );
             return;
         }
+    }
 
-        // 並列アクション実行
-        if (configManager.hasParallelActions(menuItem)) {
-            const parallelActions = configManager.resolveParallelActions(menuItem);
-            if (parallelActions && parallelActions.length > 0) {
-                try {
-                    const terminals = await actionExecutor.executeParallel(parallelActions);
-                    vscode.window.showInformationMessage(
-                        `TaskPilot: ${vscode.l10n.t('Started {0} parallel terminal(s)', terminals.length)}`
-                    );
-                } catch (error) {
-                    const message = error instanceof Error ? error.message : String(error);
-                    vscode.window.showErrorMessage(`TaskPilot: ${message}`);
-                }
-                return;
-            }
+    /**
+     * メニュー全体を1つのリストで検索して実行
+     */
+    static async search(
+        configManager: ConfigManager,
+        menuRunner: MenuRunner,
+        pinnedItems: PinnedItems
+    ): Promise<void> {
+        const config = configManager.getConfig();
+        if (!config) {
+            vscode.window.showWarningMessage(`TaskPilot: ${vscode.l10n.t('No configuration loaded')}`);
+            return;
         }
 
-        // アクション実行
-        const actions = configManager.resolveActions(menuItem);
-        if (actions && actions.length > 0) {
-            await this.executeActions(actionExecutor, actions, menuItem);
+        const selected = await this.pick(() => this.createSearchItems(config.menu, pinnedItems), {
+            title: `TaskPilot: ${vscode.l10n.t('Search')}`,
+            placeholder: vscode.l10n.t('Type to search all menu items'),
+            matchOnDescription: true,
+            matchOnDetail: true
+        }, item => (item.labelPath ? pinnedItems.toggle(item.labelPath) : Promise.resolve()));
+
+        if (selected?.labelPath) {
+            await menuRunner.run(selected.menuItem, selected.labelPath);
         }
     }
 
     /**
-     * アクションを実行（単一/複数対応）
+     * QuickPickを表示し、選択されたアイテムを返す
+     * @param createItems 表示するアイテム（ボタン押下後に作り直す）
+     * @param onItemButton アイテムのボタンが押された時の処理
      */
-    private static async executeActions(
-        actionExecutor: ActionExecutor,
-        actions: ResolvedAction[],
-        menuItem: MenuItem
-    ): Promise<void> {
-        if (actions.length === 1) {
-            // 単一アクション
-            try {
-                await actionExecutor.execute(actions[0]);
-            } catch (error) {
-                const message = error instanceof Error ? error.message : String(error);
-                vscode.window.showErrorMessage(`TaskPilot: ${message}`);
-            }
-        } else {
-            // 複数アクション - 進捗表示
-            await vscode.window.withProgress({
-                location: vscode.ProgressLocation.Notification,
-                title: `TaskPilot: ${menuItem.label}`,
-                cancellable: true
-            }, async (progress, token) => {
-                const result = await actionExecutor.executeMultiple(actions, {
-                    continueOnError: menuItem.continueOnError ?? false,
-                    cancellationToken: token,
-                    onProgress: (current, total, action) => {
-                        progress.report({
-                            increment: 100 / total,
-                            message: `(${current}/${total}) ${action.description || action.command}`
-                        });
-                    }
-                });
-
-                if (result.cancelled) {
-                    vscode.window.showWarningMessage(`TaskPilot: ${vscode.l10n.t('Execution cancelled ({0}/{1} completed)', result.completedCount, result.totalCount)}`);
-                } else if (!result.success) {
-                    if (result.error) {
-                        vscode.window.showErrorMessage(`TaskPilot: ${vscode.l10n.t('{0} (at step {1})', result.error.message, (result.failedIndex ?? 0) + 1)}`);
-                    } else if (result.errors && result.errors.length > 0) {
-                        vscode.window.showWarningMessage(`TaskPilot: ${vscode.l10n.t('Completed with {0} error(s)', result.errors.length)}`);
-                    }
-                } else {
-                    vscode.window.showInformationMessage(`TaskPilot: ${vscode.l10n.t('All {0} actions completed', result.totalCount)}`);
-                }
+    private static pick(
+        createItems: () => TaskQuickPickItem[],
+        options: { title: string; placeholder: string; matchOnDescription: boolean; matchOnDetail?: boolean },
+        onItemButton: (item: TaskQuickPickItem) => Promise<void>
+    ): Promise<TaskQuickPickItem | undefined> {
+        const quickPick = vscode.window.createQuickPick<TaskQuickPickItem>();
+        quickPick.title = options.title;
+        quickPick.placeholder = options.placeholder;
+        quickPick.matchOnDescription = options.matchOnDescription;
+        quickPick.matchOnDetail = options.matchOnDetail ?? false;
+        quickPick.items = createItems();
+
+        return new Promise(resolve => {
+            let selected: TaskQuickPickItem | undefined;
+            quickPick.onDidAccept(() => {
+                selected = quickPick.selectedItems[0];
+                quickPick.hide();
             });
+            quickPick.onDidTriggerItemButton(async event => {
+                await onItemButton(event.item);
+                quickPick.items = createItems();
+            });
+            quickPick.onDidHide(() => {
+                quickPick.dispose();
+                resolve(selected);
+            });
+            quickPick.show();
+        });
+    }
+
+    /**
+     * 実行履歴を表示し、選択したエントリを再実行
+     */
+    static async showHistory(menuRunner: MenuRunner): Promise<void> {
+        const entries = menuRunner.history.getEntries();
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage(`TaskPilot: ${vscode.l10n.t('No execution history')}`);
+            return;
+        }
+
+        const clearItem: vscode.QuickPickItem = { label: `$(trash) ${vscode.l10n.t('Clear History')}` };
+        const historyItems = entries.map(entry => ({
+            label: `${getResultIcon(entry.result)} ${formatHistoryLabel(entry)}`,
+            description: new Date(entry.timestamp).toLocaleString(),
+            detail: entry.actions.map(action => action.command ?? action.path).join(' && '),
+            entry
+        }));
+
+        const selected = await vscode.window.showQuickPick<vscode.QuickPickItem & { entry?: HistoryEntry }>(
+            [...historyItems, { label: '', kind: vscode.QuickPickItemKind.Separator }, clearItem],
+            {
+                title: `TaskPilot: ${vscode.l10n.t('History')}`,
+                placeHolder: vscode.l10n.t('Select an entry to run again'),
+                matchOnDescription: true,
+                matchOnDetail: true
+            }
+        );
+
+        if (!selected) {
+            return;
+        }
+        if (selected === clearItem) {
+            await menuRunner.history.clear();
+            return;
+        }
+        if (selected.entry) {
+            await menuRunner.rerun(selected.entry);
         }
     }
 
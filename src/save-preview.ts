@@ -0,0 +1,68 @@
+/**
+ * TaskPilot Save Preview
+ * 設定ファイルに書き込む前に、保存前と保存後の差分を表示して確認する（設定エディタ・インポートで共通）
+ */
+
+import * as vscode from 'vscode';
+
+/** 保存内容の差分プレビューのURIスキーム */
+const SAVE_PREVIEW_SCHEME = 'taskpilot-save';
+
+/** 差分プレビューのURIから保存する内容 */
+const previews = new Map<string, string>();
+let previewCount = 0;
+let provider: vscode.Disposable | undefined;
+
+/**
+ * 保存前と保存後の差分を表示して保存するか確認
+ * @param uri 保存先のファイル
+ * @param content 保存する内容
+ * @param regenerated ファイル全体を生成し直したかどうか（コメント等が失われることを警告する）
+ * @returns 保存する場合はtrue
+ */
+export async function confirmSave(uri: vscode.Uri, content: string, regenerated: boolean): Promise<boolean> {
+    // 確認中のプレビューがある間だけプロバイダーを登録
+    provider = provider ?? vscode.workspace.registerTextDocumentContentProvider(SAVE_PREVIEW_SCHEME, {
+        provideTextDocumentContent: previewUri => previews.get(previewUri.toString()) ?? ''
+    });
+
+    const previewUri = vscode.Uri.from({
+        scheme: SAVE_PREVIEW_SCHEME,
+        path: uri.path,
+        query: String(++previewCount)
+    });
+    previews.set(previewUri.toString(), content);
+
+    try {
+        const fileName = uri.path.split('/').pop();
+        await vscode.commands.executeCommand('vscode.diff', uri, previewUri, vscode.l10n.t('{0} (Before ↔ After Save)', fileName ?? ''));
+
+        const save = vscode.l10n.t('Save');
+        const choice = regenerated
+            ? await vscode.window.showWarningMessage(
+                `TaskPilot: ${vscode.l10n.t('The changes cannot be applied in place, so the whole file will be regenerated and its comments, anchors and key order will be lost. Review the diff and save?')}`,
+                save
+            )
+            : await vscode.window.showInformationMessage(`TaskPilot: ${vscode.l10n.t('Review the diff and save?')}`, save);
+        await closePreview(previewUri);
+        return choice === save;
+    } finally {
+        previews.delete(previewUri.toString());
+        if (previews.size === 0) {
+            provider?.dispose();
+            provider = undefined;
+        }
+    }
+}
+
+/**
+ * 差分プレビューのタブを閉じる
+ */
+async function closePreview(previewUri: vscode.Uri): Promise<void> {
+    const tabs = vscode.window.tabGroups.all
+        .flatMap(group => group.tabs)
+        .filter(tab => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === previewUri.toString());
+    if (tabs.length > 0) {
+        await vscode.window.tabGroups.close(tabs);
+    }
+}
@@ -0,0 +1,145 @@
+/**
+ * TaskPilot Schema Validator
+ * 生成済みのJSONスキーマ（schemas/taskpilot.schema.json）で設定を検証する
+ */
+
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { configSchema, JsonSchema } from './config-schema';
+import { ValidationError } from './types';
+
+/** 型名の表示（"must be a string" など） */
+const TYPE_NAMES: Record<string, string> = {
+    string: 'a string',
+    number: 'a number',
+    integer: 'an integer',
+    boolean: 'a boolean',
+    array: 'an array',
+    object: 'an object',
+    null: 'null'
+};
+
+let validate: ValidateFunction | undefined;
+
+/**
+ * スキーマで設定を検証
+ * @param data パースされたデータ
+ * @returns バリデーションエラー（パスは "menu[0].children[1].ref" 形式）
+ */
+export function validateSchema(data: unknown): ValidationError[] {
+    validate = validate ?? new Ajv({ allErrors: true, jsonPointers: true, verbose: true }).compile(configSchema);
+    if (validate(data)) {
+        return [];
+    }
+
+    // propertyNamesの内側のエラー（名前のpattern等）はpropertyNamesのエラーにまとめる
+    const errors = summarizeAlternatives((validate.errors ?? []).filter(e => !e.schemaPath.includes('/propertyNames/')));
+    const seen = new Set<string>();
+    const result: ValidationError[] = [];
+    for (const error of errors) {
+        const converted = toValidationError(error, data);
+        const key = `${converted.path}\n${converted.message}`;
+        if (!seen.has(key)) {
+            seen.add(key);
+            result.push(converted);
+        }
+    }
+    return result;
+}
+
+/**
+ * anyOf/oneOf（例: `boolean | StatusBarOptions`）のエラーをまとめる
+ * - 値の内側のエラーがあれば、その候補を意図したものとして内側のエラーだけを残す
+ * - なければ候補の型を1つのエラーにまとめる
+ */
+function summarizeAlternatives(errors: ErrorObject[]): ErrorObject[] {
+    let result = errors;
+    for (const alternative of errors.filter(e => e.keyword === 'anyOf' || e.keyword === 'oneOf')) {
+        // $refの候補のエラーは参照先の定義のschemaPathになるため、参照先も候補のエラーとして扱う
+        const refs = (alternative.schema as JsonSchema[]).map(branch => branch.$ref).filter((ref): ref is string => !!ref);
+        const prefixes = [alternative.schemaPath, ...refs].map(prefix => `${prefix}/`);
+        const branches = result.filter(e =>
+            (e.dataPath === alternative.dataPath || e.dataPath.startsWith(`${alternative.dataPath}/`)) &&
+            prefixes.some(prefix => e.schemaPath.startsWith(prefix)));
+        const nested = branches.filter(e => e.dataPath !== alternative.dataPath);
+        const types = branches
+            .filter(e => e.keyword === 'type' && e.dataPath === alternative.dataPath)
+            .map(e => (e.params as { type: string }).type);
+
+        const replacement: ErrorObject[] = nested.length > 0
+            ? nested
+            : types.length > 0
+                ? [{ ...alternative, keyword: 'type', params: { type: types.join(',') } }]
+                : [alternative];
+        result = result
+            .filter(e => e !== alternative && !branches.includes(e))
+            .concat(replacement);
+    }
+    return result;
+}
+
+/**
+ * ajvのエラーをバリデーションエラーに変換
+ */
+function toValidationError(error: ErrorObject, data: unknown): ValidationError {
+    const path = toPath(error.dataPath, data);
+    const name = path.replace(/^.*\./, '') || 'Configuration';
+
+    switch (error.keyword) {
+        case 'required': {
+            const property = (error.params as { missingProperty: string }).missingProperty;
+            return { message: `Missing "${property}" field`, path: joinPath(path, property) };
+        }
+        case 'additionalProperties': {
+            const property = (error.params as { additionalProperty: string }).additionalProperty;
+            return { message: `Unknown property "${property}"`, path: joinPath(path, property) };
+        }
+        case 'type': {
+            const types = (error.params as { type: string }).type.split(',');
+            return { message: `"${name}" must be ${types.map(type => TYPE_NAMES[type] ?? type).join(' or ')}`, path };
+        }
+        case 'propertyNames': {
+            const property = (error.params as { propertyName: string }).propertyName;
+            return { message: `Invalid name "${property}"`, path: joinPath(path, property) };
+        }
+        case 'minLength':
+            return { message: `"${name}" must not be empty`, path };
+        case 'exclusiveMinimum': {
+            const limit = (error.params as { limit: number }).limit;
+            return { message: `"${name}" must be greater than ${limit}`, path };
+        }
+        case 'pattern': {
+            const pattern = (error.params as { pattern: string }).pattern;
+            return { message: `"${name}" must match ${pattern}`, path };
+        }
+        case 'enum': {
+            const values = (error.params as { allowedValues: unknown[] }).allowedValues;
+            return { message: `"${name}" must be one of: ${values.join(', ')}`, path };
+        }
+        default:
+            return { message: `"${name}" ${error.message ?? 'is invalid'}`, path };
+    }
+}
+
+/**
+ * JSONポインタ（/menu/0/children）をパス（menu[0].children）に変換
+ * 配列の添字かどうかは実際のデータで判定する
+ */
+function toPath(pointer: string, data: unknown): string {
+    let path = '';
+    let current = data;
+    for (const segment of pointer.split('/').slice(1)) {
+        const key = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+        path = Array.isArray(current) ? `${path}[${key}]` : joinPath(path, key);
+        current = current && typeof current === 'object'
+            ? (current as Record<string, unknown>)[key]
+            : undefined;
+    }
+    return path;
+}
+
+/**
+ * パスにプロパティ名を追加
+ */
+function joinPath(path: string, property: string): string {
+    return path ? `${path}.${property}` : property;
+}
@@ -6,7 +6,10 @@
 import * as vscode from 'vscode';
 import { MenuItem } from './types';
 import { ConfigManager } from './config-manager';
-import { ActionExecutor } from './action-executor';
+import { MenuRunner } from './menu-runner';
+import { formatHistoryLabel, getResultIcon } from './execution-history';
+import { PinnedItems } from './pinned-items';
+import { PREVIEW_COMMAND } from './item-preview';
 import { getStyles } from './webview/styles';
 
 /**
@@ -28,11 +31,15 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
     /** 状態永続化用のキー */
     private static readonly SHOW_DESCRIPTIONS_KEY = 'taskPilot.showDescriptions';
 
+    /** 「最近の実行」に表示する件数 */
+    private static readonly RECENT_ITEM_COUNT = 5;
+
     constructor(
         private readonly _extensionUri: vscode.Uri,
         private readonly _configManager: ConfigManager,
-        private readonly _actionExecutor: ActionExecutor,
-        private readonly _context?: vscode.ExtensionContext
+        private readonly _menuRunner: MenuRunner,
+        private readonly _context?: vscode.ExtensionContext,
+        private readonly _pinnedItems?: PinnedItems
     ) {
         // globalStateから状態を復元（デフォルトtrue）
         if (_context) {
@@ -66,6 +73,21 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
                 case 'execute':
                     await this._executeAction(message.path);
                     break;
+                case 'rerun':
+                    await this._rerun(message.index);
+                    break;
+                case 'togglePin':
+                    await this._togglePin(message.path);
+                    break;
+                case 'preview':
+                    await this._preview(message.path);
+                    break;
+                case 'executePinned':
+                    await this._executePinned(message.index);
+                    break;
+                case 'unpin':
+                    await this._unpin(message.index);
+                    break;
                 case 'toggle':
                     this._toggleItem(message.path);
                     break;
@@ -92,10 +114,16 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
             }
         });
 
-        // 設定変更時にUIを更新
+        // 設定変更・実行履歴の更新時にUIを更新
         this._configManager.onConfigChanged(() => {
             this.refresh();
         });
+        this._menuRunner.history.onDidChange(() => {
+            this.refresh();
+        });
+        this._pinnedItems?.onDidChange(() => {
+            this.refresh();
+        });
     }
 
     /**
@@ -141,69 +169,82 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
             return;
         }
 
-        // 並列アクション実行
-        if (this._configManager.hasParallelActions(item)) {
-            const parallelActions = this._configManager.resolveParallelActions(item);
-            if (parallelActions && parallelActions.length > 0) {
-                try {
-                    const terminals = await this._actionExecutor.executeParallel(parallelActions);
-                    vscode.window.showInformationMessage(
-                        `TaskPilot: ${vscode.l10n.t('Started {0} parallel terminal(s)', terminals.length)}`
-                    );
-                } catch (error) {
-                    const message = error instanceof Error ? error.message : String(error);
-                    vscode.window.showErrorMessage(`TaskPilot: ${message}`);
-                }
-                return;
-            }
+        await this._menuRunner.run(item, this._getLabelPath(config.menu, path.split('.')));
+    }
+
+    /**
+     * 履歴のエントリを再実行する
+     */
+    private async _rerun(index: number): Promise<void> {
+        const entry = this._menuRunner.history.getRecent(SidebarViewProvider.RECENT_ITEM_COUNT)[index];
+        if (entry) {
+            await this._menuRunner.rerun(entry);
         }
+    }
 
-        // アクション実行（単一/複数対応）
-        const actions = this._configManager.resolveActions(item);
-        if (!actions || actions.length === 0) {
-            vscode.window.showErrorMessage(`TaskPilot: ${vscode.l10n.t('No executable action available')}`);
+    /**
+     * メニューアイテムが実行するアクションをプレビューする
+     */
+    private async _preview(path: string): Promise<void> {
+        const config = this._configManager.getConfig();
+        if (config) {
+            await vscode.commands.executeCommand(PREVIEW_COMMAND, this._getLabelPath(config.menu, path.split('.')));
+        }
+    }
+
+    /**
+     * メニューアイテムのピン留めを切り替える
+     */
+    private async _togglePin(path: string): Promise<void> {
+        const config = this._configManager.getConfig();
+        if (config && this._pinnedItems) {
+            await this._pinnedItems.toggle(this._getLabelPath(config.menu, path.split('.')));
+        }
+    }
+
+    /**
+     * ピン留めしたアイテムを実行する
+     */
+    private async _executePinned(index: number): Promise<void> {
+        const config = this._configManager.getConfig();
+        const pin = config && this._pinnedItems?.resolve(config.menu)[index];
+        if (!pin) {
             return;
         }
+        if (!pin.item) {
+            vscode.window.showWarningMessage(
+                `TaskPilot: ${vscode.l10n.t('Pinned item "{0}" no longer exists', pin.labelPath.join(' > '))}`
+            );
+            return;
+        }
+        await this._menuRunner.run(pin.item, pin.labelPath);
+    }
+
+    /**
+     * ピン留めを解除する
+     */
+    private async _unpin(index: number): Promise<void> {
+        const labelPath = this._pinnedItems?.getLabelPaths()[index];
+        if (labelPath) {
+            await this._pinnedItems!.unpin(labelPath);
+        }
+    }
 
-        if (actions.length === 1) {
-            // 単一アクション
-            try {
-                await this._actionExecutor.execute(actions[0]);
-            } catch (error) {
-                const message = error instanceof Error ? error.message : String(error);
-                vscode.window.showErrorMessage(`TaskPilot: ${message}`);
+    /**
+     * パスからルートまでのラベルを取得
+     */
+    private _getLabelPath(items: MenuItem[], pathParts: string[]): string[] {
+        const labels: string[] = [];
+        let current: MenuItem[] | undefined = items;
+        for (const part of pathParts) {
+            const item: MenuItem | undefined = current?.[parseInt(part, 10)];
+            if (!item) {
+                break;
             }
-        } else {
-            // 複数アクション - 進捗表示
-            await vscode.window.withProgress({
-                location: vscode.ProgressLocation.Notification,
-                title: `TaskPilot: ${item.label}`,
-                cancellable: true
-            }, async (progress, token) => {
-                const result = await this._actionExecutor.executeMultiple(actions, {
-                    continueOnError: item.continueOnError ?? false,
-                    cancellationToken: token,
-                    onProgress: (current, total, action) => {
-                        progress.report({
-                            increment: 100 / total,
-                            message: `(${current}/${total}) ${action.description || action.command}`
-                        });
-                    }
-                });
-
-                if (result.cancelled) {
-                    vscode.window.showWarningMessage(`TaskPilot: ${vscode.l10n.t('Execution cancelled ({0}/{1} completed)', result.completedCount, result.totalCount)}`);
-                } else if (!result.success) {
-                    if (result.error) {
-                        vscode.window.showErrorMessage(`TaskPilot: ${vscode.l10n.t('{0} (at step {1})', result.error.message, (result.failedIndex ?? 0) + 1)}`);
-                    } else if (result.errors && result.errors.length > 0) {
-                        vscode.window.showWarningMessage(`TaskPilot: ${vscode.l10n.t('Completed with {0} error(s)', result.errors.length)}`);
-                    }
-                } else {
-                    vscode.window.showInformationMessage(`TaskPilot: ${vscode.l10n.t('All {0} actions completed', result.totalCount)}`);
-                }
-            });
+            labels.push(item.label);
+            current = item.children;
         }
+        return labels;
     }
 
     /**
@@ -262,6 +303,26 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
     <script>
         const vscode = acquireVsCodeApi();
 
+        function rerun(index) {
+            vscode.postMessage({ type: 'rerun', index: index });
+        }
+
+        function togglePin(path) {
+            vscode.postMessage({ type: 'togglePin', path: path });
+        }
+
+        function preview(path) {
+            vscode.postMessage({ type: 'preview', path: path });
+        }
+
+        function executePinned(index) {
+            vscode.postMessage({ type: 'executePinned', index: index });
+        }
+
+        function unpin(index) {
+            vscode.postMessage({ type: 'unpin', index: index });
+        }
+
         function toggle(path) {
             vscode.postMessage({ type: 'toggle', path: path });
         }
@@ -281,6 +342,50 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
         function openGlobalSettings() {
             vscode.postMessage({ type: 'openGlobalSettings' });
         }
+
+        // 各単語の文字が順番に含まれていれば一致（あいまい検索）
+        function fuzzyMatch(text, term) {
+            let position = 0;
+            for (const char of term) {
+                position = text.indexOf(char, position);
+                if (position < 0) {
+                    return false;
+                }
+                position++;
+            }
+            return true;
+        }
+
+        function filterMenu(value) {
+            const terms = value.trim().toLowerCase().split(/\\s+/).filter(term => term);
+            const tree = document.getElementById('menuTree');
+            const results = document.getElementById('searchResults');
+            if (!tree || !results) {
+                return;
+            }
+
+            tree.style.display = terms.length > 0 ? 'none' : '';
+            results.style.display = terms.length > 0 ? '' : 'none';
+
+            let count = 0;
+            results.querySelectorAll('.search-result').forEach(element => {
+                const matched = terms.every(term => fuzzyMatch(element.dataset.search, term));
+                element.style.display = matched ? '' : 'none';
+                if (matched) {
+                    count++;
+                }
+            });
+            document.getElementById('noResults').style.display = count === 0 ? '' : 'none';
+            vscode.setState({ filter: value });
+        }
+
+        // 再描画後もフィルタを維持
+        const state = vscode.getState();
+        const filterInput = document.getElementById('filterInput');
+        if (state && state.filter && filterInput) {
+            filterInput.value = state.filter;
+            filterMenu(state.filter);
+        }
     </script>
 </body>
 </html>`;
@@ -306,14 +411,99 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
             </button>
         </div>`;
 
-        html += this.getMenuItemsHtml(items);
+        html += `<div class="filter-box">
+            <i class="codicon codicon-search"></i>
+            <input type="text" id="filterInput" placeholder="${vscode.l10n.t('Filter menu items')}" oninput="filterMenu(this.value)">
+        </div>`;
+
+        let treeHtml = '';
+        const sectionsHtml = this._getPinnedHtml(items) + this._getRecentHtml();
+        if (sectionsHtml) {
+            treeHtml += `${sectionsHtml}<div class="sidebar-section-title">${vscode.l10n.t('Menu')}</div>`;
+        }
+        treeHtml += this.getMenuItemsHtml(items);
+
+        html += `<div id="menuTree">${treeHtml}</div>`;
+        html += `<div id="searchResults" style="display: none;">${this._getSearchResultsHtml(items)}`
+            + `<div id="noResults" class="empty-state">${vscode.l10n.t('No matching items')}</div></div>`;
         return html;
     }
 
+    /**
+     * 検索結果用に実行可能なアイテムを平坦化したHTMLを生成（フィルタはWebview側で行う）
+     */
+    private _getSearchResultsHtml(items: MenuItem[], prefix: string = '', labelPrefix: string[] = []): string {
+        return items.map((item, index) => {
+            const path = prefix ? `${prefix}.${index}` : `${index}`;
+            const labelPath = [...labelPrefix, item.label];
+            if (item.children && item.children.length > 0) {
+                return this._getSearchResultsHtml(item.children, path, labelPath);
+            }
+
+            const searchText = [...labelPath, item.description].filter(text => text).join(' ').toLowerCase();
+            let html = `<div class="menu-item search-result" data-search="${this._escapeHtml(searchText)}" onclick="execute('${path}')">`;
+            html += `<span class="icon">${this._formatIcon(item.icon || '$(terminal)')}</span>`;
+            html += `<span class="label-container"><div class="label">${this._escapeHtml(item.label)}</div>`;
+            if (labelPrefix.length > 0) {
+                html += `<div class="description">${this._escapeHtml(labelPrefix.join(' > '))}</div>`;
+            }
+            html += `</span></div>`;
+            return html;
+        }).join('');
+    }
+
+    /**
+     * ピン留めしたアイテムのHTMLを生成
+     * 対象が見つからないピン留めは警告アイコンで表示する
+     */
+    private _getPinnedHtml(menu: MenuItem[]): string {
+        const pins = this._pinnedItems?.resolve(menu) ?? [];
+        if (pins.length === 0) {
+            return '';
+        }
+
+        const unpinLabel = vscode.l10n.t('Unpin');
+        const items = pins.map((pin, index) => {
+            const label = pin.item ? pin.item.label : pin.labelPath.join(' > ');
+            const icon = pin.item ? pin.item.icon || '$(terminal)' : '$(warning)';
+            const title = pin.item
+                ? pin.labelPath.join(' > ')
+                : vscode.l10n.t('Item no longer exists');
+            return `<div class="menu-item pinned-item${pin.item ? '' : ' missing'}" onclick="executePinned(${index})" title="${this._escapeHtml(title)}">`
+                + `<span class="icon">${this._formatIcon(icon)}</span>`
+                + `<span class="label-container"><div class="label">${this._escapeHtml(label)}</div></span>`
+                + `<button class="pin-btn" onclick="event.stopPropagation(); unpin(${index})" title="${unpinLabel}"><i class="codicon codicon-pinned"></i></button>`
+                + '</div>';
+        }).join('');
+
+        return `<div class="sidebar-section-title">${vscode.l10n.t('Pinned')}</div>${items}`;
+    }
+
+    /**
+     * 最近の実行のHTMLを生成
+     */
+    private _getRecentHtml(): string {
+        const entries = this._menuRunner.history.getRecent(SidebarViewProvider.RECENT_ITEM_COUNT);
+        if (entries.length === 0) {
+            return '';
+        }
+
+        const items = entries.map((entry, index) => {
+            const title = this._escapeHtml(entry.actions.map(action => action.command ?? action.path).join(' && '));
+            return `<div class="menu-item recent-item" onclick="rerun(${index})" title="${title}">`
+                + `<span class="icon">${this._formatIcon(getResultIcon(entry.result))}</span>`
+                + `<span class="label-container"><div class="label">${this._escapeHtml(formatHistoryLabel(entry))}</div></span>`
+                + `<button class="run-btn" onclick="event.stopPropagation(); rerun(${index})">Run</button>`
+                + '</div>';
+        }).join('');
+
+        return `<div class="sidebar-section-title">${vscode.l10n.t('Recent')}</div>${items}`;
+    }
+
     /**
      * メニューアイテムのHTMLを生成
      */
-    public getMenuItemsHtml(items: MenuItem[], prefix: string = ''): string {
+    public getMenuItemsHtml(items: MenuItem[], prefix: string = '', labelPrefix: string[] = []): string {
         if (!items || items.length === 0) {
             return this._getEmptyStateHtml();
         }
@@ -343,6 +533,15 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
             html += `</span>`;
 
             if (!hasChildren) {
+                if (item.keybinding) {
+                    html += `<span class="keybinding">${this._escapeHtml(item.keybinding)}</span>`;
+                }
+                html += `<button class="preview-btn" onclick="event.stopPropagation(); preview('${path}')" title="${vscode.l10n.t('Preview')}"><i class="codicon codicon-eye"></i></button>`;
+                if (this._pinnedItems) {
+                    const pinned = this._pinnedItems.isPinned([...labelPrefix, item.label]);
+                    const pinLabel = pinned ? vscode.l10n.t('Unpin') : vscode.l10n.t('Pin');
+                    html += `<button class="pin-btn${pinned ? ' pinned' : ''}" onclick="event.stopPropagation(); togglePin('${path}')" title="${pinLabel}"><i class="codicon codicon-${pinned ? 'pinned' : 'pin'}"></i></button>`;
+                }
                 html += `<button class="run-btn" onclick="event.stopPropagation(); execute('${path}')">Run</button>`;
             }
 
@@ -350,7 +549,7 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
 
             if (hasChildren && item.children) {
                 html += `<div class="children ${isExpanded ? 'expanded' : ''}">`;
-                html += this.getMenuItemsHtml(item.children, path);
+                html += this.getMenuItemsHtml(item.children, path, [...labelPrefix, item.label]);
                 html += '</div>';
             }
 
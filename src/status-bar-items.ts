@@ -0,0 +1,130 @@
+/**
+ * TaskPilot Status Bar Items
+ * statusBarを指定したメニューアイテムをステータスバーのボタンとして表示する
+ */
+
+import * as vscode from 'vscode';
+import { MenuItem, StatusBarOptions } from './types';
+import { ConfigManager } from './config-manager';
+import { MenuRunner } from './menu-runner';
+import { RUN_COMMAND } from './item-commands';
+import { flattenMenu } from './menu-tree';
+
+/** 実行中に表示するアイコン */
+const RUNNING_ICON = '$(sync~spin)';
+
+/**
+ * ステータスバーボタン
+ */
+interface StatusBarButton {
+    /** ステータスバーアイテム */
+    statusBarItem: vscode.StatusBarItem;
+    /** ルートからのラベル */
+    labelPath: string[];
+    /** 通常時の表示テキスト */
+    text: string;
+}
+
+/**
+ * StatusBarItems - ステータスバーボタンの管理クラス
+ * 設定の変更ごとにボタンを作り直し、実行中はスピナーを表示する
+ */
+export class StatusBarItems implements vscode.Disposable {
+    private buttons: StatusBarButton[] = [];
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly configManager: ConfigManager,
+        private readonly menuRunner: MenuRunner
+    ) {
+        this.disposables.push(
+            configManager.onConfigChanged(() => this.update()),
+            menuRunner.onDidChangeRunning(() => this.updateRunning())
+        );
+        this.update();
+    }
+
+    /**
+     * 現在の設定からボタンを作り直す
+     */
+    update(): void {
+        this.disposeButtons();
+
+        const config = this.configManager.getConfig();
+        if (!config) {
+            return;
+        }
+
+        this.buttons = flattenMenu(config.menu)
+            .filter(flat => !!flat.item.statusBar)
+            .map(flat => this.createButton(flat.item, flat.labelPath));
+        this.updateRunning();
+    }
+
+    /**
+     * 表示中のボタンのラベルのパスを取得
+     */
+    getLabelPaths(): string[][] {
+        return this.buttons.map(button => button.labelPath);
+    }
+
+    /**
+     * ステータスバーアイテムを作成
+     */
+    private createButton(item: MenuItem, labelPath: string[]): StatusBarButton {
+        const options: StatusBarOptions = typeof item.statusBar === 'object' ? item.statusBar : {};
+        const alignment = options.alignment === 'right'
+            ? vscode.StatusBarAlignment.Right
+            : vscode.StatusBarAlignment.Left;
+        const statusBarItem = vscode.window.createStatusBarItem(alignment, options.priority);
+
+        const text = options.text ?? (item.icon ? `${item.icon} ${item.label}` : item.label);
+        statusBarItem.text = text;
+        statusBarItem.tooltip = options.tooltip ?? item.description ?? labelPath.join(' > ');
+        if (options.color) {
+            statusBarItem.color = options.color.startsWith('#') ? options.color : new vscode.ThemeColor(options.color);
+        }
+        statusBarItem.command = {
+            title: item.label,
+            command: RUN_COMMAND,
+            arguments: [labelPath]
+        };
+        statusBarItem.show();
+
+        return { statusBarItem, labelPath, text };
+    }
+
+    /**
+     * 実行中のボタンにスピナーを表示
+     */
+    private updateRunning(): void {
+        for (const button of this.buttons) {
+            button.statusBarItem.text = this.menuRunner.isRunning(button.labelPath)
+                ? `${RUNNING_ICON} ${stripIcons(button.text)}`
+                : button.text;
+        }
+    }
+
+    /**
+     * ボタンを破棄
+     */
+    private disposeButtons(): void {
+        this.buttons.forEach(button => button.statusBarItem.dispose());
+        this.buttons = [];
+    }
+
+    /**
+     * リソースを解放
+     */
+    dispose(): void {
+        this.disposeButtons();
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+/**
+ * テキストからCodicon（`$(name)`）を除去
+ */
+function stripIcons(text: string): string {
+    return text.replace(/\$\([\w~-]+\)\s*/g, '').trim();
+}
@@ -0,0 +1,322 @@
+/**
+ * TaskPilot Task Importer
+ * ワークスペースのtasks.json・launch.jsonから`commands`とカテゴリ分けした`menu`を作成し、既存の設定にマージする
+ */
+
+import * as vscode from 'vscode';
+import { isDeepStrictEqual } from 'util';
+import { ConfigManager } from './config-manager';
+import { ConfigEditor } from './config-editor';
+import { CommandDefinition, MenuConfig } from './types';
+import { parseMenuConfig } from './yaml-parser';
+import { generateYaml } from './yaml-generator';
+import { tryPatchYaml } from './yaml-patch';
+import { confirmSave } from './save-preview';
+
+/** インポートコマンドID */
+export const IMPORT_TASKS_COMMAND = 'taskPilot.importTasks';
+
+/** launch.jsonの構成を名前で開始するコマンドID */
+export const START_DEBUGGING_COMMAND = 'taskPilot.startDebugging';
+
+/**
+ * インポートする項目
+ */
+export interface ImportEntry {
+    /** 読み込んだファイル */
+    source: 'tasks.json' | 'launch.json';
+    /** メニュー項目のラベル（タスクのラベル・構成名） */
+    label: string;
+    /** 追加先のカテゴリ */
+    category: ImportCategory;
+    /** 追加するコマンド定義 */
+    command: CommandDefinition;
+}
+
+/**
+ * 追加先のカテゴリ（トップレベルのメニュー項目）
+ */
+export interface ImportCategory {
+    label: string;
+    icon: string;
+}
+
+/** タスクのグループ（tasks.jsonの`group`）ごとのカテゴリ */
+const TASK_CATEGORIES: Record<string, ImportCategory> = {
+    build: { label: 'Build', icon: '$(tools)' },
+    rebuild: { label: 'Build', icon: '$(tools)' },
+    clean: { label: 'Build', icon: '$(tools)' },
+    test: { label: 'Test', icon: '$(beaker)' }
+};
+
+/** グループのないタスクのカテゴリ */
+const DEFAULT_TASK_CATEGORY: ImportCategory = { label: 'Tasks', icon: '$(checklist)' };
+
+/** launch.jsonの構成のカテゴリ */
+const DEBUG_CATEGORY: ImportCategory = { label: 'Debug', icon: '$(debug-alt)' };
+
+/**
+ * TaskImporter - tasks.json・launch.jsonのインポート
+ * 設定ファイルは変更箇所だけを書き換える（コメント・書式を保持）
+ */
+export class TaskImporter implements vscode.Disposable {
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly configManager: ConfigManager) {
+        this.disposables.push(
+            vscode.commands.registerCommand(IMPORT_TASKS_COMMAND, () => this.importTasks()),
+            vscode.commands.registerCommand(
+                START_DEBUGGING_COMMAND,
+                (name?: string, folderPath?: string) => startDebugging(name, folderPath)
+            )
+        );
+    }
+
+    /**
+     * 選択したタスク・構成を設定ファイル（最初のワークスペースフォルダ）にインポート
+     */
+    async importTasks(): Promise<void> {
+        const target = this.configManager.getConfigTargets()[0];
+        if (!target) {
+            vscode.window.showErrorMessage(`TaskPilot: ${vscode.l10n.t('No workspace folder open')}`);
+            return;
+        }
+
+        const entries = createImportEntries(
+            readWorkspaceSetting('tasks', 'tasks', target.folder),
+            readWorkspaceSetting('launch', 'configurations', target.folder)
+        );
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage(`TaskPilot: ${vscode.l10n.t('No tasks or launch configurations found in the workspace')}`);
+            return;
+        }
+
+        // launch.jsonの構成は任意（既定では選択しない）
+        const selected = await vscode.window.showQuickPick(
+            entries.map(entry => ({
+                label: entry.label,
+                description: entry.source,
+                detail: entry.category.label,
+                picked: entry.source === 'tasks.json',
+                entry
+            })),
+            {
+                canPickMany: true,
+                placeHolder: vscode.l10n.t('Select tasks and launch configurations to import'),
+                title: `TaskPilot: ${vscode.l10n.t('Import Tasks')}`
+            }
+        );
+        if (!selected || selected.length === 0) {
+            return;
+        }
+
+        const uri = vscode.Uri.file(target.configPath);
+        try {
+            const original = await readFile(uri);
+            const config = original === undefined
+                ? { version: '1.0', menu: [] }
+                : parseMenuConfig(original, target.configPath);
+
+            // includeされたファイルのコマンドとも名前・内容の重複を避ける
+            const editor = new ConfigEditor();
+            const result = mergeImportEntries(
+                config,
+                selected.map(item => item.entry),
+                editor,
+                this.configManager.getWorkspaceConfig()?.commands
+            );
+            editor.dispose();
+
+            if (result.added.length === 0) {
+                vscode.window.showInformationMessage(`TaskPilot: ${vscode.l10n.t('The selected entries are already in the configuration')}`);
+                return;
+            }
+
+            // 既存のファイルは差分を確認してから書き込む（全体を生成し直す場合は警告する）
+            const patched = original === undefined ? undefined : tryPatchYaml(original, result.config);
+            const content = patched ?? generateYaml(result.config);
+            if (original !== undefined && !(await confirmSave(uri, content, patched === undefined))) {
+                return;
+            }
+            await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(content));
+            await this.configManager.reloadConfig();
+
+            const openLabel = vscode.l10n.t('Open File');
+            const choice = await vscode.window.showInformationMessage(
+                `TaskPilot: ${vscode.l10n.t('Imported {0} entries into {1}', result.added.length, vscode.workspace.asRelativePath(uri))}`,
+                openLabel
+            );
+            if (choice === openLabel) {
+                await vscode.window.showTextDocument(uri);
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`TaskPilot: ${vscode.l10n.t('Failed to import tasks: {0}', message)}`);
+        }
+    }
+
+    /**
+     * リソースを解放
+     */
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+/**
+ * tasks.jsonのタスクとlaunch.jsonの構成からインポートする項目を作成
+ * ラベルのないタスク・名前のない構成は対象外
+ * @param tasks tasks.jsonの`tasks`
+ * @param configurations launch.jsonの`configurations`
+ */
+export function createImportEntries(tasks: unknown[], configurations: unknown[]): ImportEntry[] {
+    const entries: ImportEntry[] = [];
+
+    for (const task of tasks.filter(isObject)) {
+        // npmタスクなどはラベルを省略すると「npm: build」の名前になる
+        const label = typeof task.label === 'string'
+            ? task.label
+            : typeof task.type === 'string' && typeof task.script === 'string' ? `${task.type}: ${task.script}` : undefined;
+        if (!label) {
+            continue;
+        }
+
+        const group = isObject(task.group) ? task.group.kind : task.group;
+        const command: CommandDefinition = { type: 'task', command: label };
+        if (typeof task.detail === 'string' && task.detail) {
+            command.description = task.detail;
+        }
+        entries.push({
+            source: 'tasks.json',
+            label,
+            category: (typeof group === 'string' && TASK_CATEGORIES[group]) || DEFAULT_TASK_CATEGORY,
+            command
+        });
+    }
+
+    for (const configuration of configurations.filter(isObject)) {
+        if (typeof configuration.name !== 'string' || !configuration.name) {
+            continue;
+        }
+        entries.push({
+            source: 'launch.json',
+            label: configuration.name,
+            category: DEBUG_CATEGORY,
+            // 構成の内容は実行時にlaunch.jsonから読み込む（インポート後の変更も反映される）
+            command: { type: 'vscodeCommand', command: START_DEBUGGING_COMMAND, args: [configuration.name, '${workspaceFolder}'] }
+        });
+    }
+
+    return entries;
+}
+
+/**
+ * インポートする項目を設定にマージ
+ * - 各項目はコマンドとして追加し、カテゴリ（既存の同名のカテゴリまたは末尾に追加）に`ref`で追加する
+ * - 同じ内容のコマンドが既にある項目は追加しない（繰り返しインポートしても重複しない）
+ * @param config マージ先の設定
+ * @param entries インポートする項目
+ * @param editor 設定の編集に使用するConfigEditor
+ * @param existingCommands 設定以外の既存のコマンド（includeされたファイル等）
+ * @returns マージした設定と追加した項目
+ */
+export function mergeImportEntries(
+    config: MenuConfig,
+    entries: ImportEntry[],
+    editor: ConfigEditor,
+    existingCommands: Record<string, CommandDefinition> = {}
+): { config: MenuConfig; added: ImportEntry[] } {
+    let result = config;
+    const added: ImportEntry[] = [];
+
+    for (const entry of entries) {
+        const commands = { ...existingCommands, ...result.commands };
+        if (Object.values(commands).some(command => isDeepStrictEqual(normalize(command), normalize(entry.command)))) {
+            continue;
+        }
+
+        const name = toCommandName(entry.label, commands);
+        result = editor.addCommand(result, name, entry.command);
+
+        let categoryIndex = result.menu.findIndex(item => item.label === entry.category.label && Array.isArray(item.children));
+        if (categoryIndex < 0) {
+            result = editor.addMenuItem(result, { label: entry.category.label, icon: entry.category.icon, children: [] });
+            categoryIndex = result.menu.length - 1;
+        }
+        const childCount = result.menu[categoryIndex].children?.length ?? 0;
+        result = editor.addMenuItem(result, { label: entry.label, ref: name }, [categoryIndex, childCount]);
+        added.push(entry);
+    }
+
+    return { config: result, added };
+}
+
+/**
+ * ラベルからコマンド名を作成（既存の名前と重複する場合は連番を付ける）
+ * @example "npm: build" → "npm-build"
+ */
+export function toCommandName(label: string, commands: Record<string, unknown>): string {
+    const base = label
+        .toLowerCase()
+        .replace(/[^\w.-]+/g, '-')
+        .replace(/^-+|-+$/g, '') || 'task';
+
+    let name = base;
+    for (let i = 2; Object.prototype.hasOwnProperty.call(commands, name); i++) {
+        name = `${base}-${i}`;
+    }
+    return name;
+}
+
+/**
+ * launch.jsonの構成を名前で開始
+ * @param name 構成名
+ * @param folderPath 構成のあるワークスペースフォルダのパス（省略時は最初のフォルダ）
+ */
+export async function startDebugging(name?: string, folderPath?: string): Promise<void> {
+    if (!name) {
+        vscode.window.showErrorMessage(`TaskPilot: ${vscode.l10n.t('Specify the name of a launch configuration')}`);
+        return;
+    }
+    const folder = folderPath
+        ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(folderPath))
+        : vscode.workspace.workspaceFolders?.[0];
+    // 構成の名前が変わった・削除された場合はfalseが返る
+    if (!(await vscode.debug.startDebugging(folder, name))) {
+        vscode.window.showErrorMessage(`TaskPilot: ${vscode.l10n.t('Could not start the launch configuration "{0}". Check that it still exists in launch.json.', name)}`);
+    }
+}
+
+/**
+ * ワークスペース（フォルダ）のtasks.json・launch.jsonの設定値を取得（ユーザー設定は含まない）
+ */
+function readWorkspaceSetting(section: 'tasks' | 'launch', key: string, folder: vscode.WorkspaceFolder): unknown[] {
+    const inspected = vscode.workspace.getConfiguration(section, folder.uri).inspect<unknown[]>(key);
+    const value = inspected?.workspaceFolderValue ?? inspected?.workspaceValue;
+    return Array.isArray(value) ? value : [];
+}
+
+/**
+ * ファイルの内容を読み込み（存在しない場合はundefined）
+ */
+async function readFile(uri: vscode.Uri): Promise<string | undefined> {
+    try {
+        return new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * オブジェクト（JSONのオブジェクト）かどうか
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * undefinedのプロパティを除き、比較できる形に変換
+ */
+function normalize(value: unknown): unknown {
+    return JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,131 @@
+/**
+ * TaskPilot Terminal Options
+ * アクションのシェル・表示設定を vscode.TerminalOptions に変換する
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ResolvedAction } from './types';
+
+/**
+ * ターミナルプロファイルの解決エラー
+ */
+export class TerminalProfileError extends Error {
+    constructor(
+        message: string,
+        public readonly profile: string
+    ) {
+        super(message);
+        this.name = 'TerminalProfileError';
+    }
+}
+
+/**
+ * terminal.integrated.profiles.* のプロファイル定義（使用する項目のみ）
+ */
+interface TerminalProfile {
+    path?: string | string[];
+    args?: string[] | string;
+    env?: Record<string, string | null>;
+    icon?: string;
+    color?: string;
+}
+
+/**
+ * 現在のOSのプロファイル設定キー
+ */
+function getPlatformKey(): string {
+    switch (process.platform) {
+        case 'win32':
+            return 'windows';
+        case 'darwin':
+            return 'osx';
+        default:
+            return 'linux';
+    }
+}
+
+/**
+ * 名前からターミナルプロファイルを取得
+ * @throws TerminalProfileError プロファイルが見つからない、またはシェルのパスがない場合
+ */
+function getTerminalProfile(name: string): TerminalProfile & { path: string } {
+    const profiles = vscode.workspace
+        .getConfiguration('terminal.integrated.profiles')
+        .get<Record<string, TerminalProfile | null>>(getPlatformKey());
+    const profile = profiles?.[name];
+    if (!profile) {
+        throw new TerminalProfileError(`Unknown terminal profile "${name}"`, name);
+    }
+
+    // pathが配列の場合は存在する最初のパスを使用
+    const paths = Array.isArray(profile.path) ? profile.path : profile.path ? [profile.path] : [];
+    const shellPath = paths.find(p => fs.existsSync(p)) ?? paths[0];
+    if (!shellPath) {
+        throw new TerminalProfileError(`Terminal profile "${name}" has no "path"`, name);
+    }
+
+    return { ...profile, path: shellPath };
+}
+
+/**
+ * アイコン指定をThemeIconまたはファイルのUriに変換
+ */
+function toIconPath(iconPath: string, workspaceFolder?: string): vscode.ThemeIcon | vscode.Uri {
+    if (/[\\/]/.test(iconPath) || /\.(svg|png)$/i.test(iconPath)) {
+        return vscode.Uri.file(workspaceFolder ? path.resolve(workspaceFolder, iconPath) : iconPath);
+    }
+    return new vscode.ThemeIcon(iconPath);
+}
+
+/**
+ * アクションからターミナルの作成オプションを作成
+ * 明示的な指定（shell・shellArgs・iconPath・color）はterminalProfileの値より優先する
+ * @param name ターミナル名
+ * @param action 実行するアクション（cwd・env・シェル・表示設定を使用）
+ * @throws TerminalProfileError terminalProfileを解決できない場合
+ */
+export function createTerminalOptions(name: string, action?: ResolvedAction): vscode.TerminalOptions {
+    const options: vscode.TerminalOptions = { name };
+    if (!action) {
+        return options;
+    }
+
+    const profile = action.terminalProfile ? getTerminalProfile(action.terminalProfile) : undefined;
+
+    if (action.cwd) {
+        options.cwd = action.cwd;
+    }
+
+    const shellPath = action.shell ?? profile?.path;
+    if (shellPath) {
+        options.shellPath = shellPath;
+    }
+    const shellArgs = action.shellArgs ?? (action.shell ? undefined : profile?.args);
+    if (shellArgs !== undefined) {
+        options.shellArgs = shellArgs;
+    }
+
+    if (profile?.env || action.env) {
+        options.env = { ...profile?.env, ...action.env };
+    }
+
+    const icon = action.iconPath ?? profile?.icon;
+    if (icon) {
+        options.iconPath = toIconPath(icon, action.workspaceFolder);
+    }
+
+    const color = action.color ?? profile?.color;
+    if (color) {
+        options.color = new vscode.ThemeColor(color);
+    }
+
+    if (action.location === 'editor') {
+        options.location = vscode.TerminalLocation.Editor;
+    } else if (action.location === 'panel') {
+        options.location = vscode.TerminalLocation.Panel;
+    }
+
+    return options;
+}
@@ -1,6 +1,9 @@
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as sinon from 'sinon';
 import * as vscode from 'vscode';
-import { ActionExecutor } from '../../action-executor';
+import { ActionExecutor, CommandExitError, findTask } from '../../action-executor';
 import { ResolvedAction } from '../../types';
 
 suite('ActionExecutor Test Suite', () => {
@@ -80,6 +83,19 @@ suite('ActionExecutor Test Suite', () => {
             const terminal = vscode.window.terminals.find(t => t.name === 'CwdTest');
             assert.ok(terminal, 'Terminal with cwd should be created');
         });
+
+        test('should pass env when creating the terminal', async () => {
+            await executor.execute({
+                type: 'terminal',
+                command: 'echo $TASKPILOT_TEST',
+                terminal: 'EnvTest',
+                env: { TASKPILOT_TEST: 'terminal' }
+            });
+
+            const terminal = vscode.window.terminals.find(t => t.name === 'EnvTest');
+            const options = terminal?.creationOptions as vscode.TerminalOptions | undefined;
+            assert.deepStrictEqual(options?.env, { TASKPILOT_TEST: 'terminal' });
+        });
     });
 
     suite('VS Code Command Actions', () => {
@@ -153,6 +169,63 @@ suite('ActionExecutor Test Suite', () => {
                 assert.ok(error instanceof Error);
             }
         });
+
+        /**
+         * テスト用のタスクを作成
+         */
+        function fakeTask(name: string, source: string, type: string, group?: string, isDefault?: boolean): vscode.Task {
+            return {
+                name,
+                source,
+                definition: { type },
+                group: group ? { id: group, isDefault } : undefined,
+                isBackground: false
+            } as unknown as vscode.Task;
+        }
+
+        test('should match tasks by name, source, type and group', () => {
+            const tasks = [
+                fakeTask('build', 'Workspace', 'shell', 'build'),
+                fakeTask('build', 'npm', 'npm'),
+                fakeTask('compile', 'Workspace', 'shell', 'build', true),
+                fakeTask('test', 'Workspace', 'process', 'test')
+            ];
+
+            assert.strictEqual(findTask(tasks, { type: 'task', command: 'build' }), tasks[0]);
+            assert.strictEqual(findTask(tasks, { type: 'task', command: 'build', taskSource: 'npm' }), tasks[1]);
+            assert.strictEqual(findTask(tasks, { type: 'task', taskGroup: 'build' }), tasks[2], 'should prefer the default task');
+            assert.strictEqual(findTask(tasks, { type: 'task', taskGroup: 'test', taskType: 'process' }), tasks[3]);
+            assert.strictEqual(findTask(tasks, { type: 'task', taskGroup: 'test', taskType: 'shell' }), undefined);
+        });
+
+        test('should wait for the task to end and record its exit code', async () => {
+            const sandbox = sinon.createSandbox();
+            const endProcess = new vscode.EventEmitter<vscode.TaskProcessEndEvent>();
+            const tasks = [fakeTask('build', 'Workspace', 'shell'), fakeTask('test', 'Workspace', 'shell')];
+            sandbox.stub(vscode.tasks, 'fetchTasks').resolves(tasks);
+            sandbox.stub(vscode.tasks, 'onDidEndTaskProcess').value(endProcess.event);
+            const executeTask = sandbox.stub(vscode.tasks, 'executeTask').callsFake(async task => {
+                const execution = { task, terminate: () => undefined } as vscode.TaskExecution;
+                setTimeout(() => endProcess.fire({ execution, exitCode: task.name === 'build' ? 0 : 2 }), 10);
+                return execution;
+            });
+
+            try {
+                const result = await executor.executeMultiple([
+                    { type: 'task', command: 'build' },
+                    { type: 'task', command: 'test' },
+                    { type: 'task', command: 'build' }
+                ]);
+
+                assert.strictEqual(result.success, false);
+                assert.strictEqual(result.failedIndex, 1);
+                assert.deepStrictEqual(result.exitCodes, [0, 2, undefined]);
+                assert.strictEqual(executeTask.callCount, 2);
+            } finally {
+                sandbox.restore();
+                endProcess.dispose();
+            }
+        });
     });
 
     suite('Error Handling', () => {
@@ -521,6 +594,276 @@ suite('ActionExecutor Test Suite', () => {
         });
     });
 
+    suite('Shell Integration Exit Codes', () => {
+        let sandbox: sinon.SinonSandbox;
+        let endExecution: vscode.EventEmitter<vscode.TerminalShellExecutionEndEvent>;
+        let executedCommands: string[];
+
+        /**
+         * シェル統合付きのターミナルを作成するようスタブ
+         * @param exitCodes コマンドごとの終了コード
+         */
+        function stubShellIntegration(exitCodes: Record<string, number>): void {
+            const terminal = {
+                name: 'ExitCodeTest',
+                show: () => undefined,
+                sendText: () => assert.fail('sendText should not be used with shell integration'),
+                shellIntegration: {
+                    executeCommand: (command: string) => {
+                        executedCommands.push(command);
+                        const execution = { commandLine: { value: command } };
+                        setTimeout(() => endExecution.fire({
+                            terminal,
+                            shellIntegration: terminal.shellIntegration,
+                            execution,
+                            exitCode: exitCodes[command]
+                        } as unknown as vscode.TerminalShellExecutionEndEvent), 0);
+                        return execution;
+                    }
+                }
+            } as unknown as vscode.Terminal;
+
+            sandbox.stub(vscode.window, 'terminals').value([]);
+            sandbox.stub(vscode.window, 'createTerminal').returns(terminal);
+            sandbox.stub(vscode.window, 'onDidEndTerminalShellExecution').value(endExecution.event);
+        }
+
+        setup(() => {
+            sandbox = sinon.createSandbox();
+            endExecution = new vscode.EventEmitter<vscode.TerminalShellExecutionEndEvent>();
+            executedCommands = [];
+        });
+
+        teardown(() => {
+            sandbox.restore();
+            endExecution.dispose();
+        });
+
+        test('should stop the sequence on non-zero exit code', async () => {
+            stubShellIntegration({ 'npm test': 1, 'npm run build': 0 });
+
+            const result = await executor.executeMultiple([
+                { type: 'terminal', command: 'npm test', terminal: 'ExitCodeTest' },
+                { type: 'terminal', command: 'npm run build', terminal: 'ExitCodeTest' }
+            ]);
+
+            assert.strictEqual(result.success, false);
+            assert.strictEqual(result.failedIndex, 0);
+            assert.strictEqual(result.completedCount, 0);
+            assert.ok(result.error instanceof CommandExitError);
+            assert.strictEqual((result.error as CommandExitError).exitCode, 1);
+            assert.deepStrictEqual(result.exitCodes, [1, undefined]);
+            assert.deepStrictEqual(executedCommands, ['npm test']);
+        });
+
+        test('should run each command separately and record exit codes', async () => {
+            stubShellIntegration({ lint: 0, test: 0 });
+
+            const result = await executor.executeMultiple([
+                { type: 'terminal', command: 'lint', terminal: 'ExitCodeTest' },
+                { type: 'terminal', command: 'test', terminal: 'ExitCodeTest' }
+            ]);
+
+            assert.strictEqual(result.success, true);
+            assert.strictEqual(result.completedCount, 2);
+            assert.deepStrictEqual(result.exitCodes, [0, 0]);
+            assert.deepStrictEqual(executedCommands, ['lint', 'test']);
+        });
+
+        test('should record failures and continue when continueOnError is true', async () => {
+            stubShellIntegration({ 'npm test': 2, 'npm run build': 0 });
+
+            const result = await executor.executeMultiple([
+                { type: 'terminal', command: 'npm test', terminal: 'ExitCodeTest' },
+                { type: 'terminal', command: 'npm run build', terminal: 'ExitCodeTest' }
+            ], { continueOnError: true });
+
+            assert.strictEqual(result.success, false);
+            assert.strictEqual(result.completedCount, 2);
+            assert.strictEqual(result.errors!.length, 1);
+            assert.strictEqual(result.errors![0].index, 0);
+            assert.strictEqual(result.errors![0].exitCode, 2);
+            assert.deepStrictEqual(result.exitCodes, [2, 0]);
+        });
+    });
+
+    suite('Terminal Policy', () => {
+        let sandbox: sinon.SinonSandbox;
+        let created: { name: string; sent: string[]; disposed: boolean }[];
+        let executeCommand: sinon.SinonStub;
+
+        setup(() => {
+            sandbox = sinon.createSandbox();
+            created = [];
+            sandbox.stub(vscode.window, 'terminals').value([]);
+            // シェル統合を待たずにsendTextで実行させる
+            sandbox.stub(vscode.window, 'onDidChangeTerminalShellIntegration').value(undefined);
+            sandbox.stub(vscode.window, 'createTerminal').callsFake(((options: vscode.TerminalOptions) => {
+                const record = { name: options.name!, sent: [] as string[], disposed: false };
+                created.push(record);
+                return {
+                    name: options.name,
+                    show: () => undefined,
+                    sendText: (text: string) => record.sent.push(text),
+                    dispose: () => { record.disposed = true; }
+                } as unknown as vscode.Terminal;
+            }) as typeof vscode.window.createTerminal);
+            executeCommand = sandbox.stub(vscode.commands, 'executeCommand').resolves(undefined);
+        });
+
+        teardown(() => {
+            sandbox.restore();
+        });
+
+        test('reuse should send to the same terminal', async () => {
+            await executor.execute({ type: 'terminal', command: 'a', terminal: 'PolicyReuse' });
+            await executor.execute({ type: 'terminal', command: 'b', terminal: 'PolicyReuse', terminalPolicy: 'reuse' });
+
+            assert.strictEqual(created.length, 1);
+            assert.deepStrictEqual(created[0].sent, ['a', 'b']);
+        });
+
+        test('new should create a terminal each time and reuse the newest', async () => {
+            await executor.execute({ type: 'terminal', command: 'a', terminal: 'PolicyNew', terminalPolicy: 'new' });
+            await executor.execute({ type: 'terminal', command: 'b', terminal: 'PolicyNew', terminalPolicy: 'new' });
+            await executor.execute({ type: 'terminal', command: 'c', terminal: 'PolicyNew' });
+
+            assert.strictEqual(created.length, 2);
+            assert.deepStrictEqual(created.map(t => t.sent), [['a'], ['b', 'c']]);
+            assert.strictEqual(created[0].disposed, false);
+        });
+
+        test('restart should dispose the existing terminal', async () => {
+            await executor.execute({ type: 'terminal', command: 'npm run dev', terminal: 'PolicyRestart' });
+            await executor.execute({ type: 'terminal', command: 'npm run dev', terminal: 'PolicyRestart', terminalPolicy: 'restart' });
+
+            assert.strictEqual(created.length, 2);
+            assert.strictEqual(created[0].disposed, true);
+            assert.strictEqual(created[1].disposed, false);
+        });
+
+        test('clear-before should clear the terminal before sending', async () => {
+            await executor.execute({ type: 'terminal', command: 'a', terminal: 'PolicyClear', terminalPolicy: 'clear-before' });
+
+            assert.ok(executeCommand.calledWith('workbench.action.terminal.clear'));
+            assert.deepStrictEqual(created[0].sent, ['a']);
+        });
+
+        test('dedicated-per-run should use numbered terminals not shared with other runs', async () => {
+            await executor.execute({ type: 'terminal', command: 'a', terminal: 'PolicyDedicated', terminalPolicy: 'dedicated-per-run' });
+            await executor.execute({ type: 'terminal', command: 'b', terminal: 'PolicyDedicated', terminalPolicy: 'dedicated-per-run' });
+            await executor.execute({ type: 'terminal', command: 'c', terminal: 'PolicyDedicated' });
+
+            assert.deepStrictEqual(created.map(t => t.name), ['PolicyDedicated #1', 'PolicyDedicated #2', 'PolicyDedicated']);
+        });
+
+        test('grouped actions should create a single terminal for the group', async () => {
+            await executor.execute({ type: 'terminal', command: 'old', terminal: 'PolicyGroup' });
+
+            const result = await executor.executeMultiple([
+                { type: 'terminal', command: 'lint', terminal: 'PolicyGroup', terminalPolicy: 'restart' },
+                { type: 'terminal', command: 'test', terminal: 'PolicyGroup', terminalPolicy: 'restart' }
+            ]);
+
+            assert.strictEqual(result.success, true);
+            assert.strictEqual(created.length, 2);
+            assert.strictEqual(created[0].disposed, true);
+            assert.deepStrictEqual(created[1].sent, ['lint && test']);
+        });
+    });
+
+    suite('Process Execution', () => {
+        let sandbox: sinon.SinonSandbox;
+        let output: string;
+
+        /**
+         * nodeでスクリプトを実行するコマンドを作成
+         */
+        function nodeCommand(script: string): string {
+            return `${JSON.stringify(process.execPath)} -e ${JSON.stringify(script)}`;
+        }
+
+        setup(() => {
+            sandbox = sinon.createSandbox();
+            output = '';
+            const channel = {
+                append: (value: string) => { output += value; },
+                appendLine: (value: string) => { output += `${value}\n`; },
+                show: () => undefined,
+                dispose: () => undefined
+            };
+            sandbox.stub(vscode.window, 'createOutputChannel').value(() => channel);
+        });
+
+        teardown(() => {
+            sandbox.restore();
+        });
+
+        test('should stream stdout and stderr to the output channel', async () => {
+            await executor.execute({
+                type: 'process',
+                command: nodeCommand('console.log("out"); console.error("err")')
+            });
+
+            assert.ok(output.includes('out\n'));
+            assert.ok(output.includes('err\n'));
+            assert.ok(output.includes('[exit code 0]'));
+        });
+
+        test('should pass env and cwd to the process', async () => {
+            await executor.execute({
+                type: 'process',
+                command: nodeCommand('console.log(process.env.TASKPILOT_TEST + ":" + process.cwd())'),
+                cwd: os.tmpdir(),
+                env: { TASKPILOT_TEST: 'hello' }
+            });
+
+            assert.ok(output.includes(`hello:${fs.realpathSync(os.tmpdir())}`));
+        });
+
+        test('should throw CommandExitError on non-zero exit code', async () => {
+            await assert.rejects(
+                executor.execute({ type: 'process', command: nodeCommand('process.exit(3)') }),
+                (err: unknown) => err instanceof CommandExitError && err.exitCode === 3
+            );
+        });
+
+        test('should kill the process after timeout', async () => {
+            await assert.rejects(
+                executor.execute({ type: 'process', command: nodeCommand('setTimeout(() => {}, 10000)'), timeout: 0.2 }),
+                /timed out after 0.2 seconds/
+            );
+        });
+
+        test('should wait for each process in a sequence and record exit codes', async () => {
+            const result = await executor.executeMultiple([
+                { type: 'process', command: nodeCommand('console.log("first")') },
+                { type: 'process', command: nodeCommand('process.exit(2)') },
+                { type: 'process', command: nodeCommand('console.log("third")') }
+            ]);
+
+            assert.strictEqual(result.success, false);
+            assert.strictEqual(result.failedIndex, 1);
+            assert.strictEqual(result.completedCount, 1);
+            assert.deepStrictEqual(result.exitCodes, [0, 2, undefined]);
+            assert.ok(!output.includes('third'));
+        });
+
+        test('should run a prerequisite group concurrently and stop when one fails', async () => {
+            const result = await executor.executeMultiple([
+                { type: 'process', command: nodeCommand('setTimeout(() => console.log("slow"), 200)'), dependency: 'slow', dependencyGroup: 1 },
+                { type: 'process', command: nodeCommand('process.exit(4)'), dependency: 'failing', dependencyGroup: 1 },
+                { type: 'process', command: nodeCommand('console.log("deploy")') }
+            ]);
+
+            assert.strictEqual(result.success, false);
+            assert.strictEqual(result.failedIndex, 1);
+            assert.deepStrictEqual(result.exitCodes, [0, 4, undefined]);
+            assert.ok(output.includes('slow'), 'should wait for the whole group');
+            assert.ok(!output.includes('deploy'));
+        });
+    });
+
     suite('Parallel Terminal Execution', () => {
         test('should create split terminals for parallel actions', async () => {
             const actions: ResolvedAction[] = [
@@ -588,6 +931,15 @@ suite('ActionExecutor Test Suite', () => {
             assert.ok(terminals[0], 'Terminal should be created');
         });
 
+        test('should set env when specified', async () => {
+            const terminals = await executor.executeParallel([
+                { type: 'terminal', command: 'echo $TASKPILOT_TEST', terminal: 'EnvParallel', env: { TASKPILOT_TEST: 'parallel' } }
+            ]);
+
+            const options = terminals[0].creationOptions as vscode.TerminalOptions;
+            assert.deepStrictEqual(options.env, { TASKPILOT_TEST: 'parallel' });
+        });
+
         test('should manage created terminals internally', async () => {
             const actions: ResolvedAction[] = [
                 { type: 'terminal', command: 'echo "managed"', terminal: 'ManagedTerm' }
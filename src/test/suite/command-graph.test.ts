@@ -0,0 +1,90 @@
+/**
+ * CommandGraph のテスト
+ * dependsOnの検証（未定義・循環依存）と実行順の解決のテスト
+ */
+
+import * as assert from 'assert';
+import { validateCommandDependencies, resolveDependencyStages } from '../../command-graph';
+import { CommandDefinition } from '../../types';
+
+/**
+ * dependsOnだけを指定したコマンド定義を作成
+ */
+function commandsOf(graph: Record<string, Partial<CommandDefinition>>): Record<string, CommandDefinition> {
+    const commands: Record<string, CommandDefinition> = {};
+    for (const [name, def] of Object.entries(graph)) {
+        commands[name] = { type: 'terminal', command: `run ${name}`, ...def };
+    }
+    return commands;
+}
+
+suite('CommandGraph Test Suite', () => {
+
+    suite('validateCommandDependencies', () => {
+
+        test('should accept an acyclic graph', () => {
+            const commands = commandsOf({
+                build: {},
+                lint: {},
+                test: { dependsOn: ['build'] },
+                deploy: { dependsOn: ['test', 'lint', 'build'] }
+            });
+
+            assert.deepStrictEqual(validateCommandDependencies(commands), []);
+            assert.deepStrictEqual(validateCommandDependencies(undefined), []);
+        });
+
+        test('should report unknown commands', () => {
+            const errors = validateCommandDependencies(commandsOf({ deploy: { dependsOn: ['build'] } }));
+
+            assert.deepStrictEqual(errors, [{ message: 'Unknown command "build"', path: 'commands.deploy.dependsOn' }]);
+        });
+
+        test('should report each cycle once with its path', () => {
+            const errors = validateCommandDependencies(commandsOf({
+                build: { dependsOn: ['test'] },
+                test: { dependsOn: ['build'] },
+                deploy: { dependsOn: ['build'] },
+                self: { dependsOn: ['self'] }
+            }));
+
+            assert.deepStrictEqual(errors, [
+                { message: 'Circular dependency: build -> test -> build', path: 'commands.build.dependsOn' },
+                { message: 'Circular dependency: self -> self', path: 'commands.self.dependsOn' }
+            ]);
+        });
+    });
+
+    suite('resolveDependencyStages', () => {
+
+        const commands = commandsOf({
+            generate: {},
+            build: { dependsOn: ['generate'] },
+            lint: { dependsOn: ['generate'] },
+            deploy: { dependsOn: ['build', 'lint'] },
+            release: { dependsOn: ['build', 'lint'], dependsOrder: 'parallel' }
+        });
+
+        test('should order prerequisites depth-first and run shared ones once', () => {
+            assert.deepStrictEqual(resolveDependencyStages(commands, 'deploy'), [['generate'], ['build'], ['lint']]);
+            assert.deepStrictEqual(resolveDependencyStages(commands, 'generate'), []);
+        });
+
+        test('should group parallel prerequisites after their own prerequisites', () => {
+            assert.deepStrictEqual(resolveDependencyStages(commands, 'release'), [['generate'], ['build', 'lint']]);
+        });
+
+        test('should skip commands that are already done and record resolved ones', () => {
+            const done = new Set(['build']);
+
+            assert.deepStrictEqual(resolveDependencyStages(commands, 'deploy', done), [['generate'], ['lint']]);
+            assert.deepStrictEqual([...done].sort(), ['build', 'generate', 'lint']);
+        });
+
+        test('should not recurse forever on cycles', () => {
+            const cyclic = commandsOf({ a: { dependsOn: ['b'] }, b: { dependsOn: ['a'] } });
+
+            assert.deepStrictEqual(resolveDependencyStages(cyclic, 'a'), [['b']]);
+        });
+    });
+});
@@ -0,0 +1,113 @@
+/**
+ * ConfigCompletionProvider のテスト
+ * 設定ファイルの値（ref・タスク名・アイコン・コマンドID）の補完のテスト
+ */
+
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { ConfigCompletionProvider, findSiblingValue } from '../../config-completion';
+import { ConfigManager } from '../../config-manager';
+import { MenuConfig } from '../../types';
+
+suite('ConfigCompletionProvider Test Suite', () => {
+    let sandbox: sinon.SinonSandbox;
+    let manager: ConfigManager;
+    let provider: ConfigCompletionProvider;
+
+    const content = [
+        'version: "1.0"',
+        'commands:',
+        '  lint:',
+        '    type: terminal',
+        '    command: npm run lint',
+        '    description: Lint sources',
+        'menu:',
+        '  - label: Lint',
+        '    ref: ',
+        '  - label: Build',
+        '    command: ',
+        '    type: task',
+        '  - icon: $(ro',
+        '    label: Settings',
+        '    type: vscodeCommand',
+        '    command: workbench.',
+        ''
+    ].join('\n');
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+        manager = new ConfigManager();
+        (manager as unknown as { config: MenuConfig }).config = {
+            version: '1.0',
+            commands: { deploy: { type: 'terminal', command: './deploy.sh' } },
+            menu: []
+        };
+        sandbox.stub(manager, 'getConfigFileKind').returns('root');
+        provider = new ConfigCompletionProvider(manager);
+    });
+
+    teardown(() => {
+        provider.dispose();
+        manager.dispose();
+        sandbox.restore();
+    });
+
+    /**
+     * 指定した行の末尾での補完候補のラベル
+     */
+    async function complete(line: number): Promise<string[] | undefined> {
+        const document = await vscode.workspace.openTextDocument({ language: 'yaml', content });
+        const position = new vscode.Position(line, document.lineAt(line).text.length);
+        const items = await provider.provideCompletionItems(document, position);
+        return items?.map(item => item.label as string);
+    }
+
+    test('should complete ref with loaded and edited command names', async () => {
+        assert.deepStrictEqual(await complete(8), ['deploy', 'lint']);
+    });
+
+    test('should complete task names for task commands', async () => {
+        sandbox.stub(vscode.tasks, 'fetchTasks').resolves([
+            { name: 'build', source: 'npm' },
+            { name: 'build', source: 'Workspace' },
+            { name: 'test', source: 'npm' }
+        ] as unknown as vscode.Task[]);
+
+        assert.deepStrictEqual(await complete(10), ['build', 'test']);
+    });
+
+    test('should complete command IDs for vscodeCommand and replace the typed value', async () => {
+        sandbox.stub(vscode.commands, 'getCommands').resolves(['workbench.action.openSettings']);
+        const document = await vscode.workspace.openTextDocument({ language: 'yaml', content });
+        const position = new vscode.Position(15, document.lineAt(15).text.length);
+
+        const items = await provider.provideCompletionItems(document, position);
+
+        assert.deepStrictEqual(items?.map(item => item.label), ['workbench.action.openSettings']);
+        assert.strictEqual((items?.[0].range as vscode.Range).start.character, 13);
+    });
+
+    test('should complete codicons for icon', async () => {
+        const labels = await complete(12);
+
+        assert.ok(labels?.includes('$(rocket)'));
+        assert.ok(labels?.every(label => /^\$\([\w-]+\)$/.test(label)));
+    });
+
+    test('should not complete other keys or files', async () => {
+        assert.strictEqual(await complete(7), undefined);
+
+        (manager.getConfigFileKind as sinon.SinonStub).returns(undefined);
+        assert.strictEqual(await complete(8), undefined);
+    });
+
+    test('should find sibling keys within the same item only', async () => {
+        const document = await vscode.workspace.openTextDocument({ language: 'yaml', content });
+
+        assert.strictEqual(findSiblingValue(document, 10, 'type'), 'task');
+        assert.strictEqual(findSiblingValue(document, 15, 'type'), 'vscodeCommand');
+        assert.strictEqual(findSiblingValue(document, 4, 'type'), 'terminal');
+        assert.strictEqual(findSiblingValue(document, 8, 'type'), undefined);
+    });
+});
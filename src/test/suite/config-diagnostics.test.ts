@@ -0,0 +1,154 @@
+/**
+ * ConfigDiagnostics のテスト
+ * 編集中の設定ファイルの検証結果をDiagnosticとして表示するテスト
+ */
+
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { ConfigDiagnostics, createDiagnostics } from '../../config-diagnostics';
+import { ConfigManager } from '../../config-manager';
+
+/**
+ * YAMLコンテンツのドキュメントを作成
+ */
+function openYaml(content: string): Thenable<vscode.TextDocument> {
+    return vscode.workspace.openTextDocument({ language: 'yaml', content });
+}
+
+/**
+ * Diagnosticの範囲を [行, 開始列, 終了列] に変換（0始まり）
+ */
+function rangeOf(diagnostic: vscode.Diagnostic): number[] {
+    return [diagnostic.range.start.line, diagnostic.range.start.character, diagnostic.range.end.character];
+}
+
+suite('ConfigDiagnostics Test Suite', () => {
+
+    suite('createDiagnostics', () => {
+
+        test('should return no diagnostics for a valid configuration', async () => {
+            const document = await openYaml('version: "1.0"\nmenu:\n  - label: Build\n    type: terminal\n    command: npm run build\n');
+
+            assert.deepStrictEqual(createDiagnostics(document), []);
+        });
+
+        test('should report every validation error at its key', async () => {
+            const document = await openYaml([
+                'version: "1.0"',
+                'menu:',
+                '  - label: Build',
+                '    type: shell',
+                '    command: npm run build',
+                '    comand: typo'
+            ].join('\n'));
+
+            const diagnostics = createDiagnostics(document);
+
+            assert.deepStrictEqual(diagnostics.map(rangeOf), [[3, 4, 8], [5, 4, 10]]);
+            assert.ok(diagnostics[0].message.startsWith('menu[0].type: "type" must be one of'));
+            assert.strictEqual(diagnostics[1].message, 'menu[0].comand: Unknown property "comand"');
+            assert.ok(diagnostics.every(d => d.severity === vscode.DiagnosticSeverity.Error && d.source === 'TaskPilot'));
+        });
+
+        test('should report syntax errors at their position', async () => {
+            const document = await openYaml('version: "1.0"\nmenu:\n  - label: [Build\n');
+
+            const diagnostics = createDiagnostics(document);
+
+            assert.strictEqual(diagnostics.length, 1);
+            assert.ok(!diagnostics[0].message.startsWith('Line'));
+        });
+
+        test('should allow omitting version and menu in included files', async () => {
+            const document = await openYaml('commands:\n  lint:\n    type: terminal\n    command: npm run lint\n');
+
+            assert.deepStrictEqual(createDiagnostics(document, true), []);
+            assert.strictEqual(createDiagnostics(document).length, 2);
+        });
+
+        test('should report unknown and circular dependsOn in root files', async () => {
+            const document = await openYaml([
+                'version: "1.0"',
+                'commands:',
+                '  build:',
+                '    type: terminal',
+                '    command: make',
+                '    dependsOn: [generate, test]',
+                '  test:',
+                '    type: terminal',
+                '    command: make test',
+                '    dependsOn: [build, lint]',
+                'menu: []'
+            ].join('\n'));
+
+            const diagnostics = createDiagnostics(document, false, {
+                lint: { type: 'terminal', command: 'make lint' }
+            });
+
+            assert.deepStrictEqual(diagnostics.map(d => d.message), [
+                'commands.build.dependsOn: Unknown command "generate"',
+                'commands.build.dependsOn: Circular dependency: build -> test -> build'
+            ]);
+            assert.deepStrictEqual(diagnostics.map(rangeOf), [[5, 4, 13], [5, 4, 13]]);
+            // includeされたファイルのコマンド（lint）は定義済みとして扱う
+            assert.strictEqual(createDiagnostics(document).length, 3);
+        });
+    });
+
+    suite('ConfigDiagnostics', () => {
+        let sandbox: sinon.SinonSandbox;
+        let manager: ConfigManager;
+
+        setup(() => {
+            sandbox = sinon.createSandbox();
+            manager = new ConfigManager();
+        });
+
+        teardown(() => {
+            manager.dispose();
+            sandbox.restore();
+        });
+
+        test('should only validate configuration files', () => {
+            const uri = vscode.Uri.file('/workspace/.vscode/task-menu.yaml');
+            const content = 'version: "1.0"\nmenu: {}\n';
+            const document = {
+                uri,
+                lineCount: 2,
+                getText: () => content,
+                lineAt: (line: number) => ({ text: content.split('\n')[line] })
+            } as unknown as vscode.TextDocument;
+            const kind = sandbox.stub(manager, 'getConfigFileKind').returns(undefined);
+            const diagnostics = new ConfigDiagnostics(manager);
+            const collection = (diagnostics as unknown as { diagnostics: vscode.DiagnosticCollection }).diagnostics;
+
+            diagnostics.validate(document);
+            assert.strictEqual(collection.get(uri)?.length ?? 0, 0);
+
+            kind.returns('root');
+            diagnostics.validate(document);
+            assert.strictEqual(collection.get(uri)?.length, 1);
+
+            diagnostics.dispose();
+        });
+
+        test('should validate edited documents once after typing stops', () => {
+            const clock = sandbox.useFakeTimers();
+            const diagnostics = new ConfigDiagnostics(manager);
+            const validate = sandbox.stub(diagnostics, 'validate');
+            const document = { uri: vscode.Uri.file('/workspace/.vscode/task-menu.yaml') } as vscode.TextDocument;
+
+            diagnostics.scheduleValidate(document);
+            clock.tick(100);
+            diagnostics.scheduleValidate(document);
+            clock.tick(299);
+            assert.ok(validate.notCalled);
+
+            clock.tick(1);
+            assert.ok(validate.calledOnceWith(document));
+
+            diagnostics.dispose();
+        });
+    });
+});
@@ -298,6 +298,24 @@ suite('ConfigEditor Test Suite', () => {
             // ref参照も更新される
             assert.strictEqual(result.menu[0].ref, 'newName');
         });
+
+        test('renameCommand - parallelのrefとdependsOnも更新される', () => {
+            const config: MenuConfig = {
+                version: '1.0',
+                commands: {
+                    build: { type: 'terminal', command: 'npm run build' },
+                    deploy: { type: 'terminal', command: './deploy.sh', dependsOn: ['build'] }
+                },
+                menu: [
+                    { label: 'Watch', parallel: [{ ref: 'build' }, { type: 'terminal', command: 'npm run serve' }] }
+                ]
+            };
+
+            const result = editor.renameCommand(config, 'build', 'compile');
+
+            assert.strictEqual(result.menu[0].parallel?.[0].ref, 'compile');
+            assert.deepStrictEqual(result.commands?.deploy.dependsOn, ['compile']);
+        });
     });
 
     suite('バリデーション', () => {
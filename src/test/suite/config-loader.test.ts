@@ -0,0 +1,211 @@
+/**
+ * ConfigLoader のテスト
+ * include による複数YAMLファイルの読み込み・マージのテスト
+ */
+
+import * as assert from 'assert';
+import * as path from 'path';
+import { loadConfig, mergeConfigs, isGlobPattern, ConfigFileSystem } from '../../config-loader';
+import { YamlParseError } from '../../yaml-parser';
+import { MenuConfig } from '../../types';
+
+const root = path.join(path.sep, 'workspace', '.vscode');
+
+/**
+ * メモリ上のファイルシステムを作成
+ * @param files ルートディレクトリからの相対パスとYAML内容
+ */
+function createFileSystem(files: Record<string, string>): ConfigFileSystem {
+    const entries = new Map(
+        Object.entries(files).map(([name, content]) => [path.join(root, name), content])
+    );
+
+    return {
+        async readFile(filePath: string): Promise<string> {
+            const content = entries.get(filePath);
+            if (content === undefined) {
+                throw new Error(`ENOENT: ${filePath}`);
+            }
+            return content;
+        },
+        async findFiles(baseDir: string, pattern: string): Promise<string[]> {
+            // テスト用の簡易グロブ（"*" のみ対応）
+            const regex = new RegExp('^' + pattern.replace(/\./g, '\\.').replace(/\*/g, '[^/]*') + '$');
+            return [...entries.keys()].filter(filePath => {
+                const relative = path.relative(baseDir, filePath).split(path.sep).join('/');
+                return regex.test(relative);
+            });
+        }
+    };
+}
+
+suite('ConfigLoader Test Suite', () => {
+
+    suite('isGlobPattern', () => {
+        test('グロブ文字を含む場合はtrue', () => {
+            assert.strictEqual(isGlobPattern('menus/*.yaml'), true);
+            assert.strictEqual(isGlobPattern('menus/{a,b}.yaml'), true);
+        });
+
+        test('通常のパスはfalse', () => {
+            assert.strictEqual(isGlobPattern('menus/dev.yaml'), false);
+        });
+    });
+
+    suite('mergeConfigs', () => {
+        test('menuは末尾に追加し、同名のcommands/variables/inputsはinclude元を優先', () => {
+            const base: MenuConfig = {
+                version: '1.0',
+                commands: { build: { type: 'terminal', command: 'make' } },
+                variables: { target: 'base' },
+                inputs: [{ id: 'env', type: 'promptString', default: 'base' }],
+                menu: [{ label: 'A', type: 'terminal', command: 'a' }]
+            };
+            const included: MenuConfig = {
+                version: '1.0',
+                commands: {
+                    build: { type: 'terminal', command: 'npm run build' },
+                    test: { type: 'terminal', command: 'npm test' }
+                },
+                variables: { target: 'included', extra: 'x' },
+                inputs: [
+                    { id: 'env', type: 'promptString', default: 'included' },
+                    { id: 'tag', type: 'promptString' }
+                ],
+                menu: [{ label: 'B', type: 'terminal', command: 'b' }]
+            };
+
+            const merged = mergeConfigs(base, included);
+
+            assert.deepStrictEqual(merged.menu.map(item => item.label), ['A', 'B']);
+            assert.strictEqual(merged.commands?.build.command, 'make');
+            assert.strictEqual(merged.commands?.test.command, 'npm test');
+            assert.deepStrictEqual(merged.variables, { target: 'base', extra: 'x' });
+            assert.deepStrictEqual(merged.inputs?.map(input => input.default ?? input.id), ['base', 'tag']);
+        });
+    });
+
+    suite('loadConfig', () => {
+        const configPath = path.join(root, 'task-menu.yaml');
+
+        test('includeしたファイルのmenuとcommandsをマージできる', async () => {
+            const fileSystem = createFileSystem({
+                'task-menu.yaml': `
+version: "1.0"
+include:
+  - shared/commands.yaml
+menu:
+  - label: Build
+    ref: build
+`,
+                'shared/commands.yaml': `
+commands:
+  build:
+    type: terminal
+    command: npm run build
+menu:
+  - label: Shared
+    type: terminal
+    command: echo shared
+`
+            });
+
+            const loaded = await loadConfig(configPath, fileSystem);
+
+            assert.deepStrictEqual(loaded.config.menu.map(item => item.label), ['Build', 'Shared']);
+            assert.strictEqual(loaded.config.commands?.build.command, 'npm run build');
+            assert.deepStrictEqual(loaded.rootConfig.menu.map(item => item.label), ['Build']);
+            assert.strictEqual(loaded.rootConfig.commands, undefined);
+            assert.deepStrictEqual(loaded.files, [configPath, path.join(root, 'shared', 'commands.yaml')]);
+        });
+
+        test('グロブパターンに一致するファイルをパス順に読み込む', async () => {
+            const fileSystem = createFileSystem({
+                'task-menu.yaml': `
+version: "1.0"
+include:
+  - menus/*.yaml
+menu: []
+`,
+                'menus/b.yaml': 'menu:\n  - label: B\n    type: terminal\n    command: b\n',
+                'menus/a.yaml': 'menu:\n  - label: A\n    type: terminal\n    command: a\n'
+            });
+
+            const loaded = await loadConfig(configPath, fileSystem);
+
+            assert.deepStrictEqual(loaded.config.menu.map(item => item.label), ['A', 'B']);
+            assert.deepStrictEqual(loaded.includePatterns, [{ baseDir: root, pattern: 'menus/*.yaml' }]);
+        });
+
+        test('ネストしたincludeはinclude元のディレクトリ基準で解決する', async () => {
+            const fileSystem = createFileSystem({
+                'task-menu.yaml': 'version: "1.0"\ninclude: [menus/dev.yaml]\nmenu: []\n',
+                'menus/dev.yaml': 'include: [docker.yaml]\nmenu:\n  - label: Dev\n    type: terminal\n    command: dev\n',
+                'menus/docker.yaml': 'menu:\n  - label: Docker\n    type: terminal\n    command: docker\n'
+            });
+
+            const loaded = await loadConfig(configPath, fileSystem);
+
+            assert.deepStrictEqual(loaded.config.menu.map(item => item.label), ['Dev', 'Docker']);
+        });
+
+        test('同じファイルを複数経路からincludeしても一度だけ読み込む', async () => {
+            const fileSystem = createFileSystem({
+                'task-menu.yaml': 'version: "1.0"\ninclude: [a.yaml, b.yaml]\nmenu: []\n',
+                'a.yaml': 'include: [common.yaml]\n',
+                'b.yaml': 'include: [common.yaml]\n',
+                'common.yaml': 'menu:\n  - label: Common\n    type: terminal\n    command: c\n'
+            });
+
+            const loaded = await loadConfig(configPath, fileSystem);
+
+            assert.deepStrictEqual(loaded.config.menu.map(item => item.label), ['Common']);
+        });
+
+        test('循環includeはエラー', async () => {
+            const fileSystem = createFileSystem({
+                'task-menu.yaml': 'version: "1.0"\ninclude: [a.yaml]\nmenu: []\n',
+                'a.yaml': 'include: [task-menu.yaml]\n'
+            });
+
+            await assert.rejects(
+                loadConfig(configPath, fileSystem),
+                (err: unknown) => err instanceof YamlParseError &&
+                    err.message.includes('Circular include: task-menu.yaml -> a.yaml -> task-menu.yaml')
+            );
+        });
+
+        test('存在しないincludeファイルはinclude元のファイル名付きでエラー', async () => {
+            const fileSystem = createFileSystem({
+                'task-menu.yaml': 'version: "1.0"\ninclude: [missing.yaml]\nmenu: []\n'
+            });
+
+            await assert.rejects(
+                loadConfig(configPath, fileSystem),
+                (err: unknown) => err instanceof YamlParseError &&
+                    err.file === 'task-menu.yaml' &&
+                    err.message.includes('Included file not found: missing.yaml')
+            );
+        });
+
+        test('includeファイルのバリデーションエラーにファイル名を含める', async () => {
+            const fileSystem = createFileSystem({
+                'task-menu.yaml': 'version: "1.0"\ninclude: [menus/broken.yaml]\nmenu: []\n',
+                'menus/broken.yaml': 'menu:\n  - label: Broken\n    type: terminal\n'
+            });
+
+            await assert.rejects(
+                loadConfig(configPath, fileSystem),
+                (err: unknown) => err instanceof YamlParseError &&
+                    err.file === path.join('menus', 'broken.yaml')
+            );
+        });
+
+        test('ルート設定ファイルが存在しない場合は元のエラーをそのまま投げる', async () => {
+            await assert.rejects(
+                loadConfig(configPath, createFileSystem({})),
+                (err: unknown) => err instanceof Error && !(err instanceof YamlParseError)
+            );
+        });
+    });
+});
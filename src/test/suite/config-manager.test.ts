@@ -9,9 +9,14 @@
  */
 
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { ConfigManager } from '../../config-manager';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { ConfigManager, ConfigTarget, FolderConfig } from '../../config-manager';
 import { MenuItem, MenuConfig } from '../../types';
+import { VariableResolveError } from '../../variable-resolver';
 
 suite('ConfigManager Test Suite', () => {
 
@@ -74,6 +79,29 @@ suite('ConfigManager Test Suite', () => {
             assert.strictEqual(action!.description, 'Start dev server');
         });
 
+        test('should resolve env and timeout for process command', () => {
+            const manager = new ConfigManager();
+            const config: MenuConfig = {
+                version: '1.0',
+                menu: [],
+                commands: {
+                    lint: {
+                        type: 'process',
+                        command: 'npm run lint',
+                        env: { CI: 'true' },
+                        timeout: 60
+                    }
+                }
+            };
+            (manager as unknown as { config: MenuConfig }).config = config;
+
+            const action = manager.resolveAction({ label: 'Lint', ref: 'lint' });
+            assert.ok(action !== null);
+            assert.strictEqual(action!.type, 'process');
+            assert.deepStrictEqual(action!.env, { CI: 'true' });
+            assert.strictEqual(action!.timeout, 60);
+        });
+
         test('should return null for undefined ref', () => {
             const manager = new ConfigManager();
             const config: MenuConfig = {
@@ -1287,3 +1315,561 @@ suite('ConfigPath Resolution Test Suite', () => {
         });
     });
 });
+
+suite('resolveVariables - 変数展開', () => {
+
+    test('should expand custom variables from config', () => {
+        const manager = new ConfigManager();
+        const config: MenuConfig = {
+            version: '1.0',
+            variables: { target: 'staging' },
+            menu: []
+        };
+        (manager as unknown as { config: MenuConfig }).config = config;
+
+        const actions = manager.resolveVariables([
+            { type: 'terminal', command: 'deploy ${target}' }
+        ]);
+        assert.strictEqual(actions[0].command, 'deploy staging');
+    });
+
+    test('should throw VariableResolveError for unknown variable', () => {
+        const manager = new ConfigManager();
+        (manager as unknown as { config: MenuConfig }).config = { version: '1.0', menu: [] };
+
+        assert.throws(
+            () => manager.resolveVariables([{ type: 'terminal', command: 'echo ${nope}' }]),
+            (err: unknown) => err instanceof VariableResolveError
+        );
+    });
+});
+
+suite('マルチルートワークスペース', () => {
+
+    const folderA = path.join(path.sep, 'workspace', 'frontend');
+    const folderB = path.join(path.sep, 'workspace', 'backend');
+
+    /**
+     * フォルダごとの設定を読み込んだ状態のConfigManagerを作成
+     */
+    function createManager(folders: { name: string; folderPath: string; config: MenuConfig }[]): ConfigManager {
+        const manager = new ConfigManager();
+        const internal = manager as unknown as {
+            config: MenuConfig | null;
+            folderConfigs: FolderConfig[];
+            combineFolderConfigs: (folderConfigs: FolderConfig[]) => MenuConfig | null;
+        };
+        const folderConfigs = folders.map(folder => ({
+            ...folder,
+            rootConfig: folder.config,
+            configPath: path.join(folder.folderPath, '.vscode', 'task-menu.yaml'),
+            files: []
+        }));
+        internal.folderConfigs = folderConfigs;
+        internal.config = internal.combineFolderConfigs.call(manager, folderConfigs);
+        return manager;
+    }
+
+    const frontend: MenuConfig = {
+        version: '1.0',
+        commands: { build: { type: 'terminal', command: 'npm run build' } },
+        menu: [{ label: 'Build', ref: 'build' }]
+    };
+    const backend: MenuConfig = {
+        version: '1.0',
+        commands: { build: { type: 'terminal', command: 'cargo build', cwd: 'server' } },
+        variables: { profile: 'release' },
+        menu: [{ label: 'Build', ref: 'build' }]
+    };
+
+    test('各フォルダの設定をトップレベルのグループとして表示する', () => {
+        const manager = createManager([
+            { name: 'frontend', folderPath: folderA, config: frontend },
+            { name: 'backend', folderPath: folderB, config: backend }
+        ]);
+
+        const config = manager.getConfig();
+        assert.deepStrictEqual(config?.menu.map(item => item.label), ['frontend', 'backend']);
+        assert.strictEqual(config?.menu[1].children, backend.menu);
+        manager.dispose();
+    });
+
+    test('設定が1フォルダのみの場合はグループ化しない', () => {
+        const manager = createManager([{ name: 'frontend', folderPath: folderA, config: frontend }]);
+
+        assert.deepStrictEqual(manager.getConfig()?.menu.map(item => item.label), ['Build']);
+        manager.dispose();
+    });
+
+    test('refは所属フォルダのcommandsから解決する', () => {
+        const manager = createManager([
+            { name: 'frontend', folderPath: folderA, config: frontend },
+            { name: 'backend', folderPath: folderB, config: backend }
+        ]);
+
+        const action = manager.resolveAction(backend.menu[0]);
+        assert.strictEqual(action?.command, 'cargo build');
+        assert.strictEqual(action?.workspaceFolder, folderB);
+        assert.strictEqual(manager.getItemFolder(backend.menu[0])?.name, 'backend');
+        manager.dispose();
+    });
+
+    test('cwdは所属フォルダをデフォルトとし、相対パスはフォルダ基準で解決する', () => {
+        const manager = createManager([
+            { name: 'frontend', folderPath: folderA, config: frontend },
+            { name: 'backend', folderPath: folderB, config: backend }
+        ]);
+
+        const [frontendAction] = manager.resolveVariables(manager.resolveActions(frontend.menu[0])!);
+        const [backendAction] = manager.resolveVariables(manager.resolveActions(backend.menu[0])!);
+
+        assert.strictEqual(frontendAction.cwd, folderA);
+        assert.strictEqual(backendAction.cwd, path.join(folderB, 'server'));
+        manager.dispose();
+    });
+
+    test('変数は所属フォルダの設定で展開する', () => {
+        const manager = createManager([
+            { name: 'frontend', folderPath: folderA, config: frontend },
+            { name: 'backend', folderPath: folderB, config: backend }
+        ]);
+
+        const [action] = manager.resolveVariables([
+            { type: 'terminal', command: 'run ${profile} ${workspaceFolderBasename}', workspaceFolder: folderB }
+        ]);
+        assert.strictEqual(action.command, 'run release backend');
+        manager.dispose();
+    });
+
+    test('getWorkspaceConfigは最初のフォルダの設定のみを返す', () => {
+        const manager = createManager([
+            { name: 'frontend', folderPath: folderA, config: frontend },
+            { name: 'backend', folderPath: folderB, config: backend }
+        ]);
+        (manager as unknown as { getConfigPath: () => string }).getConfigPath =
+            () => path.join(folderA, '.vscode', 'task-menu.yaml');
+
+        assert.strictEqual(manager.getWorkspaceConfig(), frontend);
+        manager.dispose();
+    });
+});
+
+suite('include - 設定ファイルの読み込み', () => {
+    let dir: string;
+    let configPath: string;
+    let manager: ConfigManager;
+    let watched: { configPath: string; includePatterns: unknown[] }[][];
+
+    setup(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'taskpilot-include-'));
+        configPath = path.join(dir, 'task-menu.yaml');
+        fs.writeFileSync(configPath, 'version: "1.0"\ninclude: [extra.yaml]\nmenu:\n  - label: Build\n    type: terminal\n    command: make\n');
+        fs.writeFileSync(path.join(dir, 'extra.yaml'), 'commands:\n  test:\n    type: terminal\n    command: npm test\nmenu:\n  - label: Test\n    ref: test\n');
+
+        // ワークスペースフォルダ・ファイル監視・エラー通知を差し替え
+        manager = new ConfigManager();
+        watched = [];
+        const internal = manager as unknown as {
+            getConfigTargets: () => ConfigTarget[];
+            setupFileWatchers: (targets: { configPath: string; includePatterns: unknown[] }[]) => void;
+            showErrorNotification: () => void;
+        };
+        internal.getConfigTargets = () => [{
+            folder: { name: 'workspace', index: 0, uri: vscode.Uri.file(dir) },
+            configPath
+        }];
+        internal.setupFileWatchers = targets => watched.push(targets);
+        internal.showErrorNotification = () => undefined;
+    });
+
+    teardown(() => {
+        manager.dispose();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('getEditableConfigはincludeしたファイルの項目を含まない', async () => {
+        await manager.reloadConfig();
+
+        assert.deepStrictEqual(manager.getWorkspaceConfig()?.menu.map(item => item.label), ['Build', 'Test']);
+        assert.deepStrictEqual(manager.getEditableConfig()?.menu.map(item => item.label), ['Build']);
+        assert.strictEqual(manager.getEditableConfig()?.commands, undefined);
+        assert.deepStrictEqual(manager.getEditableConfig()?.include, ['extra.yaml']);
+    });
+
+    test('読み込みに失敗した場合も前回のincludeパターンを監視する', async () => {
+        await manager.reloadConfig();
+        fs.writeFileSync(path.join(dir, 'extra.yaml'), 'menu: [\n');
+        await manager.reloadConfig();
+
+        assert.strictEqual(watched.length, 2);
+        assert.deepStrictEqual(watched[1][0].includePatterns, [{ baseDir: dir, pattern: 'extra.yaml' }]);
+    });
+
+    test('exists()の検索に失敗したパターンは存在しないものとして読み込みを続ける', async () => {
+        fs.writeFileSync(configPath, 'version: "1.0"\nmenu:\n  - label: Build\n    type: terminal\n    command: make\n    when: "exists(\'[\')"\n  - label: Test\n    type: terminal\n    command: npm test\n');
+        const sandbox = sinon.createSandbox();
+        sandbox.stub(vscode.workspace, 'findFiles').rejects(new Error('invalid glob'));
+        sandbox.stub(console, 'error');
+        let changed = 0;
+        manager.onConfigChanged(() => changed++);
+        try {
+            await manager.reloadConfig();
+        } finally {
+            sandbox.restore();
+        }
+
+        assert.strictEqual(changed, 1);
+        assert.deepStrictEqual(manager.getConfig()?.menu.map(item => item.label), ['Test']);
+    });
+});
+
+suite('when - 表示条件', () => {
+
+    /**
+     * when条件付きの設定を持つConfigManagerを作成
+     */
+    function createManager(config: MenuConfig): ConfigManager {
+        const manager = new ConfigManager();
+        (manager as unknown as { config: MenuConfig }).config = config;
+        (manager as unknown as { getGlobalMenu: () => MenuItem[] }).getGlobalMenu = () => [];
+        return manager;
+    }
+
+    test('条件を満たさない項目を除外する', () => {
+        const otherPlatform = process.platform === 'win32' ? 'linux' : 'win32';
+        const manager = createManager({
+            version: '1.0',
+            menu: [
+                { label: 'Always', type: 'terminal', command: 'echo' },
+                { label: 'Current', type: 'terminal', command: 'echo', when: `platform == ${process.platform}` },
+                { label: 'Other', type: 'terminal', command: 'echo', when: `platform == ${otherPlatform}` }
+            ]
+        });
+
+        assert.deepStrictEqual(manager.getConfig()?.menu.map(item => item.label), ['Always', 'Current']);
+        manager.dispose();
+    });
+
+    test('ref先コマンドのwhenも評価する', () => {
+        const manager = createManager({
+            version: '1.0',
+            commands: {
+                hidden: { type: 'terminal', command: 'echo', when: 'false' }
+            },
+            menu: [{ label: 'Hidden', ref: 'hidden' }]
+        });
+
+        assert.deepStrictEqual(manager.getConfig()?.menu, []);
+        manager.dispose();
+    });
+
+    test('actions・parallelのref先コマンドのwhenも評価する', () => {
+        const manager = createManager({
+            version: '1.0',
+            commands: {
+                build: { type: 'terminal', command: 'make' },
+                hidden: { type: 'terminal', command: 'echo', when: 'false' }
+            },
+            menu: [
+                { label: 'Sequence', actions: [{ ref: 'build' }, { ref: 'hidden' }] },
+                { label: 'Parallel', parallel: [{ ref: 'hidden' }, { type: 'terminal', command: 'echo' }] },
+                { label: 'Visible', actions: [{ ref: 'build' }, { type: 'terminal', command: 'echo' }] }
+            ]
+        });
+
+        assert.deepStrictEqual(manager.getConfig()?.menu.map(item => item.label), ['Visible']);
+        manager.dispose();
+    });
+
+    test('子項目がすべて非表示のカテゴリは除外し、一部のみの場合は子を絞り込む', () => {
+        const manager = createManager({
+            version: '1.0',
+            menu: [
+                { label: 'Empty', children: [{ label: 'A', type: 'terminal', command: 'a', when: 'false' }] },
+                {
+                    label: 'Partial',
+                    children: [
+                        { label: 'B', type: 'terminal', command: 'b' },
+                        { label: 'C', type: 'terminal', command: 'c', when: "exists('missing.txt')" }
+                    ]
+                }
+            ]
+        });
+
+        const menu = manager.getConfig()!.menu;
+        assert.deepStrictEqual(menu.map(item => item.label), ['Partial']);
+        assert.deepStrictEqual(menu[0].children!.map(item => item.label), ['B']);
+        manager.dispose();
+    });
+
+    test('不正な式の項目は表示したままにする', () => {
+        const manager = createManager({
+            version: '1.0',
+            menu: [{ label: 'Invalid', type: 'terminal', command: 'echo', when: 'isLinux &&' }]
+        });
+
+        assert.strictEqual(manager.getConfig()?.menu.length, 1);
+        manager.dispose();
+    });
+});
+
+suite('env - 環境変数の継承', () => {
+
+    /**
+     * 設定を直接セットしたConfigManagerを作成
+     */
+    function createEnvManager(config: MenuConfig): ConfigManager {
+        const manager = new ConfigManager();
+        (manager as unknown as { config: MenuConfig }).config = config;
+        return manager;
+    }
+
+    test('ルート → コマンド → メニュー項目 → アクションの順に上書きする', () => {
+        const manager = createEnvManager({
+            version: '1.0',
+            env: { LEVEL: 'root', ROOT: '1' },
+            commands: {
+                test: { type: 'terminal', command: 'npm test', env: { LEVEL: 'command', COMMAND: '1' } }
+            },
+            menu: []
+        });
+
+        const actions = manager.resolveActions({
+            label: 'Test',
+            env: { LEVEL: 'item', ITEM: '1' },
+            actions: [
+                { ref: 'test' },
+                { type: 'process', command: 'npm run lint', env: { LEVEL: 'action' } }
+            ]
+        });
+
+        assert.deepStrictEqual(actions![0].env, { LEVEL: 'item', ROOT: '1', COMMAND: '1', ITEM: '1' });
+        assert.deepStrictEqual(actions![1].env, { LEVEL: 'action', ROOT: '1', ITEM: '1' });
+        manager.dispose();
+    });
+
+    test('ターミナルのシェル・表示設定をコマンド → メニュー項目 → アクションの順に上書きする', () => {
+        const manager = createEnvManager({
+            version: '1.0',
+            commands: {
+                build: { type: 'terminal', command: 'npm run build', shell: '/bin/bash', location: 'editor' }
+            },
+            menu: []
+        });
+
+        const actions = manager.resolveActions({
+            label: 'Build',
+            shell: '/bin/zsh',
+            color: 'terminal.ansiGreen',
+            actions: [
+                { ref: 'build' },
+                { type: 'terminal', command: 'npm test', shellArgs: ['-l'], location: 'panel' },
+                { type: 'process', command: 'npm run lint' }
+            ]
+        });
+
+        assert.strictEqual(actions![0].shell, '/bin/zsh');
+        assert.strictEqual(actions![0].location, 'editor');
+        assert.strictEqual(actions![0].color, 'terminal.ansiGreen');
+        assert.deepStrictEqual(actions![1].shellArgs, ['-l']);
+        assert.strictEqual(actions![1].location, 'panel');
+        assert.strictEqual(actions![2].shell, undefined);
+        manager.dispose();
+    });
+
+    test('terminal・process以外のアクションには設定しない', () => {
+        const manager = createEnvManager({ version: '1.0', env: { CI: 'true' }, menu: [] });
+
+        const action = manager.resolveAction({ label: 'Save', type: 'vscodeCommand', command: 'workbench.action.files.save' });
+
+        assert.strictEqual(action!.env, undefined);
+        manager.dispose();
+    });
+
+    test('envFileを継承順に集め、実行前に読み込んでenvより優先度を低くする', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'taskpilot-env-'));
+        const envFile = path.join(dir, '.env');
+        fs.writeFileSync(envFile, 'FROM_FILE=yes\nNODE_ENV=production\n');
+
+        try {
+            const manager = createEnvManager({
+                version: '1.0',
+                envFile,
+                env: { NODE_ENV: 'development' },
+                menu: []
+            });
+            const item: MenuItem = { label: 'Run', type: 'terminal', command: 'npm start', envFile: '.env.local' };
+
+            assert.deepStrictEqual(manager.resolveAction(item)!.envLayers, [
+                { envFile },
+                { env: { NODE_ENV: 'development' } },
+                { envFile: '.env.local' }
+            ]);
+
+            const prepared = await manager.prepareActions([{ type: 'terminal', command: 'npm start', envLayers: [{ envFile }, { env: { NODE_ENV: 'development' } }] }]);
+            assert.deepStrictEqual(prepared![0].env, { FROM_FILE: 'yes', NODE_ENV: 'development' });
+            assert.strictEqual(prepared![0].envLayers, undefined);
+            manager.dispose();
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    test('深い段階のenvFileは浅い段階のenvより優先する', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'taskpilot-env-'));
+        fs.writeFileSync(path.join(dir, '.env.item'), 'NODE_ENV=production\nAPI_URL=https://example.com\n');
+
+        try {
+            const manager = createEnvManager({
+                version: '1.0',
+                env: { NODE_ENV: 'development', CI: 'true' },
+                commands: { start: { type: 'terminal', command: 'npm start', env: { API_URL: 'http://localhost' } } },
+                menu: []
+            });
+            const item: MenuItem = { label: 'Start', ref: 'start', envFile: path.join(dir, '.env.item'), env: { DEBUG: '1' } };
+
+            const prepared = await manager.prepareActions([manager.resolveAction(item)!]);
+            assert.deepStrictEqual(prepared![0].env, {
+                NODE_ENV: 'production',
+                CI: 'true',
+                API_URL: 'https://example.com',
+                DEBUG: '1'
+            });
+            manager.dispose();
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
+
+suite('dependsOn - 前提コマンド', () => {
+
+    const commands = {
+        generate: { type: 'process' as const, command: 'npm run generate' },
+        build: { type: 'terminal' as const, command: 'npm run build', dependsOn: ['generate'] },
+        lint: { type: 'process' as const, command: 'npm run lint', dependsOn: ['generate'] },
+        deploy: { type: 'terminal' as const, command: './deploy.sh', terminal: 'Deploy', dependsOn: ['build', 'lint'] }
+    };
+
+    /**
+     * 設定を直接セットしたConfigManagerを作成
+     */
+    function createManager(config: MenuConfig): ConfigManager {
+        const manager = new ConfigManager();
+        (manager as unknown as { config: MenuConfig }).config = config;
+        return manager;
+    }
+
+    test('前提コマンドを実行順に追加し、共通の前提は一度だけ実行する', () => {
+        const manager = createManager({ version: '1.0', commands, menu: [] });
+
+        const actions = manager.resolveActions({ label: 'Deploy', ref: 'deploy' })!;
+
+        assert.deepStrictEqual(actions.map(a => a.command), ['npm run generate', 'npm run build', 'npm run lint', './deploy.sh']);
+        assert.deepStrictEqual(actions.map(a => a.dependency), ['generate', 'build', 'lint', undefined]);
+        // 順次実行する前提コマンドはターミナルを分けない
+        assert.strictEqual(actions[1].terminal, undefined);
+        assert.ok(actions.every(a => a.dependencyGroup === undefined));
+        manager.dispose();
+    });
+
+    test('dependsOrder: parallel の前提コマンドを同じグループにする', () => {
+        const manager = createManager({
+            version: '1.0',
+            commands: { ...commands, deploy: { ...commands.deploy, dependsOrder: 'parallel' } },
+            menu: []
+        });
+
+        const actions = manager.resolveActions({
+            label: 'Release',
+            actions: [{ ref: 'deploy' }, { type: 'terminal', command: 'git push --tags' }]
+        })!;
+
+        assert.deepStrictEqual(actions.map(a => a.dependency), ['generate', 'build', 'lint', undefined, undefined]);
+        assert.strictEqual(actions[0].dependencyGroup, undefined);
+        assert.ok(actions[1].dependencyGroup !== undefined);
+        assert.strictEqual(actions[1].dependencyGroup, actions[2].dependencyGroup);
+        // 前提コマンドはメニュー項目のターミナル名の統一に含めない
+        assert.deepStrictEqual(actions.map(a => a.terminal), [undefined, 'build', undefined, 'Deploy', 'Deploy']);
+        manager.dispose();
+    });
+
+    test('アクション自身が参照するコマンドは前提として重複させない', () => {
+        const manager = createManager({ version: '1.0', commands, menu: [] });
+
+        const actions = manager.resolveActions({
+            label: 'All',
+            actions: [{ ref: 'generate' }, { ref: 'build' }]
+        })!;
+
+        assert.deepStrictEqual(actions.map(a => a.command), ['npm run generate', 'npm run build']);
+        manager.dispose();
+    });
+
+    test('前提コマンドは参照するアクションの直前に実行する', () => {
+        const manager = createManager({
+            version: '1.0',
+            commands: { ...commands, clean: { type: 'process' as const, command: 'npm run clean' } },
+            menu: []
+        });
+
+        const actions = manager.resolveActions({
+            label: 'Clean Deploy',
+            actions: [{ ref: 'clean' }, { ref: 'deploy' }]
+        })!;
+
+        assert.deepStrictEqual(actions.map(a => a.command), ['npm run clean', 'npm run generate', 'npm run build', 'npm run lint', './deploy.sh']);
+        assert.deepStrictEqual(actions.map(a => a.dependency), [undefined, 'generate', 'build', 'lint', undefined]);
+        manager.dispose();
+    });
+
+    test('前提として実行済みのコマンドを参照するアクションは省く', () => {
+        const manager = createManager({ version: '1.0', commands, menu: [] });
+
+        const actions = manager.resolveActions({
+            label: 'All',
+            actions: [{ ref: 'deploy' }, { ref: 'build' }]
+        })!;
+
+        assert.deepStrictEqual(actions.map(a => a.command), ['npm run generate', 'npm run build', 'npm run lint', './deploy.sh']);
+        assert.deepStrictEqual(actions.map(a => a.dependency), ['generate', 'build', 'lint', undefined]);
+        manager.dispose();
+    });
+
+    test('前のアクションが実行したコマンドは後のアクションの前提にしない', () => {
+        const manager = createManager({ version: '1.0', commands, menu: [] });
+
+        const actions = manager.resolveActions({
+            label: 'All',
+            actions: [{ ref: 'build' }, { ref: 'lint' }]
+        })!;
+
+        assert.deepStrictEqual(actions.map(a => a.command), ['npm run generate', 'npm run build', 'npm run lint']);
+        assert.deepStrictEqual(actions.map(a => a.dependency), ['generate', undefined, undefined]);
+        manager.dispose();
+    });
+
+    test('同じコマンドを明示的に繰り返すアクションは省かない', () => {
+        const manager = createManager({ version: '1.0', commands, menu: [] });
+
+        const actions = manager.resolveActions({
+            label: 'All',
+            actions: [{ ref: 'generate' }, { ref: 'build' }, { ref: 'generate' }]
+        })!;
+
+        assert.deepStrictEqual(actions.map(a => a.command), ['npm run generate', 'npm run build', 'npm run generate']);
+        manager.dispose();
+    });
+
+    test('並列実行するアクションが参照するコマンドは前提として重複させない', () => {
+        const manager = createManager({ version: '1.0', commands, menu: [] });
+
+        const actions = manager.resolveParallelActions({
+            label: 'All',
+            parallel: [{ ref: 'build' }, { ref: 'generate' }]
+        })!;
+
+        assert.deepStrictEqual(actions.map(a => a.command), ['npm run build', 'npm run generate']);
+        manager.dispose();
+    });
+});
@@ -0,0 +1,148 @@
+/**
+ * ConfigReferenceProvider のテスト
+ * コマンドの定義へ移動・参照の検索・名前の変更のテスト
+ */
+
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { ConfigReferenceProvider, findCommandSymbols } from '../../config-references';
+import { ConfigManager } from '../../config-manager';
+
+suite('ConfigReferenceProvider Test Suite', () => {
+
+    const content = [
+        'version: "1.0"',
+        'commands:',
+        '  build:   # compile',
+        '    type: terminal',
+        '    command: npm run build',
+        '  deploy:',
+        '    type: terminal',
+        '    command: ./deploy.sh',
+        '    dependsOn: [build]',
+        'menu:',
+        '  - label: Build',
+        '    ref: "build"',
+        '  - label: Release',
+        '    actions:',
+        '      - ref: build   # first',
+        '      - ref: deploy',
+        '  - label: Watch',
+        '    parallel:',
+        '      - {ref: build}',
+        ''
+    ].join('\n');
+
+    /**
+     * 範囲のテキスト
+     */
+    function textOf(range: { start: number; end: number }): string {
+        return content.slice(range.start, range.end);
+    }
+
+    suite('findCommandSymbols', () => {
+
+        test('should find definitions and references without quotes or comments', () => {
+            const symbols = findCommandSymbols(content);
+
+            assert.deepStrictEqual([...symbols.definitions.keys()], ['build', 'deploy']);
+            assert.strictEqual(content.slice(0, symbols.definitions.get('build')?.start).split('\n').length, 3);
+            assert.deepStrictEqual(
+                symbols.references.map(reference => [reference.name, textOf(reference.range)]),
+                [
+                    ['build', 'build'],
+                    ['build', 'build'],
+                    ['build', 'build'],
+                    ['deploy', 'deploy'],
+                    ['build', 'build']
+                ]
+            );
+        });
+
+        test('should return nothing for invalid YAML', () => {
+            const symbols = findCommandSymbols('menu: [');
+
+            assert.strictEqual(symbols.definitions.size, 0);
+            assert.strictEqual(symbols.references.length, 0);
+        });
+    });
+
+    suite('providers', () => {
+        let sandbox: sinon.SinonSandbox;
+        let manager: ConfigManager;
+        let provider: ConfigReferenceProvider;
+        let document: vscode.TextDocument;
+
+        setup(async () => {
+            sandbox = sinon.createSandbox();
+            manager = new ConfigManager();
+            document = await vscode.workspace.openTextDocument({ language: 'yaml', content });
+            sandbox.stub(manager, 'getConfigFileKind').returns('root');
+            sandbox.stub(manager, 'getRelatedConfigFiles').returns([document.uri.fsPath]);
+            provider = new ConfigReferenceProvider(manager);
+        });
+
+        teardown(() => {
+            provider.dispose();
+            manager.dispose();
+            sandbox.restore();
+        });
+
+        /** `ref: "build"` の値の位置 */
+        const onRef = () => new vscode.Position(11, 11);
+
+        test('should go to the command definition from a ref', async () => {
+            const locations = await provider.provideDefinition(document, onRef());
+
+            assert.strictEqual(locations?.length, 1);
+            assert.deepStrictEqual([locations[0].range.start.line, locations[0].range.start.character], [2, 2]);
+        });
+
+        test('should list all references with or without the declaration', async () => {
+            const withDeclaration = await provider.provideReferences(document, new vscode.Position(2, 3), { includeDeclaration: true });
+            const withoutDeclaration = await provider.provideReferences(document, onRef(), { includeDeclaration: false });
+
+            assert.deepStrictEqual(withDeclaration?.map(location => location.range.start.line), [2, 8, 11, 14, 18]);
+            assert.deepStrictEqual(withoutDeclaration?.map(location => location.range.start.line), [8, 11, 14, 18]);
+        });
+
+        test('should rename the definition and every reference', async () => {
+            const edit = await provider.provideRenameEdits(document, onRef(), 'compile');
+
+            const edits = edit?.entries()[0][1] ?? [];
+            assert.deepStrictEqual(edits.map(e => e.range.start.line), [2, 8, 11, 14, 18]);
+            assert.ok(edits.every(e => e.newText === 'compile'));
+            assert.deepStrictEqual(
+                [edits[2].range.start.character, edits[2].range.end.character],
+                [10, 15]
+            );
+        });
+
+        test('should reject invalid or existing names and positions outside commands', async () => {
+            await assert.rejects(() => provider.provideRenameEdits(document, onRef(), 'deploy'), /already exists/);
+            await assert.rejects(() => provider.provideRenameEdits(document, onRef(), 'two words'), /Invalid command name/);
+            assert.throws(() => provider.prepareRename(document, new vscode.Position(10, 12)));
+            assert.strictEqual(provider.prepareRename(document, onRef()).start.character, 10);
+        });
+
+        test('should include commands defined in included files', async () => {
+            const included = await vscode.workspace.openTextDocument({
+                language: 'yaml',
+                content: 'commands:\n  lint:\n    type: terminal\n    command: npm run lint\n'
+            });
+            const root = await vscode.workspace.openTextDocument({
+                language: 'yaml',
+                content: 'version: "1.0"\nmenu:\n  - label: Lint\n    ref: lint\n'
+            });
+            (manager.getRelatedConfigFiles as sinon.SinonStub).returns([root.uri.fsPath, '/workspace/.vscode/commands.yaml']);
+            sandbox.stub(vscode.workspace, 'openTextDocument').resolves(included);
+
+            const locations = await provider.provideDefinition(root, new vscode.Position(3, 10));
+            const edit = await provider.provideRenameEdits(root, new vscode.Position(3, 10), 'check');
+
+            assert.strictEqual(locations?.[0].uri, included.uri);
+            assert.strictEqual(edit?.entries().length, 2);
+        });
+    });
+});
@@ -0,0 +1,50 @@
+/**
+ * EnvFile のテスト
+ * .envファイルのパース・読み込みのテスト
+ */
+
+import * as assert from 'assert';
+import { parseEnvFile, loadEnvFiles, EnvFileError } from '../../env-file';
+
+suite('EnvFile Test Suite', () => {
+
+    suite('parseEnvFile', () => {
+
+        test('should parse KEY=VALUE lines and skip comments', () => {
+            const env = parseEnvFile([
+                '# comment',
+                '',
+                'NODE_ENV=test',
+                'export PORT = 3000',
+                'EMPTY=',
+                'not a variable'
+            ].join('\n'));
+
+            assert.deepStrictEqual(env, { NODE_ENV: 'test', PORT: '3000', EMPTY: '' });
+        });
+
+        test('should handle quotes and inline comments', () => {
+            const env = parseEnvFile([
+                'DOUBLE="line1\\nline2 # kept"',
+                "SINGLE='raw\\n'",
+                'PLAIN=value # comment',
+                'HASH=a#b'
+            ].join('\r\n'));
+
+            assert.strictEqual(env.DOUBLE, 'line1\nline2 # kept');
+            assert.strictEqual(env.SINGLE, 'raw\\n');
+            assert.strictEqual(env.PLAIN, 'value');
+            assert.strictEqual(env.HASH, 'a#b');
+        });
+    });
+
+    suite('loadEnvFiles', () => {
+
+        test('should throw EnvFileError for missing files', async () => {
+            await assert.rejects(
+                loadEnvFiles(['missing.env'], '/nonexistent-taskpilot-dir'),
+                (error: unknown) => error instanceof EnvFileError && error.message.includes('missing.env')
+            );
+        });
+    });
+});
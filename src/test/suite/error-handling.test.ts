@@ -223,6 +223,177 @@ menu:
             assert.strictEqual(result.valid, false);
             assert.ok(result.errors.some(e => e.path?.includes('commands.myCommand')));
         });
+
+        test('should report duplicate and invalid item ids', () => {
+            const badIds = `version: "1.0"
+menu:
+  - label: Build
+    id: build
+    type: terminal
+    command: npm run build
+  - label: Tools
+    children:
+      - label: Build again
+        id: build
+        type: terminal
+        command: npm run build
+      - label: Bad
+        id: "has space"
+        type: terminal
+        command: echo`;
+
+            const { result } = validateConfig(parseYaml(badIds));
+
+            assert.strictEqual(result.valid, false);
+            assert.deepStrictEqual(result.errors.map(e => e.path).sort(), [
+                'menu[1].children[0].id',
+                'menu[1].children[1].id'
+            ]);
+            assert.ok(result.errors.find(e => e.path === 'menu[1].children[0].id')!.message.includes('Duplicate id "build"'));
+        });
+
+        test('should validate env and envFile at every level', () => {
+            const badEnv = `version: "1.0"
+env:
+  PORT: 3000
+envFile: ""
+commands:
+  build:
+    type: terminal
+    command: npm run build
+    envFile: 1
+menu:
+  - label: Build
+    ref: build
+    env: "NODE_ENV=test"
+    actions:
+      - ref: build
+        env:
+          CI: true`;
+
+            const { result } = validateConfig(parseYaml(badEnv));
+
+            assert.deepStrictEqual(result.errors.map(e => e.path).sort(), [
+                'commands.build.envFile',
+                'env.PORT',
+                'envFile',
+                'menu[0].actions[0].env.CI',
+                'menu[0].env'
+            ]);
+        });
+
+        test('should validate terminal shell and tab options', () => {
+            const badTerminal = `version: "1.0"
+menu:
+  - label: Build
+    type: terminal
+    command: npm run build
+    shell: ""
+    shellArgs: [1]
+    location: sidebar
+    terminalPolicy: sometimes`;
+
+            const { result } = validateConfig(parseYaml(badTerminal));
+
+            assert.deepStrictEqual(result.errors.map(e => e.path).sort(), [
+                'menu[0].location',
+                'menu[0].shell',
+                'menu[0].shellArgs[0]',
+                'menu[0].terminalPolicy'
+            ]);
+        });
+
+        test('should allow task actions selected by taskGroup without a command', () => {
+            const tasks = `version: "1.0"
+menu:
+  - label: Default Build
+    type: task
+    taskGroup: build
+  - label: Missing
+    type: task
+    taskSource: npm
+  - label: Invalid
+    type: task
+    command: build
+    taskType: 1`;
+
+            const { result } = validateConfig(parseYaml(tasks));
+
+            assert.deepStrictEqual(result.errors.map(e => e.path).sort(), [
+                'menu[1].command',
+                'menu[2].taskType'
+            ]);
+        });
+
+        test('should validate confirm on items and commands', () => {
+            const badConfirm = `version: "1.0"
+commands:
+  drop:
+    type: terminal
+    command: npm run db:drop
+    confirm: 1
+menu:
+  - label: Drop
+    ref: drop
+    confirm: ""
+  - label: Push
+    type: terminal
+    command: git push --force
+    confirm: Force push?`;
+
+            const { result } = validateConfig(parseYaml(badConfirm));
+
+            assert.deepStrictEqual(result.errors.map(e => e.path).sort(), [
+                'commands.drop.confirm',
+                'menu[0].confirm'
+            ]);
+        });
+
+        test('should validate dependsOn and dependsOrder', () => {
+            const badDepends = `version: "1.0"
+commands:
+  deploy:
+    type: terminal
+    command: ./deploy.sh
+    dependsOn: build
+    dependsOrder: random
+  test:
+    type: terminal
+    command: npm test
+    dependsOn: [build, 1]
+menu: []`;
+
+            const { result } = validateConfig(parseYaml(badDepends));
+
+            assert.deepStrictEqual(result.errors.map(e => e.path), [
+                'commands.deploy.dependsOn',
+                'commands.deploy.dependsOrder',
+                'commands.test.dependsOn[1]'
+            ]);
+        });
+
+        test('should validate statusBar options', () => {
+            const badStatusBar = `version: "1.0"
+menu:
+  - label: Build
+    type: terminal
+    command: npm run build
+    statusBar:
+      alignment: center
+      priority: high
+  - label: Test
+    type: terminal
+    command: npm test
+    statusBar: "yes"`;
+
+            const { result } = validateConfig(parseYaml(badStatusBar));
+
+            assert.deepStrictEqual(result.errors.map(e => e.path), [
+                'menu[0].statusBar.alignment',
+                'menu[0].statusBar.priority',
+                'menu[1].statusBar'
+            ]);
+        });
     });
 
     suite('Error Message Formatting', () => {
@@ -0,0 +1,221 @@
+/**
+ * ExecutionHistory のテスト
+ * 実行履歴の保存・取得、MenuRunner による記録のテスト
+ */
+
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { ExecutionHistory, HistoryEntry } from '../../execution-history';
+import { MenuRunner } from '../../menu-runner';
+import { ConfigManager } from '../../config-manager';
+import { ActionExecutor } from '../../action-executor';
+import { MenuConfig, ResolvedAction } from '../../types';
+
+/**
+ * メモリ上のMementoを作成
+ */
+function createMemento(): vscode.Memento {
+    const values = new Map<string, unknown>();
+    return {
+        keys: () => [...values.keys()],
+        get: <T>(key: string, defaultValue?: T) => (values.has(key) ? values.get(key) as T : defaultValue),
+        update: async (key: string, value: unknown) => {
+            if (value === undefined) {
+                values.delete(key);
+            } else {
+                values.set(key, value);
+            }
+        }
+    } as vscode.Memento;
+}
+
+/**
+ * テスト用の履歴エントリを作成
+ */
+function createEntry(labelPath: string[], timestamp: number): HistoryEntry {
+    return {
+        labelPath,
+        actions: [{ type: 'terminal', command: labelPath.join(' ') }],
+        timestamp,
+        result: 'success'
+    };
+}
+
+suite('ExecutionHistory Test Suite', () => {
+
+    suite('ExecutionHistory', () => {
+
+        test('should return entries newest first', async () => {
+            const history = new ExecutionHistory(createMemento());
+            await history.add(createEntry(['Build'], 1));
+            await history.add(createEntry(['Test'], 2));
+
+            assert.deepStrictEqual(history.getEntries().map(e => e.labelPath), [['Test'], ['Build']]);
+            assert.deepStrictEqual(history.getLast()?.labelPath, ['Test']);
+            history.dispose();
+        });
+
+        test('should keep at most 50 entries', async () => {
+            const history = new ExecutionHistory(createMemento());
+            for (let i = 0; i < 55; i++) {
+                await history.add(createEntry([`Item ${i}`], i));
+            }
+
+            const entries = history.getEntries();
+            assert.strictEqual(entries.length, 50);
+            assert.deepStrictEqual(entries[0].labelPath, ['Item 54']);
+            history.dispose();
+        });
+
+        test('getRecent should return each menu item once', async () => {
+            const history = new ExecutionHistory(createMemento());
+            await history.add(createEntry(['Dev', 'Build'], 1));
+            await history.add(createEntry(['Test'], 2));
+            await history.add(createEntry(['Dev', 'Build'], 3));
+
+            const recent = history.getRecent(5);
+            assert.deepStrictEqual(recent.map(e => e.timestamp), [3, 2]);
+            assert.strictEqual(history.getRecent(1).length, 1);
+            history.dispose();
+        });
+
+        test('should fire onDidChange on add and clear', async () => {
+            const history = new ExecutionHistory(createMemento());
+            let count = 0;
+            history.onDidChange(() => count++);
+
+            await history.add(createEntry(['Build'], 1));
+            await history.clear();
+
+            assert.strictEqual(count, 2);
+            assert.deepStrictEqual(history.getEntries(), []);
+            history.dispose();
+        });
+    });
+
+    suite('MenuRunner', () => {
+        let history: ExecutionHistory;
+        let executed: ResolvedAction[];
+        let runner: MenuRunner;
+        let manager: ConfigManager;
+
+        setup(() => {
+            history = new ExecutionHistory(createMemento());
+            executed = [];
+            manager = new ConfigManager();
+            (manager as unknown as { config: MenuConfig }).config = {
+                version: '1.0',
+                variables: { target: 'staging' },
+                menu: []
+            };
+            const executor = {
+                execute: async (action: ResolvedAction) => {
+                    executed.push(action);
+                    if (action.command === 'fail') {
+                        throw new Error('failed');
+                    }
+                }
+            } as unknown as ActionExecutor;
+            runner = new MenuRunner(manager, executor, history);
+        });
+
+        teardown(() => {
+            runner.dispose();
+            manager.dispose();
+            history.dispose();
+        });
+
+        test('should record unresolved actions and result', async () => {
+            await runner.run(
+                { label: 'Deploy', type: 'terminal', command: 'deploy ${target}' },
+                ['Release', 'Deploy']
+            );
+
+            const last = history.getLast();
+            assert.deepStrictEqual(last?.labelPath, ['Release', 'Deploy']);
+            assert.strictEqual(last?.actions[0].command, 'deploy ${target}');
+            assert.strictEqual(last?.result, 'success');
+        });
+
+        test('should record failed result', async () => {
+            await runner.run({ label: 'Broken', type: 'terminal', command: 'fail' }, ['Broken']);
+
+            assert.strictEqual(history.getLast()?.result, 'failed');
+        });
+
+        test('rerun should execute the recorded actions again', async () => {
+            await runner.run({ label: 'Deploy', type: 'terminal', command: 'deploy ${target}' }, ['Deploy']);
+            await runner.rerun(history.getLast()!);
+
+            assert.deepStrictEqual(executed.map(a => a.command), ['deploy staging', 'deploy staging']);
+            assert.strictEqual(history.getEntries().length, 2);
+        });
+
+        test('rerun should resolve variables with the current configuration', async () => {
+            await runner.run({ label: 'Deploy', type: 'terminal', command: 'deploy ${target}' }, ['Deploy']);
+            (manager as unknown as { config: MenuConfig }).config.variables = { target: 'production' };
+            await runner.rerun(history.getLast()!);
+
+            assert.deepStrictEqual(executed.map(a => a.command), ['deploy staging', 'deploy production']);
+        });
+
+        test('should not store input values and prompt again on rerun', async () => {
+            (manager as unknown as { config: MenuConfig }).config.inputs = [
+                { id: 'token', type: 'promptString', description: 'Token', password: true }
+            ];
+            const sandbox = sinon.createSandbox();
+            const prompt = sandbox.stub(vscode.window, 'showInputBox').resolves('s3cret');
+            try {
+                await runner.run({ label: 'Login', type: 'terminal', command: 'login ${input:token}' }, ['Login']);
+                await runner.rerun(history.getLast()!);
+
+                assert.strictEqual(prompt.callCount, 2);
+                assert.deepStrictEqual(executed.map(a => a.command), ['login s3cret', 'login s3cret']);
+                assert.ok(!JSON.stringify(history.getEntries()).includes('s3cret'));
+            } finally {
+                sandbox.restore();
+            }
+        });
+
+        test('should report running items while executing', async () => {
+            const states: boolean[] = [];
+            runner.onDidChangeRunning(() => states.push(runner.isRunning(['Deploy'])));
+
+            await runner.run({ label: 'Deploy', type: 'terminal', command: 'deploy ${target}' }, ['Deploy']);
+
+            assert.deepStrictEqual(states, [true, false]);
+            assert.strictEqual(runner.isRunning(['Deploy']), false);
+        });
+
+        test('should ask for confirmation with the resolved command lines', async () => {
+            const sandbox = sinon.createSandbox();
+            const prompt = sandbox.stub(vscode.window, 'showWarningMessage').resolves(undefined);
+            try {
+                await runner.run(
+                    { label: 'Drop', type: 'terminal', command: 'drop ${target}', confirm: 'Drop the database?' },
+                    ['Drop']
+                );
+
+                assert.strictEqual(prompt.callCount, 1);
+                const [message, options] = prompt.firstCall.args as unknown as [string, vscode.MessageOptions];
+                assert.strictEqual(message, 'Drop the database?');
+                assert.strictEqual(options.modal, true);
+                assert.strictEqual(options.detail, '$ drop staging');
+                assert.strictEqual(executed.length, 0, 'cancelled items should not run');
+                assert.strictEqual(history.getLast(), undefined);
+
+                prompt.resolves('Run' as unknown as vscode.MessageItem);
+                await runner.run({ label: 'Drop', type: 'terminal', command: 'drop ${target}', confirm: true }, ['Drop']);
+                assert.deepStrictEqual(executed.map(a => a.command), ['drop staging']);
+
+                // 再実行時も確認する
+                prompt.resetHistory();
+                await runner.rerun(history.getLast()!);
+                assert.strictEqual(prompt.callCount, 1);
+            } finally {
+                sandbox.restore();
+            }
+        });
+    });
+});
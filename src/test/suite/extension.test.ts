@@ -24,6 +24,11 @@ suite('Extension Test Suite', () => {
         const commands = await vscode.commands.getCommands();
         assert.ok(commands.includes('taskPilot.showMenu'), 'taskPilot.showMenu command should be registered');
         assert.ok(commands.includes('taskPilot.openGlobalSettings'), 'taskPilot.openGlobalSettings command should be registered');
+        assert.ok(commands.includes('taskPilot.rerunLast'), 'taskPilot.rerunLast command should be registered');
+        assert.ok(commands.includes('taskPilot.showHistory'), 'taskPilot.showHistory command should be registered');
+        assert.ok(commands.includes('taskPilot.run'), 'taskPilot.run command should be registered');
+        assert.ok(commands.includes('taskPilot.previewItem'), 'taskPilot.previewItem command should be registered');
+        assert.ok(commands.includes('taskPilot.importTasks'), 'taskPilot.importTasks command should be registered');
     });
 
     test('Configuration should have correct properties', () => {
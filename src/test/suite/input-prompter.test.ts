@@ -0,0 +1,100 @@
+/**
+ * InputPrompter のテスト
+ * inputs定義（promptString / pickString）による入力取得のテスト
+ */
+
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { normalizeOptions, validateInputValue, promptInputs } from '../../input-prompter';
+import { VariableResolveError } from '../../variable-resolver';
+import { InputDefinition } from '../../types';
+
+suite('InputPrompter Test Suite', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    suite('normalizeOptions', () => {
+        test('文字列の選択肢をlabel/value形式に変換できる', () => {
+            assert.deepStrictEqual(normalizeOptions(['dev', { label: 'Production', value: 'prod' }]), [
+                { label: 'dev', value: 'dev' },
+                { label: 'Production', value: 'prod' }
+            ]);
+        });
+
+        test('未指定の場合は空配列を返す', () => {
+            assert.deepStrictEqual(normalizeOptions(undefined), []);
+        });
+    });
+
+    suite('validateInputValue', () => {
+        const definition: InputDefinition = {
+            id: 'name',
+            type: 'promptString',
+            validation: '^[a-z]+$',
+            validationMessage: 'lowercase only'
+        };
+
+        test('パターンに一致する値は有効', () => {
+            assert.strictEqual(validateInputValue(definition, 'abc'), undefined);
+        });
+
+        test('パターンに一致しない値はメッセージを返す', () => {
+            assert.strictEqual(validateInputValue(definition, 'ABC'), 'lowercase only');
+        });
+
+        test('validation未指定の場合は常に有効', () => {
+            assert.strictEqual(validateInputValue({ id: 'x', type: 'promptString' }, ''), undefined);
+        });
+    });
+
+    suite('promptInputs', () => {
+        const definitions: InputDefinition[] = [
+            { id: 'message', type: 'promptString', default: 'wip' },
+            { id: 'env', type: 'pickString', options: ['staging', { label: 'Production', value: 'prod' }] }
+        ];
+
+        test('参照された入力のみプロンプトして値を返す', async () => {
+            const inputBox = sandbox.stub(vscode.window, 'showInputBox').resolves('fix bug');
+            const quickPick = sandbox.stub(vscode.window, 'showQuickPick')
+                .callsFake(async (items: unknown) => (items as vscode.QuickPickItem[])[1]);
+
+            const values = await promptInputs(definitions, ['env']);
+
+            assert.deepStrictEqual(values, { env: 'prod' });
+            assert.strictEqual(inputBox.called, false);
+            assert.strictEqual(quickPick.calledOnce, true);
+        });
+
+        test('promptStringにデフォルト値を渡す', async () => {
+            const inputBox = sandbox.stub(vscode.window, 'showInputBox').resolves('fix bug');
+
+            const values = await promptInputs(definitions, ['message']);
+
+            assert.deepStrictEqual(values, { message: 'fix bug' });
+            assert.strictEqual(inputBox.firstCall.args[0]?.value, 'wip');
+        });
+
+        test('キャンセル時はundefinedを返す', async () => {
+            sandbox.stub(vscode.window, 'showInputBox').resolves(undefined);
+
+            const values = await promptInputs(definitions, ['message', 'env']);
+
+            assert.strictEqual(values, undefined);
+        });
+
+        test('未定義の入力IDはエラー', async () => {
+            await assert.rejects(
+                promptInputs(definitions, ['unknown']),
+                (err: unknown) => err instanceof VariableResolveError
+            );
+        });
+    });
+});
@@ -0,0 +1,96 @@
+/**
+ * ItemCommands のテスト
+ * taskPilot.run とアイテムごとのコマンド登録のテスト
+ */
+
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { ItemCommands } from '../../item-commands';
+import { ConfigManager, ConfigChangeEvent } from '../../config-manager';
+import { MenuRunner } from '../../menu-runner';
+import { MenuConfig, MenuItem } from '../../types';
+
+suite('ItemCommands Test Suite', () => {
+    let sandbox: sinon.SinonSandbox;
+    let manager: ConfigManager;
+    let commands: Map<string, (...args: unknown[]) => unknown>;
+    let runs: { item: MenuItem; labelPath: string[] }[];
+    let itemCommands: ItemCommands;
+
+    /**
+     * 設定を差し替えて変更イベントを発火
+     */
+    function setMenu(menu: MenuItem[]): void {
+        const config: MenuConfig = { version: '1.0', menu };
+        (manager as unknown as { config: MenuConfig }).config = config;
+        (manager as unknown as { _onConfigChanged: vscode.EventEmitter<ConfigChangeEvent> })._onConfigChanged.fire({ config });
+    }
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+        commands = new Map();
+        sandbox.stub(vscode.commands, 'registerCommand').value((id: string, handler: (...args: unknown[]) => unknown) => {
+            commands.set(id, handler);
+            return { dispose: () => commands.delete(id) };
+        });
+        runs = [];
+        manager = new ConfigManager();
+        const runner = {
+            run: async (item: MenuItem, labelPath: string[]) => {
+                runs.push({ item, labelPath });
+            }
+        } as unknown as MenuRunner;
+        itemCommands = new ItemCommands(manager, runner);
+        setMenu([
+            {
+                label: 'Development',
+                children: [
+                    { label: 'Build', id: 'build', type: 'terminal', command: 'npm run build' },
+                    { label: 'Test', type: 'terminal', command: 'npm test' }
+                ]
+            }
+        ]);
+    });
+
+    teardown(() => {
+        itemCommands.dispose();
+        manager.dispose();
+        sandbox.restore();
+    });
+
+    test('should register taskPilot.run and a command per item id', () => {
+        assert.deepStrictEqual([...commands.keys()].sort(), ['taskPilot.run', 'taskPilot.run.build']);
+        assert.deepStrictEqual(itemCommands.getItemCommandIds(), ['taskPilot.run.build']);
+    });
+
+    test('should run items by id, label path and per-item command', async () => {
+        await commands.get('taskPilot.run')!('build');
+        await commands.get('taskPilot.run')!(['Development', 'Test']);
+        await commands.get('taskPilot.run.build')!();
+
+        assert.deepStrictEqual(runs.map(r => r.labelPath), [
+            ['Development', 'Build'],
+            ['Development', 'Test'],
+            ['Development', 'Build']
+        ]);
+    });
+
+    test('should show an error for unknown items', async () => {
+        const showError = sandbox.stub(vscode.window, 'showErrorMessage').resolves(undefined);
+
+        await itemCommands.run('deploy');
+
+        assert.strictEqual(runs.length, 0);
+        assert.ok(String(showError.firstCall.args[0]).includes('deploy'));
+    });
+
+    test('should re-register item commands when ids change', () => {
+        setMenu([{ label: 'Lint', id: 'lint', type: 'terminal', command: 'npm run lint' }]);
+
+        assert.deepStrictEqual([...commands.keys()].sort(), ['taskPilot.run', 'taskPilot.run.lint']);
+
+        itemCommands.dispose();
+        assert.strictEqual(commands.size, 0);
+    });
+});
@@ -0,0 +1,120 @@
+/**
+ * ItemPreview のテスト
+ * 解決済みアクションのプレビュー（実行しない）のテスト
+ */
+
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import * as yaml from 'js-yaml';
+import { ItemPreview, createPreviewUri, formatItemPreview } from '../../item-preview';
+import { ConfigManager } from '../../config-manager';
+import { MenuConfig } from '../../types';
+
+suite('ItemPreview Test Suite', () => {
+    let sandbox: sinon.SinonSandbox;
+    let manager: ConfigManager;
+    let preview: ItemPreview;
+
+    const config: MenuConfig = {
+        version: '1.0',
+        commands: {
+            build: { type: 'terminal', command: 'npm run build' },
+            deploy: { type: 'terminal', command: './deploy.sh ${input:env}', dependsOn: ['build'] }
+        },
+        menu: [
+            {
+                label: 'Release',
+                children: [
+                    { label: 'Deploy', ref: 'deploy', confirm: true },
+                    {
+                        label: 'CI',
+                        terminal: 'CI',
+                        continueOnError: true,
+                        actions: [
+                            { type: 'terminal', command: 'npm run lint' },
+                            { type: 'terminal', command: 'npm test', terminal: 'Other' }
+                        ]
+                    }
+                ]
+            },
+            {
+                label: 'Dev',
+                parallel: [
+                    { type: 'terminal', command: 'npm run watch' },
+                    { type: 'process', command: 'npm run serve' }
+                ]
+            }
+        ]
+    };
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+        sandbox.stub(vscode.commands, 'registerCommand').value(() => ({ dispose: () => undefined }));
+        manager = new ConfigManager();
+        (manager as unknown as { config: MenuConfig }).config = config;
+        preview = new ItemPreview(manager);
+    });
+
+    teardown(() => {
+        preview.dispose();
+        manager.dispose();
+        sandbox.restore();
+    });
+
+    /**
+     * プレビューのYAML部分をパース
+     */
+    function parsePreview(labelPath: string[]): Record<string, unknown> {
+        return yaml.load(preview.provideTextDocumentContent(createPreviewUri(labelPath))) as Record<string, unknown>;
+    }
+
+    test('should show prerequisites and the command without expanding variables', () => {
+        const content = preview.provideTextDocumentContent(createPreviewUri(['Release', 'Deploy']));
+
+        assert.ok(content.startsWith('# Preview: Release > Deploy\n'));
+        assert.deepStrictEqual(yaml.load(content), {
+            mode: 'sequence',
+            confirm: true,
+            actions: [
+                { type: 'terminal', command: 'npm run build', dependency: 'build' },
+                { type: 'terminal', command: './deploy.sh ${input:env}' }
+            ]
+        });
+    });
+
+    test('should show unified terminal names and options', () => {
+        const ci = parsePreview(['Release', 'CI']);
+
+        assert.strictEqual(ci.continueOnError, true);
+        assert.deepStrictEqual(
+            (ci.actions as { terminal: string }[]).map(action => action.terminal),
+            ['CI', 'CI']
+        );
+    });
+
+    test('should show parallel actions', () => {
+        const dev = parsePreview(['Dev']);
+
+        assert.strictEqual(dev.mode, 'parallel');
+        assert.deepStrictEqual((dev.actions as { command: string }[]).map(action => action.command), ['npm run watch', 'npm run serve']);
+    });
+
+    test('should report missing items and items without actions', () => {
+        assert.ok(preview.provideTextDocumentContent(createPreviewUri(['Missing'])).includes('Menu item not found: Missing'));
+        assert.ok(formatItemPreview({ label: 'Empty' }, ['Empty'], [], false).includes('No executable action available'));
+    });
+
+    test('should open a document without running anything', async () => {
+        const open = sandbox.stub(vscode.workspace, 'openTextDocument').resolves({} as vscode.TextDocument);
+        sandbox.stub(vscode.window, 'showTextDocument').resolves(undefined);
+        const error = sandbox.stub(vscode.window, 'showErrorMessage').resolves(undefined);
+
+        await preview.preview('Release > Deploy');
+        await preview.preview({ id: 'missing' });
+
+        assert.strictEqual(open.callCount, 1);
+        assert.strictEqual((open.firstCall.args[0] as vscode.Uri).query, JSON.stringify(['Release', 'Deploy']));
+        assert.strictEqual(error.callCount, 1);
+    });
+});
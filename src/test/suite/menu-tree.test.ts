@@ -0,0 +1,76 @@
+/**
+ * MenuTree のテスト
+ * ラベルのパス・IDによる検索、メニューの平坦化のテスト
+ */
+
+import * as assert from 'assert';
+import { findItemById, findItemByLabelPath, findRunTarget, flattenMenu } from '../../menu-tree';
+import { MenuItem } from '../../types';
+
+const menu: MenuItem[] = [
+    {
+        label: 'Development',
+        children: [
+            { label: 'Build', id: 'build', type: 'terminal', command: 'npm run build' },
+            {
+                label: 'Test',
+                children: [
+                    { label: 'Run e2e tests', type: 'terminal', command: 'npm run e2e' }
+                ]
+            }
+        ]
+    },
+    { label: 'Lint', type: 'terminal', command: 'npm run lint' }
+];
+
+suite('MenuTree Test Suite', () => {
+
+    suite('findItemByLabelPath', () => {
+
+        test('should find nested and top-level items', () => {
+            assert.strictEqual(findItemByLabelPath(menu, ['Development', 'Test', 'Run e2e tests'])?.command, 'npm run e2e');
+            assert.strictEqual(findItemByLabelPath(menu, ['Lint'])?.command, 'npm run lint');
+        });
+
+        test('should return undefined for missing items and categories', () => {
+            assert.strictEqual(findItemByLabelPath(menu, ['Development', 'Deploy']), undefined);
+            assert.strictEqual(findItemByLabelPath(menu, ['Development']), undefined);
+            assert.strictEqual(findItemByLabelPath(menu, []), undefined);
+        });
+    });
+
+    suite('flattenMenu', () => {
+
+        test('should list leaf items with their label paths in menu order', () => {
+            assert.deepStrictEqual(
+                flattenMenu(menu).map(flat => flat.labelPath),
+                [['Development', 'Build'], ['Development', 'Test', 'Run e2e tests'], ['Lint']]
+            );
+        });
+
+        test('should keep references to the original items', () => {
+            assert.strictEqual(flattenMenu(menu)[2].item, menu[1]);
+        });
+    });
+
+    suite('findRunTarget', () => {
+
+        test('should find items by id', () => {
+            assert.deepStrictEqual(findItemById(menu, 'build')?.labelPath, ['Development', 'Build']);
+            assert.deepStrictEqual(findRunTarget(menu, { id: 'build' })?.labelPath, ['Development', 'Build']);
+            assert.strictEqual(findItemById(menu, 'missing'), undefined);
+        });
+
+        test('should find items by label path', () => {
+            assert.strictEqual(findRunTarget(menu, 'build')?.item.command, 'npm run build');
+            assert.strictEqual(findRunTarget(menu, 'Development > Test > Run e2e tests')?.item.command, 'npm run e2e');
+            assert.strictEqual(findRunTarget(menu, ['Lint'])?.item.command, 'npm run lint');
+            assert.strictEqual(findRunTarget(menu, { labelPath: ['Lint'] })?.item.command, 'npm run lint');
+        });
+
+        test('should not run categories or unknown targets', () => {
+            assert.strictEqual(findRunTarget(menu, 'Development'), undefined);
+            assert.strictEqual(findRunTarget(menu, {}), undefined);
+        });
+    });
+});
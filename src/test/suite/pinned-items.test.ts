@@ -0,0 +1,78 @@
+/**
+ * PinnedItems のテスト
+ * ピン留めの保存・メニューからの解決のテスト
+ */
+
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { PinnedItems } from '../../pinned-items';
+import { MenuItem } from '../../types';
+
+/**
+ * メモリ上のMementoを作成
+ */
+function createMemento(): vscode.Memento {
+    const values = new Map<string, unknown>();
+    return {
+        keys: () => [...values.keys()],
+        get: <T>(key: string, defaultValue?: T) => (values.has(key) ? values.get(key) as T : defaultValue),
+        update: async (key: string, value: unknown) => {
+            values.set(key, value);
+        }
+    } as vscode.Memento;
+}
+
+const menu: MenuItem[] = [
+    {
+        label: 'Development',
+        children: [
+            { label: 'Build', type: 'terminal', command: 'npm run build' },
+            { label: 'Test', type: 'terminal', command: 'npm test' }
+        ]
+    },
+    { label: 'Lint', type: 'terminal', command: 'npm run lint' }
+];
+
+suite('PinnedItems Test Suite', () => {
+
+    suite('PinnedItems', () => {
+
+        test('should pin, toggle and unpin by label path', async () => {
+            const pinnedItems = new PinnedItems(createMemento());
+
+            await pinnedItems.pin(['Development', 'Build']);
+            await pinnedItems.pin(['Development', 'Build']);
+            await pinnedItems.toggle(['Lint']);
+            assert.deepStrictEqual(pinnedItems.getLabelPaths(), [['Development', 'Build'], ['Lint']]);
+            assert.strictEqual(pinnedItems.isPinned(['Lint']), true);
+
+            await pinnedItems.toggle(['Lint']);
+            await pinnedItems.unpin(['Development', 'Build']);
+            assert.deepStrictEqual(pinnedItems.getLabelPaths(), []);
+            pinnedItems.dispose();
+        });
+
+        test('should resolve pins against the current menu', async () => {
+            const pinnedItems = new PinnedItems(createMemento());
+            await pinnedItems.pin(['Development', 'Test']);
+            await pinnedItems.pin(['Development', 'Removed']);
+
+            const pins = pinnedItems.resolve(menu);
+            assert.strictEqual(pins[0].item?.command, 'npm test');
+            assert.deepStrictEqual(pins[1], { labelPath: ['Development', 'Removed'], item: undefined });
+            pinnedItems.dispose();
+        });
+
+        test('should fire onDidChange when pins change', async () => {
+            const pinnedItems = new PinnedItems(createMemento());
+            let count = 0;
+            pinnedItems.onDidChange(() => count++);
+
+            await pinnedItems.toggle(['Lint']);
+            await pinnedItems.toggle(['Lint']);
+
+            assert.strictEqual(count, 2);
+            pinnedItems.dispose();
+        });
+    });
+});
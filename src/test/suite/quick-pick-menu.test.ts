@@ -1,5 +1,7 @@
 import * as assert from 'assert';
+import * as vscode from 'vscode';
 import { QuickPickMenu, TaskQuickPickItem } from '../../quick-pick-menu';
+import { HistoryEntry } from '../../execution-history';
 import { MenuItem, ResolvedAction } from '../../types';
 
 suite('QuickPickMenu Test Suite', () => {
@@ -189,5 +191,86 @@ suite('QuickPickMenu Test Suite', () => {
             const label = QuickPickMenu.formatLabel('Build', undefined);
             assert.strictEqual(label, 'Build');
         });
+
+        test('should append keybinding hint to description', () => {
+            assert.strictEqual(
+                QuickPickMenu.formatDescription({ label: 'Build', description: 'Build project', keybinding: 'Ctrl+Alt+B' }),
+                'Build project (Ctrl+Alt+B)'
+            );
+            assert.strictEqual(QuickPickMenu.formatDescription({ label: 'Build', keybinding: 'Ctrl+Alt+B' }), '(Ctrl+Alt+B)');
+            assert.strictEqual(QuickPickMenu.formatDescription({ label: 'Build', description: 'Build project' }), 'Build project');
+        });
+    });
+
+    suite('Recent Items', () => {
+        test('should create recent items between separators', () => {
+            const entry: HistoryEntry = {
+                labelPath: ['Dev', 'Build'],
+                actions: [{ type: 'terminal', command: 'npm run build' }],
+                timestamp: 1,
+                result: 'failed'
+            };
+
+            const items = QuickPickMenu.createRecentItems([entry]);
+
+            assert.strictEqual(items.length, 2);
+            assert.strictEqual(items[0].kind, vscode.QuickPickItemKind.Separator);
+            assert.strictEqual(items[1].label, '$(error) Dev > Build');
+            assert.strictEqual(items[1].description, 'npm run build');
+            assert.strictEqual(items[1].historyEntry, entry);
+        });
+
+        test('should return no items without history', () => {
+            assert.deepStrictEqual(QuickPickMenu.createRecentItems([]), []);
+        });
+    });
+
+    suite('Pinned Items', () => {
+        test('should create pinned items with parent path as description', () => {
+            const item: MenuItem = { label: 'Build', icon: '$(tools)', type: 'terminal', command: 'npm run build' };
+
+            const items = QuickPickMenu.createPinnedItems([{ labelPath: ['Dev', 'Build'], item }]);
+
+            assert.strictEqual(items.length, 2);
+            assert.strictEqual(items[0].kind, vscode.QuickPickItemKind.Separator);
+            assert.strictEqual(items[1].label, '$(tools) Build');
+            assert.strictEqual(items[1].description, 'Dev');
+            assert.strictEqual(items[1].menuItem, item);
+            assert.deepStrictEqual(items[1].labelPath, ['Dev', 'Build']);
+        });
+
+        test('should flag pins whose item no longer exists', () => {
+            const items = QuickPickMenu.createPinnedItems([{ labelPath: ['Dev', 'Removed'] }]);
+
+            assert.strictEqual(items[1].isMissingPin, true);
+            assert.strictEqual(items[1].label, '$(warning) Dev > Removed');
+        });
+    });
+
+    suite('Search Items', () => {
+        test('should flatten the whole tree with breadcrumbs in detail', () => {
+            const menu: MenuItem[] = [
+                {
+                    label: 'Development',
+                    children: [
+                        {
+                            label: 'Test',
+                            children: [
+                                { label: 'Run e2e tests', type: 'terminal', command: 'npm run e2e' }
+                            ]
+                        }
+                    ]
+                },
+                { label: 'Lint', icon: '$(check)', type: 'terminal', command: 'npm run lint' },
+                { label: 'Empty Category', children: [] }
+            ];
+
+            const items = QuickPickMenu.createSearchItems(menu);
+
+            assert.deepStrictEqual(items.map(item => item.label), ['Run e2e tests', '$(check) Lint']);
+            assert.strictEqual(items[0].detail, 'Development > Test');
+            assert.deepStrictEqual(items[0].labelPath, ['Development', 'Test', 'Run e2e tests']);
+            assert.strictEqual(items[1].detail, undefined);
+        });
     });
 });
@@ -5,6 +5,21 @@
 
 import * as assert from 'assert';
 import * as vscode from 'vscode';
+import { PinnedItems } from '../../pinned-items';
+
+/**
+ * メモリ上のMementoを作成
+ */
+function createMemento(): vscode.Memento {
+    const values = new Map<string, unknown>();
+    return {
+        keys: () => [...values.keys()],
+        get: <T>(key: string, defaultValue?: T) => (values.has(key) ? values.get(key) as T : defaultValue),
+        update: async (key: string, value: unknown) => {
+            values.set(key, value);
+        }
+    } as vscode.Memento;
+}
 
 suite('SidebarViewProvider Test Suite', () => {
     // モック用の変数
@@ -160,4 +175,57 @@ suite('SidebarViewProvider Test Suite', () => {
             'Should handle empty menu'
         );
     });
+
+    test('getMenuItemsHtml should render pin buttons when pinned items are available', async () => {
+        const { SidebarViewProvider } = await import('../../sidebar-view-provider');
+        const pinnedItems = new PinnedItems(createMemento());
+        await pinnedItems.pin(['Test Category', 'Test Command']);
+
+        const provider = new SidebarViewProvider(
+            mockContext.extensionUri,
+            mockConfigManager,
+            mockActionExecutor,
+            undefined,
+            pinnedItems
+        );
+
+        const html = provider.getMenuItemsHtml(mockConfigManager.getConfig().menu);
+
+        assert.ok(html.includes('codicon-pinned'), 'Pinned item should show pinned icon');
+        assert.ok(html.includes("togglePin('1')"), 'Unpinned leaf should have pin button');
+        pinnedItems.dispose();
+    });
+
+    test('resolveWebviewView should render flattened search results for the filter box', async () => {
+        const { SidebarViewProvider } = await import('../../sidebar-view-provider');
+        mockActionExecutor.history = {
+            getRecent: () => [],
+            onDidChange: () => ({ dispose: () => {} })
+        };
+        const provider = new SidebarViewProvider(
+            mockContext.extensionUri,
+            mockConfigManager,
+            mockActionExecutor
+        );
+        const webview: Partial<vscode.Webview> = {
+            options: {},
+            html: '',
+            cspSource: 'vscode-resource:',
+            asWebviewUri: (uri: vscode.Uri) => uri,
+            onDidReceiveMessage: () => ({ dispose: () => {} })
+        };
+        const webviewView: Partial<vscode.WebviewView> = { webview: webview as vscode.Webview };
+        const context: vscode.WebviewViewResolveContext = { state: undefined };
+        const token: vscode.CancellationToken = {
+            isCancellationRequested: false,
+            onCancellationRequested: () => ({ dispose: () => {} })
+        };
+
+        provider.resolveWebviewView(webviewView as vscode.WebviewView, context, token);
+
+        const html = webview.html ?? '';
+        assert.ok(html.includes('id="filterInput"'), 'Filter box should be rendered');
+        assert.ok(html.includes('data-search="test category test command"'), 'Nested item should be searchable by its path');
+        assert.ok(html.includes("onclick=\"execute('0.0')\""), 'Search result should execute the original item');
+    });
 });
@@ -0,0 +1,142 @@
+/**
+ * StatusBarItems のテスト
+ * ステータスバーボタンの作成・更新・実行中表示のテスト
+ */
+
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { StatusBarItems } from '../../status-bar-items';
+import { ConfigManager, ConfigChangeEvent } from '../../config-manager';
+import { MenuRunner } from '../../menu-runner';
+import { MenuConfig, MenuItem } from '../../types';
+
+/**
+ * テスト用のステータスバーアイテム
+ */
+interface FakeStatusBarItem {
+    alignment: vscode.StatusBarAlignment;
+    priority?: number;
+    text: string;
+    tooltip?: string;
+    color?: string | vscode.ThemeColor;
+    command?: vscode.Command;
+    visible: boolean;
+    disposed: boolean;
+}
+
+suite('StatusBarItems Test Suite', () => {
+    let sandbox: sinon.SinonSandbox;
+    let manager: ConfigManager;
+    let created: FakeStatusBarItem[];
+    let running: Set<string>;
+    let runningChanged: vscode.EventEmitter<void>;
+    let statusBarItems: StatusBarItems;
+
+    /**
+     * 設定を差し替えて変更イベントを発火
+     */
+    function setMenu(menu: MenuItem[]): void {
+        const config: MenuConfig = { version: '1.0', menu };
+        (manager as unknown as { config: MenuConfig }).config = config;
+        (manager as unknown as { _onConfigChanged: vscode.EventEmitter<ConfigChangeEvent> })._onConfigChanged.fire({ config });
+    }
+
+    /**
+     * 表示中のステータスバーアイテム
+     */
+    function visibleItems(): FakeStatusBarItem[] {
+        return created.filter(item => item.visible && !item.disposed);
+    }
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+        created = [];
+        sandbox.stub(vscode.window, 'createStatusBarItem').value((alignment: vscode.StatusBarAlignment, priority?: number) => {
+            const item: FakeStatusBarItem = {
+                alignment,
+                priority,
+                text: '',
+                visible: false,
+                disposed: false
+            };
+            created.push(item);
+            return Object.assign(item, {
+                show: () => { item.visible = true; },
+                hide: () => { item.visible = false; },
+                dispose: () => { item.disposed = true; }
+            });
+        });
+
+        running = new Set();
+        runningChanged = new vscode.EventEmitter<void>();
+        const runner = {
+            onDidChangeRunning: runningChanged.event,
+            isRunning: (labelPath: string[]) => running.has(labelPath.join(' > '))
+        } as unknown as MenuRunner;
+
+        manager = new ConfigManager();
+        statusBarItems = new StatusBarItems(manager, runner);
+        setMenu([
+            {
+                label: 'Development',
+                children: [
+                    { label: 'Build', icon: '$(package)', type: 'terminal', command: 'npm run build', statusBar: true },
+                    { label: 'Test', type: 'terminal', command: 'npm test' }
+                ]
+            },
+            {
+                label: 'Deploy',
+                description: 'Deploy to staging',
+                actions: [{ type: 'terminal', command: 'npm run build' }, { type: 'terminal', command: 'npm run deploy' }],
+                statusBar: { text: '$(rocket) Ship', alignment: 'right', priority: 100, color: 'charts.green' }
+            }
+        ]);
+    });
+
+    teardown(() => {
+        statusBarItems.dispose();
+        manager.dispose();
+        runningChanged.dispose();
+        sandbox.restore();
+    });
+
+    test('should create buttons for items with statusBar', () => {
+        const [build, deploy] = visibleItems();
+
+        assert.strictEqual(visibleItems().length, 2);
+        assert.strictEqual(build.text, '$(package) Build');
+        assert.strictEqual(build.alignment, vscode.StatusBarAlignment.Left);
+        assert.deepStrictEqual(build.command?.arguments, [['Development', 'Build']]);
+        assert.strictEqual(build.command?.command, 'taskPilot.run');
+
+        assert.strictEqual(deploy.text, '$(rocket) Ship');
+        assert.strictEqual(deploy.tooltip, 'Deploy to staging');
+        assert.strictEqual(deploy.alignment, vscode.StatusBarAlignment.Right);
+        assert.strictEqual(deploy.priority, 100);
+        assert.ok(deploy.color instanceof vscode.ThemeColor);
+    });
+
+    test('should recreate buttons on config change', () => {
+        setMenu([{ label: 'Lint', type: 'terminal', command: 'npm run lint', statusBar: { color: '#ff0000' } }]);
+
+        assert.deepStrictEqual(visibleItems().map(item => item.text), ['Lint']);
+        assert.strictEqual(visibleItems()[0].color, '#ff0000');
+        assert.deepStrictEqual(statusBarItems.getLabelPaths(), [['Lint']]);
+    });
+
+    test('should show a spinner while the item is running', () => {
+        running.add('Deploy');
+        runningChanged.fire();
+        assert.strictEqual(visibleItems()[1].text, '$(sync~spin) Ship');
+
+        running.delete('Deploy');
+        runningChanged.fire();
+        assert.strictEqual(visibleItems()[1].text, '$(rocket) Ship');
+    });
+
+    test('should dispose all buttons', () => {
+        statusBarItems.dispose();
+        assert.strictEqual(visibleItems().length, 0);
+    });
+});
@@ -0,0 +1,173 @@
+/**
+ * TaskImporter のテスト
+ * tasks.json・launch.jsonから作成した項目を設定にマージする機能のテスト
+ */
+
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { ConfigEditor } from '../../config-editor';
+import { createImportEntries, mergeImportEntries, START_DEBUGGING_COMMAND, startDebugging, toCommandName } from '../../task-importer';
+import { MenuConfig } from '../../types';
+import { parseMenuConfig } from '../../yaml-parser';
+import { patchYaml } from '../../yaml-patch';
+
+suite('TaskImporter Test Suite', () => {
+    let editor: ConfigEditor;
+
+    const tasks = [
+        { label: 'build', type: 'shell', command: 'npm run build', group: { kind: 'build', isDefault: true } },
+        { label: 'test', type: 'shell', command: 'npm test', group: 'test', detail: 'Run unit tests' },
+        { type: 'npm', script: 'lint' },
+        { type: 'shell', command: 'echo no label' }
+    ];
+    const configurations = [
+        { name: 'Launch Extension', type: 'extensionHost', request: 'launch', args: ['--extensionDevelopmentPath=${workspaceFolder}'] },
+        { type: 'node', request: 'attach' }
+    ];
+
+    setup(() => {
+        editor = new ConfigEditor();
+    });
+
+    teardown(() => {
+        editor.dispose();
+    });
+
+    suite('createImportEntries', () => {
+        test('タスクをグループごとのカテゴリのtaskコマンドにする', () => {
+            const entries = createImportEntries(tasks, []);
+
+            assert.deepStrictEqual(entries.map(entry => [entry.label, entry.category.label]), [
+                ['build', 'Build'],
+                ['test', 'Test'],
+                ['npm: lint', 'Tasks']
+            ]);
+            assert.deepStrictEqual(entries[1].command, { type: 'task', command: 'test', description: 'Run unit tests' });
+        });
+
+        test('起動構成を名前で開始するDebugカテゴリのvscodeCommandにする', () => {
+            const entries = createImportEntries([], configurations);
+
+            assert.strictEqual(entries.length, 1);
+            assert.strictEqual(entries[0].source, 'launch.json');
+            assert.strictEqual(entries[0].category.label, 'Debug');
+            assert.deepStrictEqual(entries[0].command, {
+                type: 'vscodeCommand',
+                command: START_DEBUGGING_COMMAND,
+                args: ['Launch Extension', '${workspaceFolder}']
+            });
+        });
+    });
+
+    suite('mergeImportEntries', () => {
+        const config: MenuConfig = {
+            version: '1.0',
+            commands: {
+                build: { type: 'terminal', command: 'make' }
+            },
+            menu: [
+                { label: 'Build', children: [{ label: 'Make', ref: 'build' }] }
+            ]
+        };
+
+        test('既存のカテゴリに追加し、ないカテゴリは末尾に作成する', () => {
+            const { config: merged, added } = mergeImportEntries(config, createImportEntries(tasks, []), editor);
+
+            assert.strictEqual(added.length, 3);
+            assert.deepStrictEqual(merged.menu.map(item => item.label), ['Build', 'Test', 'Tasks']);
+            assert.deepStrictEqual(merged.menu[0].children, [
+                { label: 'Make', ref: 'build' },
+                { label: 'build', ref: 'build-2' }
+            ]);
+            assert.deepStrictEqual(merged.menu[2].children, [{ label: 'npm: lint', ref: 'npm-lint' }]);
+            assert.deepStrictEqual(merged.commands?.['build-2'], { type: 'task', command: 'build' });
+            assert.strictEqual(config.menu[0].children?.length, 1, '元の設定は変更しない');
+        });
+
+        test('同じ内容のコマンドがある項目は追加しない', () => {
+            const entries = createImportEntries(tasks, []);
+            const first = mergeImportEntries(config, entries, editor).config;
+            const second = mergeImportEntries(first, entries, editor);
+
+            assert.strictEqual(second.added.length, 0);
+            assert.deepStrictEqual(second.config, first);
+        });
+
+        test('includeされたファイルのコマンドも重複の対象とする', () => {
+            const { added } = mergeImportEntries(config, createImportEntries(tasks, []), editor, {
+                'npm-lint': { type: 'task', command: 'npm: lint' }
+            });
+
+            assert.deepStrictEqual(added.map(entry => entry.label), ['build', 'test']);
+        });
+
+        test('マージした設定は元のYAMLのコメントを保持して保存できる', () => {
+            const content = [
+                '# Project menu',
+                'version: "1.0"',
+                'commands:',
+                '  build:',
+                '    type: terminal',
+                '    command: make   # legacy build',
+                'menu:',
+                '  - label: Build',
+                '    children:',
+                '      - label: Make',
+                '        ref: build',
+                ''
+            ].join('\n');
+
+            const { config: merged } = mergeImportEntries(parseMenuConfig(content), createImportEntries(tasks, configurations), editor);
+            const saved = patchYaml(content, merged);
+
+            assert.ok(saved.includes('# Project menu'));
+            assert.ok(saved.includes('command: make   # legacy build'));
+            assert.deepStrictEqual(parseMenuConfig(saved), merged);
+        });
+    });
+
+    suite('startDebugging', () => {
+        let sandbox: sinon.SinonSandbox;
+
+        setup(() => {
+            sandbox = sinon.createSandbox();
+        });
+
+        teardown(() => {
+            sandbox.restore();
+        });
+
+        test('構成を開始できない場合は構成名を含むエラーを表示する', async () => {
+            const start = sandbox.stub(vscode.debug, 'startDebugging').resolves(false);
+            const showError = sandbox.stub(vscode.window, 'showErrorMessage').resolves(undefined);
+
+            await startDebugging('Removed Config');
+
+            assert.strictEqual(start.firstCall.args[1], 'Removed Config');
+            assert.ok(showError.calledOnce);
+            assert.ok(String(showError.firstCall.args[0]).includes('"Removed Config"'));
+        });
+
+        test('構成を開始できた場合はエラーを表示しない', async () => {
+            sandbox.stub(vscode.debug, 'startDebugging').resolves(true);
+            const showError = sandbox.stub(vscode.window, 'showErrorMessage').resolves(undefined);
+
+            await startDebugging('Launch Extension');
+
+            assert.ok(showError.notCalled);
+        });
+    });
+
+    suite('toCommandName', () => {
+        test('ラベルをコマンド名に使える形に変換する', () => {
+            assert.strictEqual(toCommandName('npm: build', {}), 'npm-build');
+            assert.strictEqual(toCommandName('Launch Extension', {}), 'launch-extension');
+            assert.strictEqual(toCommandName('日本語', {}), 'task');
+        });
+
+        test('既存の名前と重複する場合は連番を付ける', () => {
+            assert.strictEqual(toCommandName('Build', { build: {}, 'build-2': {} }), 'build-3');
+        });
+    });
+});
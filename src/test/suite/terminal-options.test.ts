@@ -0,0 +1,111 @@
+/**
+ * TerminalOptions のテスト
+ * シェル・表示設定・ターミナルプロファイルの変換のテスト
+ */
+
+import * as assert from 'assert';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { createTerminalOptions, TerminalProfileError } from '../../terminal-options';
+
+suite('TerminalOptions Test Suite', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    /**
+     * 現在のOSのターミナルプロファイル設定を差し替え
+     */
+    function stubProfiles(profiles: Record<string, unknown>): void {
+        sandbox.stub(vscode.workspace, 'getConfiguration').returns({
+            get: () => profiles
+        } as unknown as vscode.WorkspaceConfiguration);
+    }
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    test('should return only the name without an action', () => {
+        assert.deepStrictEqual(createTerminalOptions('TaskPilot'), { name: 'TaskPilot' });
+    });
+
+    test('should map shell and tab options', () => {
+        const options = createTerminalOptions('Build', {
+            type: 'terminal',
+            command: 'npm run build',
+            cwd: '/project',
+            env: { CI: 'true' },
+            shell: '/bin/bash',
+            shellArgs: ['-l'],
+            iconPath: 'terminal-bash',
+            color: 'terminal.ansiGreen',
+            location: 'editor'
+        });
+
+        assert.strictEqual(options.cwd, '/project');
+        assert.deepStrictEqual(options.env, { CI: 'true' });
+        assert.strictEqual(options.shellPath, '/bin/bash');
+        assert.deepStrictEqual(options.shellArgs, ['-l']);
+        assert.ok(options.iconPath instanceof vscode.ThemeIcon);
+        assert.ok(options.color instanceof vscode.ThemeColor);
+        assert.strictEqual(options.location, vscode.TerminalLocation.Editor);
+    });
+
+    test('should use an image file as icon', () => {
+        const options = createTerminalOptions('Build', {
+            type: 'terminal',
+            command: 'make',
+            iconPath: 'media/build.svg',
+            workspaceFolder: '/project'
+        });
+
+        assert.strictEqual((options.iconPath as vscode.Uri).fsPath, path.resolve('/project', 'media/build.svg'));
+    });
+
+    test('should take settings from the terminal profile and let explicit options win', () => {
+        stubProfiles({
+            'My Bash': { path: ['/nonexistent/bash', process.execPath], args: ['-l'], env: { PROFILE: '1' }, icon: 'terminal-bash', color: 'terminal.ansiRed' }
+        });
+
+        const options = createTerminalOptions('Build', {
+            type: 'terminal',
+            command: 'make',
+            terminalProfile: 'My Bash',
+            env: { CI: 'true' },
+            color: 'terminal.ansiBlue'
+        });
+
+        assert.strictEqual(options.shellPath, process.execPath);
+        assert.deepStrictEqual(options.shellArgs, ['-l']);
+        assert.deepStrictEqual(options.env, { PROFILE: '1', CI: 'true' });
+        assert.strictEqual((options.iconPath as vscode.ThemeIcon).id, 'terminal-bash');
+        assert.strictEqual((options.color as vscode.ThemeColor).id, 'terminal.ansiBlue');
+    });
+
+    test('should not pass profile args to an explicit shell', () => {
+        stubProfiles({ 'My Bash': { path: '/bin/bash', args: ['-l'] } });
+
+        const options = createTerminalOptions('Build', {
+            type: 'terminal',
+            command: 'make',
+            terminalProfile: 'My Bash',
+            shell: '/bin/zsh'
+        });
+
+        assert.strictEqual(options.shellPath, '/bin/zsh');
+        assert.strictEqual(options.shellArgs, undefined);
+    });
+
+    test('should throw TerminalProfileError for unknown profiles', () => {
+        stubProfiles({});
+
+        assert.throws(
+            () => createTerminalOptions('Build', { type: 'terminal', command: 'make', terminalProfile: 'Missing' }),
+            TerminalProfileError
+        );
+    });
+});
@@ -296,6 +296,35 @@ suite('Type Definition Test Suite', () => {
             assert.strictEqual(result.valid, true);
         });
 
+        test('should accept "process" action type with env and timeout', () => {
+            const config = {
+                version: '1.0',
+                menu: [
+                    { label: 'Lint', type: 'process', command: 'npm run lint', env: { CI: 'true' }, timeout: 120 }
+                ]
+            };
+
+            const { result } = validateConfig(config);
+            assert.strictEqual(result.valid, true);
+        });
+
+        test('should reject invalid env and timeout for "process"', () => {
+            const config = {
+                version: '1.0',
+                commands: {
+                    lint: { type: 'process', command: 'npm run lint', env: { CI: true }, timeout: 0 }
+                },
+                menu: [
+                    { label: 'Lint', ref: 'lint' }
+                ]
+            };
+
+            const { result } = validateConfig(config);
+            assert.strictEqual(result.valid, false);
+            assert.ok(result.errors.some(e => e.path === 'commands.lint.env.CI'));
+            assert.ok(result.errors.some(e => e.path === 'commands.lint.timeout'));
+        });
+
         test('should reject invalid action type', () => {
             const config = {
                 version: '1.0',
@@ -489,7 +518,7 @@ suite('Type Definition Test Suite', () => {
             const { result } = validateConfig(config);
             assert.strictEqual(result.valid, false);
             assert.ok(result.errors.some(e =>
-                e.message.includes('Command definition must be an object')
+                e.path === 'commands.badCmd' && e.message.includes('must be an object')
             ));
         });
     });
@@ -720,4 +749,151 @@ menu:
             assert.strictEqual(config.menu[0].continueOnError, false);
         });
     });
+
+    suite('Variables Validation', () => {
+
+        test('should accept string variables', () => {
+            const config = {
+                version: '1.0',
+                variables: { appDir: '${workspaceFolder}/app', 'deploy.target': 'prod' },
+                menu: [{ label: 'Build', type: 'terminal', command: 'cd ${appDir}' }]
+            };
+
+            const { result, config: parsed } = validateConfig(config);
+            assert.strictEqual(result.valid, true);
+            assert.strictEqual(parsed!.variables!.appDir, '${workspaceFolder}/app');
+        });
+
+        test('should reject non-object variables', () => {
+            const config = {
+                version: '1.0',
+                variables: ['a', 'b'],
+                menu: []
+            };
+
+            const { result } = validateConfig(config);
+            assert.strictEqual(result.valid, false);
+            assert.ok(result.errors.some(e => e.path === 'variables'));
+        });
+
+        test('should reject non-string variable values', () => {
+            const config = {
+                version: '1.0',
+                variables: { port: 8080 },
+                menu: []
+            };
+
+            const { result } = validateConfig(config);
+            assert.strictEqual(result.valid, false);
+            assert.ok(result.errors.some(e => e.path === 'variables.port'));
+        });
+
+        test('should reject invalid variable names', () => {
+            const config = {
+                version: '1.0',
+                variables: { 'env:HOME': '/tmp' },
+                menu: []
+            };
+
+            const { result } = validateConfig(config);
+            assert.strictEqual(result.valid, false);
+            assert.ok(result.errors.some(e => e.path === 'variables.env:HOME'));
+        });
+    });
+
+    suite('Inputs Validation', () => {
+
+        test('should accept promptString and pickString inputs', () => {
+            const config = {
+                version: '1.0',
+                inputs: [
+                    { id: 'message', type: 'promptString', default: 'wip', validation: '^.{1,72}$' },
+                    { id: 'env', type: 'pickString', options: ['dev', { label: 'Production', value: 'prod' }] }
+                ],
+                menu: [{ label: 'Deploy', type: 'terminal', command: 'deploy ${input:env}' }]
+            };
+
+            const { result, config: parsed } = validateConfig(config);
+            assert.strictEqual(result.valid, true);
+            assert.strictEqual(parsed!.inputs!.length, 2);
+        });
+
+        test('should reject duplicate input ids', () => {
+            const config = {
+                version: '1.0',
+                inputs: [
+                    { id: 'env', type: 'promptString' },
+                    { id: 'env', type: 'promptString' }
+                ],
+                menu: []
+            };
+
+            const { result } = validateConfig(config);
+            assert.strictEqual(result.valid, false);
+            assert.ok(result.errors.some(e => e.path === 'inputs[1].id'));
+        });
+
+        test('should reject pickString without options', () => {
+            const config = {
+                version: '1.0',
+                inputs: [{ id: 'env', type: 'pickString' }],
+                menu: []
+            };
+
+            const { result } = validateConfig(config);
+            assert.strictEqual(result.valid, false);
+            assert.ok(result.errors.some(e => e.path === 'inputs[0].options'));
+        });
+
+        test('should reject invalid input type and regex', () => {
+            const config = {
+                version: '1.0',
+                inputs: [{ id: 'x', type: 'command', validation: '[' }],
+                menu: []
+            };
+
+            const { result } = validateConfig(config);
+            assert.strictEqual(result.valid, false);
+            assert.ok(result.errors.some(e => e.path === 'inputs[0].type'));
+            assert.ok(result.errors.some(e => e.path === 'inputs[0].validation'));
+        });
+    });
+
+    suite('When Validation', () => {
+
+        test('should accept valid when expressions on menu items and commands', () => {
+            const config = {
+                version: '1.0',
+                commands: {
+                    cargo: { type: 'terminal', command: 'cargo build', when: "exists('Cargo.toml')" }
+                },
+                menu: [
+                    { label: 'Linux only', type: 'terminal', command: 'ls', when: 'isLinux && !isRemote' },
+                    { label: 'Cargo', ref: 'cargo' }
+                ]
+            };
+
+            const { result } = validateConfig(config);
+            assert.strictEqual(result.valid, true);
+        });
+
+        test('should reject invalid when expressions', () => {
+            const config = {
+                version: '1.0',
+                commands: {
+                    bad: { type: 'terminal', command: 'x', when: 'isLinux &&' }
+                },
+                menu: [
+                    { label: 'Unknown', type: 'terminal', command: 'ls', when: 'isFreeBSD' },
+                    { label: 'Not string', type: 'terminal', command: 'ls', when: true }
+                ]
+            };
+
+            const { result } = validateConfig(config);
+            assert.strictEqual(result.valid, false);
+            assert.ok(result.errors.some(e => e.path === 'commands.bad.when'));
+            assert.ok(result.errors.some(e => e.path === 'menu[0].when' && e.message.includes('isFreeBSD')));
+            assert.ok(result.errors.some(e => e.path === 'menu[1].when'));
+        });
+    });
 });
@@ -0,0 +1,233 @@
+/**
+ * VariableResolverテスト
+ *
+ * テスト対象:
+ * - 組み込み変数（${workspaceFolder}, ${file}, ${relativeFile}, ${selectedText}）
+ * - ${env:NAME}, ${config:...}
+ * - カスタム変数（MenuConfig.variables）
+ * - 入力値（${input:id}）
+ * - 未知の変数・循環参照のエラー
+ */
+
+import * as assert from 'assert';
+import * as path from 'path';
+import {
+    resolveVariables,
+    resolveActionVariables,
+    collectInputIds,
+    VariableContext,
+    VariableResolveError
+} from '../../variable-resolver';
+import { ResolvedAction } from '../../types';
+
+/**
+ * テスト用コンテキストを作成
+ */
+function createContext(overrides: Partial<VariableContext> = {}): VariableContext {
+    const root = path.join(path.sep, 'home', 'user', 'project');
+    return {
+        workspaceFolder: root,
+        file: path.join(root, 'src', 'index.ts'),
+        selectedText: 'hello',
+        lineNumber: 12,
+        env: { HOME: '/home/user' },
+        getConfiguration: (key: string) => (key === 'editor.tabSize' ? 4 : undefined),
+        variables: {},
+        inputs: {},
+        ...overrides
+    };
+}
+
+suite('VariableResolver Test Suite', () => {
+
+    suite('resolveVariables - 組み込み変数', () => {
+
+        test('should resolve ${workspaceFolder}', () => {
+            const context = createContext();
+            assert.strictEqual(
+                resolveVariables('cd ${workspaceFolder}', context),
+                `cd ${context.workspaceFolder}`
+            );
+        });
+
+        test('should resolve file related variables', () => {
+            const context = createContext();
+            assert.strictEqual(resolveVariables('${file}', context), context.file);
+            assert.strictEqual(resolveVariables('${relativeFile}', context), path.join('src', 'index.ts'));
+            assert.strictEqual(resolveVariables('${fileBasename}', context), 'index.ts');
+            assert.strictEqual(resolveVariables('${fileBasenameNoExtension}', context), 'index');
+            assert.strictEqual(resolveVariables('${fileExtname}', context), '.ts');
+        });
+
+        test('should resolve ${selectedText} and ${lineNumber}', () => {
+            const context = createContext();
+            assert.strictEqual(resolveVariables('grep ${selectedText}', context), 'grep hello');
+            assert.strictEqual(resolveVariables('${lineNumber}', context), '12');
+        });
+
+        test('should resolve ${selectedText} to empty string without selection', () => {
+            const context = createContext({ selectedText: undefined });
+            assert.strictEqual(resolveVariables('[${selectedText}]', context), '[]');
+        });
+
+        test('should throw when ${file} is used without active editor', () => {
+            const context = createContext({ file: undefined });
+            assert.throws(
+                () => resolveVariables('${file}', context),
+                (err: unknown) => err instanceof VariableResolveError && err.variable === 'file'
+            );
+        });
+
+        test('should leave strings without variables unchanged', () => {
+            const context = createContext();
+            assert.strictEqual(resolveVariables('npm run build', context), 'npm run build');
+        });
+    });
+
+    suite('resolveVariables - env/config', () => {
+
+        test('should resolve ${env:NAME}', () => {
+            const context = createContext();
+            assert.strictEqual(resolveVariables('${env:HOME}/bin', context), '/home/user/bin');
+        });
+
+        test('should resolve missing env variable to empty string', () => {
+            const context = createContext();
+            assert.strictEqual(resolveVariables('[${env:MISSING}]', context), '[]');
+        });
+
+        test('should resolve ${config:section.key}', () => {
+            const context = createContext();
+            assert.strictEqual(resolveVariables('${config:editor.tabSize}', context), '4');
+        });
+    });
+
+    suite('resolveVariables - カスタム変数', () => {
+
+        test('should resolve custom variable', () => {
+            const context = createContext({ variables: { appName: 'web' } });
+            assert.strictEqual(resolveVariables('deploy ${appName}', context), 'deploy web');
+        });
+
+        test('should resolve nested variables inside custom variable', () => {
+            const context = createContext({
+                variables: { appDir: '${workspaceFolder}/packages/${appName}', appName: 'web' }
+            });
+            assert.strictEqual(
+                resolveVariables('${appDir}', context),
+                `${context.workspaceFolder}/packages/web`
+            );
+        });
+
+        test('should prefer builtin variables over custom variables', () => {
+            const context = createContext({ variables: { workspaceFolder: '/other' } });
+            assert.strictEqual(resolveVariables('${workspaceFolder}', context), context.workspaceFolder);
+        });
+
+        test('should detect circular references', () => {
+            const context = createContext({ variables: { a: '${b}', b: '${a}' } });
+            assert.throws(
+                () => resolveVariables('${a}', context),
+                (err: unknown) => err instanceof VariableResolveError && err.message.includes('Circular')
+            );
+        });
+
+        test('should throw for unknown variable', () => {
+            const context = createContext();
+            assert.throws(
+                () => resolveVariables('echo ${unknownVar}', context),
+                (err: unknown) => err instanceof VariableResolveError &&
+                    err.variable === 'unknownVar' &&
+                    err.message.includes('Unknown variable')
+            );
+        });
+    });
+
+    suite('resolveVariables - 入力値', () => {
+
+        test('should resolve ${input:id}', () => {
+            const context = createContext({ inputs: { env: 'production' } });
+            assert.strictEqual(resolveVariables('deploy --env ${input:env}', context), 'deploy --env production');
+        });
+
+        test('should resolve input referenced from custom variable', () => {
+            const context = createContext({
+                variables: { target: 'deploy-${input:env}' },
+                inputs: { env: 'staging' }
+            });
+            assert.strictEqual(resolveVariables('${target}', context), 'deploy-staging');
+        });
+
+        test('should throw for input without value', () => {
+            const context = createContext();
+            assert.throws(
+                () => resolveVariables('${input:env}', context),
+                (err: unknown) => err instanceof VariableResolveError && err.message.includes('Unknown input')
+            );
+        });
+    });
+
+    suite('collectInputIds', () => {
+
+        test('should collect input ids in order without duplicates', () => {
+            const actions: ResolvedAction[] = [
+                { type: 'terminal', command: 'deploy ${input:env} ${input:version}', cwd: '${input:env}' },
+                { type: 'vscodeCommand', command: 'x', args: [{ value: '${input:flag}' }] }
+            ];
+            assert.deepStrictEqual(collectInputIds(actions), ['env', 'version', 'flag']);
+        });
+
+        test('should collect input ids through custom variables', () => {
+            const actions: ResolvedAction[] = [
+                { type: 'terminal', command: 'deploy ${target}' }
+            ];
+            const variables = { target: '${input:env}-${loop}', loop: '${target}' };
+            assert.deepStrictEqual(collectInputIds(actions, variables), ['env']);
+        });
+
+        test('should return empty array when no inputs are referenced', () => {
+            const actions: ResolvedAction[] = [{ type: 'terminal', command: 'npm test' }];
+            assert.deepStrictEqual(collectInputIds(actions), []);
+        });
+    });
+
+    suite('resolveActionVariables', () => {
+
+        test('should resolve command, cwd, path and args', () => {
+            const context = createContext({ variables: { target: 'prod' } });
+            const action: ResolvedAction = {
+                type: 'terminal',
+                command: 'deploy ${target}',
+                cwd: '${workspaceFolder}/app',
+                path: '${workspaceFolder}',
+                args: ['${target}', { nested: '${target}' }, 42]
+            };
+
+            const resolved = resolveActionVariables(action, context);
+            assert.strictEqual(resolved.command, 'deploy prod');
+            assert.strictEqual(resolved.cwd, `${context.workspaceFolder}/app`);
+            assert.strictEqual(resolved.path, context.workspaceFolder);
+            assert.deepStrictEqual(resolved.args, ['prod', { nested: 'prod' }, 42]);
+        });
+
+        test('should resolve env values', () => {
+            const context = createContext({ variables: { target: 'prod' } });
+            const action: ResolvedAction = {
+                type: 'process',
+                command: 'deploy',
+                env: { TARGET: '${target}', HOME_DIR: '${env:HOME}' }
+            };
+
+            const resolved = resolveActionVariables(action, context);
+            assert.deepStrictEqual(resolved.env, { TARGET: 'prod', HOME_DIR: '/home/user' });
+        });
+
+        test('should not mutate the original action', () => {
+            const context = createContext({ variables: { target: 'prod' } });
+            const action: ResolvedAction = { type: 'terminal', command: 'deploy ${target}' };
+
+            resolveActionVariables(action, context);
+            assert.strictEqual(action.command, 'deploy ${target}');
+        });
+    });
+});
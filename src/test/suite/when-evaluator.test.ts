@@ -0,0 +1,122 @@
+/**
+ * WhenEvaluatorテスト
+ *
+ * テスト対象:
+ * - platform / remoteName / env.NAME の比較
+ * - exists() によるファイル存在チェック
+ * - 論理演算子と括弧
+ * - 構文エラー・未知の識別子
+ */
+
+import * as assert from 'assert';
+import {
+    evaluateWhen,
+    validateWhen,
+    collectFilePatterns,
+    WhenContext,
+    WhenExpressionError
+} from '../../when-evaluator';
+
+/**
+ * テスト用コンテキストを作成
+ */
+function createContext(overrides: Partial<WhenContext> = {}): WhenContext {
+    return {
+        platform: 'linux',
+        remoteName: undefined,
+        env: { CI: 'true', NODE_ENV: 'development' },
+        fileExists: pattern => pattern === 'package.json',
+        ...overrides
+    };
+}
+
+suite('WhenEvaluator Test Suite', () => {
+
+    suite('evaluateWhen - 識別子と比較', () => {
+
+        test('should compare platform with bare and quoted values', () => {
+            const context = createContext();
+            assert.strictEqual(evaluateWhen('platform == linux', context), true);
+            assert.strictEqual(evaluateWhen("platform == 'win32'", context), false);
+            assert.strictEqual(evaluateWhen('platform != darwin', context), true);
+        });
+
+        test('should evaluate platform shortcuts', () => {
+            assert.strictEqual(evaluateWhen('isLinux', createContext()), true);
+            assert.strictEqual(evaluateWhen('isWindows', createContext()), false);
+            assert.strictEqual(evaluateWhen('isMac', createContext({ platform: 'darwin' })), true);
+        });
+
+        test('should evaluate remoteName', () => {
+            const local = createContext();
+            const container = createContext({ remoteName: 'dev-container' });
+
+            assert.strictEqual(evaluateWhen('isRemote', local), false);
+            assert.strictEqual(evaluateWhen('remoteName == dev-container', container), true);
+            assert.strictEqual(evaluateWhen('isRemote', container), true);
+        });
+
+        test('should evaluate env variables', () => {
+            const context = createContext();
+            assert.strictEqual(evaluateWhen('env.CI', context), true);
+            assert.strictEqual(evaluateWhen('env.MISSING', context), false);
+            assert.strictEqual(evaluateWhen('env.NODE_ENV != production', context), true);
+        });
+
+        test('should evaluate exists()', () => {
+            const context = createContext();
+            assert.strictEqual(evaluateWhen("exists('package.json')", context), true);
+            assert.strictEqual(evaluateWhen('exists("Cargo.toml")', context), false);
+        });
+    });
+
+    suite('evaluateWhen - 論理演算', () => {
+
+        test('should evaluate !, && and ||', () => {
+            const context = createContext();
+            assert.strictEqual(evaluateWhen('isLinux && !isRemote', context), true);
+            assert.strictEqual(evaluateWhen('isWindows || isMac', context), false);
+            assert.strictEqual(evaluateWhen("isWindows || exists('package.json')", context), true);
+        });
+
+        test('should give && higher precedence than ||', () => {
+            const context = createContext();
+            assert.strictEqual(evaluateWhen('isLinux || isWindows && isMac', context), true);
+            assert.strictEqual(evaluateWhen('(isLinux || isWindows) && isMac', context), false);
+        });
+    });
+
+    suite('validateWhen - エラー', () => {
+
+        test('should reject unknown identifiers', () => {
+            assert.throws(
+                () => validateWhen('isFreeBSD'),
+                (err: unknown) => err instanceof WhenExpressionError && err.message.includes('unknown identifier')
+            );
+        });
+
+        test('should reject incomplete expressions', () => {
+            assert.throws(() => validateWhen('isLinux &&'), WhenExpressionError);
+            assert.throws(() => validateWhen('(isLinux'), WhenExpressionError);
+            assert.throws(() => validateWhen(''), WhenExpressionError);
+        });
+
+        test('should require quoted pattern for exists()', () => {
+            assert.throws(() => validateWhen('exists(package.json)'), WhenExpressionError);
+        });
+    });
+
+    suite('collectFilePatterns', () => {
+
+        test('should collect patterns from nested expressions', () => {
+            assert.deepStrictEqual(
+                collectFilePatterns("isLinux && (exists('package.json') || !exists('*.sln'))"),
+                ['package.json', '*.sln']
+            );
+        });
+
+        test('should return empty array for invalid expressions', () => {
+            assert.deepStrictEqual(collectFilePatterns("exists('a') &&"), []);
+        });
+    });
+});
@@ -5,7 +5,120 @@
 
 import * as assert from 'assert';
 import { generateYaml, generateMenuItemYaml } from '../../yaml-generator';
+import { parseMenuConfig } from '../../yaml-parser';
 import { MenuConfig, MenuItem, CommandDefinition } from '../../types';
+import { configSchema, getDefinition, JsonSchema } from '../../config-schema';
+
+/** 文字列の部品（クォートが必要な記号・予約語・数値として読み込まれる文字列を含む） */
+const STRING_PARTS = [
+    'a', 'Build', 'npm run', ' ', ':', ': ', '#', ' #', '-', '- ', '"', "'", '\\', '\n', '\t',
+    '{', '}', '[', ']', '*', '&', '!', '%', '@', '`', '|', '>', '?', ',', '~', '$(tools)', '${file}', '日本語',
+    'true', 'False', 'null', 'yes', 'off', '1', '0x1F', '1e3', '.inf', '<<'
+];
+
+/** 検証を通るwhen式 */
+const WHEN_EXPRESSIONS = ['isWindows', '!isMac', 'isLinux || isMac'];
+
+/**
+ * シード付きの疑似乱数（mulberry32、失敗したケースを再現できるようにする）
+ */
+function createRandom(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state + 0x6D2B79F5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * スキーマに従ってランダムな値を生成
+ * 任意のプロパティは一定の確率で含め、入れ子の配列は深さを制限する
+ */
+function arbitrary(node: JsonSchema | undefined, random: () => number, depth: number): unknown {
+    const pick = <T>(values: T[]): T => values[Math.floor(random() * values.length)];
+
+    if (node?.$ref) {
+        return arbitrary(getDefinition(node.$ref), random, depth);
+    }
+    if (node?.enum) {
+        return pick(node.enum);
+    }
+    if (node?.anyOf) {
+        return arbitrary(pick(node.anyOf), random, depth);
+    }
+
+    switch (node?.type) {
+        case 'number':
+            return 1 + Math.floor(random() * 1000);
+        case 'boolean':
+            return random() < 0.5;
+        case 'array': {
+            const length = depth > 2 ? 0 : 1 + Math.floor(random() * 2);
+            return Array.from({ length }, () => arbitrary(node.items, random, depth + 1));
+        }
+        case 'object': {
+            const result: Record<string, unknown> = {};
+            for (const [name, property] of Object.entries(node.properties ?? {})) {
+                if (node.required?.includes(name) || random() < 0.3) {
+                    result[name] = arbitrary(property, random, depth);
+                }
+            }
+            if (typeof node.additionalProperties === 'object') {
+                for (let i = Math.floor(random() * 3); i > 0; i--) {
+                    result[`${pick(['key', 'KEY', '_k'])}${pick(['', '.a', '-b', '_1'])}${i}`] = arbitrary(node.additionalProperties, random, depth);
+                }
+            }
+            return result;
+        }
+        default:
+            // 文字列と型のない値（args等）
+            return Array.from({ length: 1 + Math.floor(random() * 4) }, () => pick(STRING_PARTS)).join('');
+    }
+}
+
+/**
+ * スキーマで表現できない検証（タイプごとの必須項目・when式・idの重複等）を満たすように修正
+ */
+function toValidConfig(config: MenuConfig): MenuConfig {
+    let id = 0;
+    const fixAction = (action: Record<string, unknown>): void => {
+        if (action.when !== undefined) {
+            action.when = WHEN_EXPRESSIONS[id % WHEN_EXPRESSIONS.length];
+        }
+        if (action.ref === undefined && action.type === undefined) {
+            action.ref = 'build';
+        }
+        if (action.type === 'openInDevContainer' || action.type === 'openRemoteSSH' || action.type === 'openRemoteTunnel') {
+            action.path = action.path ?? '/workspace';
+            action.host = action.type === 'openRemoteSSH' ? action.host ?? 'example.com' : action.host;
+            action.tunnelName = action.type === 'openRemoteTunnel' ? action.tunnelName ?? 'tunnel' : action.tunnelName;
+        } else {
+            action.command = action.command ?? 'echo';
+        }
+    };
+    const fixItems = (items: MenuItem[]): void => {
+        for (const item of items) {
+            const menuItem = item as unknown as Record<string, unknown>;
+            fixAction(menuItem);
+            menuItem.id = menuItem.id === undefined ? undefined : `item-${id++}`;
+            fixItems(item.children ?? []);
+            [...item.actions ?? [], ...item.parallel ?? []].forEach(action => fixAction(action as Record<string, unknown>));
+        }
+    };
+
+    Object.values(config.commands ?? {}).forEach(command => fixAction(command as unknown as Record<string, unknown>));
+    fixItems(config.menu);
+    config.inputs?.forEach((input, index) => {
+        input.id = `input${index}`;
+        input.options = input.type === 'pickString' && !input.options?.length ? ['a'] : input.options;
+        input.validation = input.validation === undefined ? undefined : '^\\w+$';
+    });
+
+    // 値がundefinedのプロパティを除く
+    return JSON.parse(JSON.stringify(config)) as MenuConfig;
+}
 
 suite('yaml-generator Test Suite', () => {
     suite('generateYaml', () => {
@@ -277,5 +390,44 @@ suite('yaml-generator Test Suite', () => {
             assert.strictEqual(parsedConfig.menu[0].children?.length, 2);
             assert.strictEqual(parsedConfig.commands?.build.command, 'npm run build');
         });
+
+        test('Remote-SSH・Tunnelのコマンドのpath・host・tunnelNameを保持する', () => {
+            const config: MenuConfig = {
+                version: '1.0',
+                commands: {
+                    ssh: { type: 'openRemoteSSH', host: 'dev.example.com', path: '/home/dev/project' },
+                    tunnel: { type: 'openRemoteTunnel', tunnelName: 'my-tunnel', path: '/workspace' }
+                },
+                menu: [
+                    { label: 'SSH', ref: 'ssh' },
+                    { label: 'Container', type: 'openInDevContainer', path: '${workspaceFolder}' }
+                ]
+            };
+
+            assert.deepStrictEqual(parseMenuConfig(generateYaml(config)), config);
+        });
+
+        test('スキーマにないプロパティも出力する', () => {
+            const item = { label: 'Custom', ref: 'build', extra: { nested: [1, 'two'] } } as MenuItem;
+
+            const yaml = generateMenuItemYaml(item, 0);
+
+            assert.ok(yaml.includes('extra:\n    nested:\n      - 1\n      - two'));
+        });
+
+        test('ランダムな設定をパースすると元の設定と一致する', () => {
+            for (let seed = 1; seed <= 200; seed++) {
+                const config = toValidConfig(arbitrary(configSchema, createRandom(seed), 0) as MenuConfig);
+                const yaml = generateYaml(config);
+
+                let parsed: MenuConfig;
+                try {
+                    parsed = parseMenuConfig(yaml);
+                } catch (error) {
+                    assert.fail(`seed ${seed}: ${error instanceof Error ? error.message : error}\n${yaml}`);
+                }
+                assert.deepStrictEqual(parsed, config, `seed ${seed}:\n${yaml}`);
+            }
+        });
     });
 });
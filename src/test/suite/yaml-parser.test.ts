@@ -13,7 +13,7 @@
  */
 
 import * as assert from 'assert';
-import { parseYaml, validateConfig, parseMenuConfig, YamlParseError } from '../../yaml-parser';
+import { parseYaml, validateConfig, parseMenuConfig, parseIncludedConfig, YamlParseError } from '../../yaml-parser';
 
 suite('YAML Parser Test Suite', () => {
 
@@ -276,6 +276,46 @@ symbols: © ® ™ §
             assert.ok(error instanceof Error);
             assert.ok(error instanceof YamlParseError);
         });
+
+        test('should prefix message with file name', () => {
+            const error = new YamlParseError('Invalid syntax', 3, 1, 'menus/dev.yaml');
+            assert.strictEqual(error.message, 'menus/dev.yaml: Line 3: Invalid syntax');
+            assert.strictEqual(error.file, 'menus/dev.yaml');
+        });
+    });
+
+    suite('parseIncludedConfig', () => {
+
+        test('should allow omitting version and menu', () => {
+            const yaml = `
+commands:
+  build:
+    type: terminal
+    command: npm run build
+`;
+            const config = parseIncludedConfig(yaml);
+            assert.deepStrictEqual(config.menu, []);
+            assert.strictEqual(config.commands?.build.command, 'npm run build');
+        });
+
+        test('should treat empty file as empty config', () => {
+            const config = parseIncludedConfig('');
+            assert.deepStrictEqual(config.menu, []);
+        });
+
+        test('should report validation errors with file name', () => {
+            const yaml = `
+menu:
+  - label: Broken
+    type: terminal
+`;
+            assert.throws(
+                () => parseIncludedConfig(yaml, 'menus/broken.yaml'),
+                (err: unknown) => err instanceof YamlParseError &&
+                    err.file === 'menus/broken.yaml' &&
+                    err.message.startsWith('menus/broken.yaml: ')
+            );
+        });
     });
 
     suite('parseMenuConfig - Integration', () => {
@@ -352,6 +392,123 @@ menu:
         });
     });
 
+    suite('parseMenuConfig - Schema Validation', () => {
+
+        test('should accept remote commands without "command"', () => {
+            const yaml = `
+version: "1.0"
+commands:
+  server:
+    type: openRemoteSSH
+    host: dev.example.com
+    path: /home/dev/project
+menu:
+  - label: Server
+    ref: server
+`;
+            const config = parseMenuConfig(yaml);
+            assert.strictEqual(config.commands?.server.command, undefined);
+        });
+
+        test('should report properties unknown to the schema', () => {
+            const { result } = validateConfig(parseYaml(`
+version: "1.0"
+menu:
+  - label: Build
+    type: terminal
+    command: npm run build
+    comand: typo
+`));
+            assert.deepStrictEqual(result.errors, [{ message: 'Unknown property "comand"', path: 'menu[0].comand' }]);
+        });
+
+        test('should summarize union types in one error', () => {
+            const { result } = validateConfig(parseYaml(`
+version: "1.0"
+menu:
+  - label: Build
+    type: terminal
+    command: npm run build
+    statusBar: yes please
+`));
+            assert.deepStrictEqual(result.errors, [{ message: '"statusBar" must be a boolean or an object', path: 'menu[0].statusBar' }]);
+        });
+
+        test('should report all errors with line and column', () => {
+            const yaml = `version: "1.0"
+menu:
+  - label: Build
+    type: terminal
+    command: npm run build
+    confirm: 1
+  - type: terminal
+    command: npm test
+    extra: true
+`;
+            try {
+                parseMenuConfig(yaml, 'taskpilot.yaml');
+                assert.fail('Should have thrown');
+            } catch (error) {
+                assert.ok(error instanceof YamlParseError);
+                assert.deepStrictEqual(
+                    error.errors.map(e => [e.path, e.line, e.column]),
+                    [
+                        ['menu[0].confirm', 6, 5],
+                        ['menu[1].label', 7, 5],
+                        ['menu[1].extra', 9, 5]
+                    ]
+                );
+                assert.ok(error.message.includes('Line 9, Column 5: menu[1].extra: Unknown property "extra"'));
+            }
+        });
+    });
+
+    suite('validateConfig - Schema and Constraints', () => {
+
+        test('should report schema errors under items that also fail other checks', () => {
+            const { result } = validateConfig(parseYaml(`
+version: "1.0"
+menu:
+  - label: Build
+    when: "isLinux &&"
+    comand: npm run build
+`));
+            assert.deepStrictEqual(result.errors.map(e => e.path), ['menu[0].comand', 'menu[0].when', 'menu[0].type']);
+        });
+
+        test('should report constraints from the schema annotations', () => {
+            const { result } = validateConfig(parseYaml(`
+version: "1.0"
+variables:
+  env:HOME: /root
+menu:
+  - label: Build
+    id: build all
+    type: process
+    command: make
+    timeout: 0
+    envFile: ""
+`));
+            assert.deepStrictEqual(result.errors.sort((a, b) => a.path!.localeCompare(b.path!)), [
+                { message: '"envFile" must not be empty', path: 'menu[0].envFile' },
+                { message: '"id" must match ^[A-Za-z0-9_.-]+$', path: 'menu[0].id' },
+                { message: '"timeout" must be greater than 0', path: 'menu[0].timeout' },
+                { message: 'Invalid name "env:HOME"', path: 'variables.env:HOME' }
+            ]);
+        });
+
+        test('should report a wrong type only once', () => {
+            const { result } = validateConfig(parseYaml(`
+version: "1.0"
+menu:
+  - label: Build
+    type: terminal
+    command: 42
+`));
+            assert.deepStrictEqual(result.errors, [{ message: '"command" must be a string', path: 'menu[0].command' }]);
+        });
+    });
+
     suite('parseMenuConfig - Parallel Actions', () => {
 
         test('should parse parallel property with refs', () => {
@@ -0,0 +1,148 @@
+/**
+ * yaml-patch.ts のテスト
+ * ConfigEditorでの編集を元のYAMLに適用し、コメント・書式が保持されることのテスト
+ */
+
+import * as assert from 'assert';
+import * as yaml from 'js-yaml';
+import { ConfigEditor } from '../../config-editor';
+import { MenuConfig } from '../../types';
+import { generateYaml } from '../../yaml-generator';
+import { parseMenuConfig } from '../../yaml-parser';
+import { patchYaml, tryPatchYaml } from '../../yaml-patch';
+
+suite('yaml-patch Test Suite', () => {
+    let editor: ConfigEditor;
+
+    const content = [
+        '# TaskPilot settings',
+        'version: "1.0"',
+        '',
+        'menu:',
+        '  # Build section',
+        '  - label: Build   # main build',
+        '    ref: build',
+        '  - label: Test',
+        '    children:',
+        '      - label: Unit',
+        '        ref: unit   # fast',
+        '      - label: Lint',
+        '        type: terminal',
+        '        command: npm run lint',
+        '',
+        'commands:',
+        '  build: &build',
+        '    type: terminal',
+        "    command: 'npm run build'",
+        '  unit:',
+        '    type: terminal',
+        '    command: npm test',
+        '    dependsOn: [build]',
+        ''
+    ].join('\n');
+
+    setup(() => {
+        editor = new ConfigEditor();
+    });
+
+    teardown(() => {
+        editor.dispose();
+    });
+
+    /**
+     * 適用結果が設定と一致することを確認して返す
+     */
+    function patch(config: MenuConfig, source = content): string {
+        const result = patchYaml(source, config);
+        assert.deepStrictEqual(yaml.load(result), JSON.parse(JSON.stringify(config)));
+        return result;
+    }
+
+    test('変更がない場合は元の内容をそのまま返す', () => {
+        assert.strictEqual(patchYaml(content, parseMenuConfig(content)), content);
+    });
+
+    test('アイテムの更新は変更した値だけを書き換える', () => {
+        const config = parseMenuConfig(content);
+        const result = patch(editor.updateMenuItem(config, [0], { label: 'Build All', ref: 'build' }));
+
+        assert.strictEqual(result, content.replace('label: Build   #', 'label: Build All   #'));
+    });
+
+    test('アイテムの追加で既存のコメントと書式を保持する', () => {
+        const config = parseMenuConfig(content);
+        const result = patch(editor.addMenuItem(config, { label: 'E2E', type: 'terminal', command: 'npm run e2e' }, [1, 1]));
+
+        assert.ok(result.includes('# TaskPilot settings'));
+        assert.ok(result.includes('ref: unit   # fast'));
+        assert.ok(result.includes("command: 'npm run build'"));
+        assert.ok(result.includes([
+            '      - label: Unit',
+            '        ref: unit   # fast',
+            '      - label: E2E',
+            '        type: terminal',
+            '        command: npm run e2e',
+            '      - label: Lint'
+        ].join('\n')));
+    });
+
+    test('アイテムの削除はその要素の行だけを削除する', () => {
+        const config = parseMenuConfig(content);
+        const result = patch(editor.deleteMenuItem(config, [1, 1]));
+
+        assert.strictEqual(result, content.replace([
+            '      - label: Lint',
+            '        type: terminal',
+            '        command: npm run lint',
+            ''
+        ].join('\n'), ''));
+    });
+
+    test('アイテムの移動で要素のコメントも移動する', () => {
+        const config = parseMenuConfig(content);
+        const result = patch(editor.moveMenuItem(config, [1, 0], [0]));
+
+        assert.ok(result.includes([
+            'menu:',
+            '  # Build section',
+            '  - label: Unit',
+            '    ref: unit   # fast',
+            '  - label: Build   # main build'
+        ].join('\n')));
+    });
+
+    test('キーの削除と追加はその行だけを変更する', () => {
+        const config = parseMenuConfig(content);
+        const updated = editor.updateMenuItem(config, [1, 1], { label: 'Lint', type: 'terminal', command: 'npm run lint', description: 'Run ESLint' });
+        const result = patch(editor.updateMenuItem(updated, [0], { label: 'Build' }));
+
+        assert.ok(result.includes('  - label: Build   # main build\n  - label: Test'));
+        assert.ok(result.includes('        command: npm run lint\n        description: Run ESLint\n'));
+    });
+
+    test('コマンドの追加・削除でアンカーとフロー形式を保持する', () => {
+        const config = parseMenuConfig(content);
+        let updated = editor.addCommand(config, 'lint', { type: 'terminal', command: 'npm run lint' });
+        updated = editor.updateCommand(updated, 'unit', { type: 'terminal', command: 'npm test', dependsOn: ['build', 'lint'] });
+        const result = patch(updated);
+
+        assert.ok(result.includes('  build: &build\n'));
+        assert.ok(result.includes('    dependsOn: [build, lint]\n'));
+        assert.ok(result.endsWith('  lint:\n    type: terminal\n    command: npm run lint\n'));
+
+        const deleted = patch(editor.deleteCommand(parseMenuConfig(result), 'lint'), result);
+        assert.ok(!deleted.includes('  lint:'));
+        assert.ok(deleted.includes('    dependsOn: [build, lint]\n'));
+    });
+
+    test('元の内容がYAMLとして不正な場合は全体を生成する', () => {
+        const config = parseMenuConfig(content);
+        assert.strictEqual(patchYaml('menu: [', config), generateYaml(config));
+    });
+
+    test('tryPatchYamlは変更箇所だけを適用できない場合にundefinedを返す', () => {
+        const config = parseMenuConfig(content);
+        assert.strictEqual(tryPatchYaml('menu: [', config), undefined);
+        assert.strictEqual(tryPatchYaml(content, config), content);
+    });
+});
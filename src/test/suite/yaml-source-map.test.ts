@@ -0,0 +1,57 @@
+/**
+ * YamlSourceMap のテスト
+ * バリデーションエラーのパスからYAML上の位置を求めるテスト
+ */
+
+import * as assert from 'assert';
+import { createSourceMap, findPosition } from '../../yaml-source-map';
+
+suite('YamlSourceMap Test Suite', () => {
+
+    const content = `# TaskPilot
+version: "1.0"
+commands:
+  build:
+    type: terminal
+    command: npm run build
+menu:
+  - label: Build   # comment
+    ref: build
+  -
+    label: Tools
+    children:
+      - label: Lint
+        actions: [{ref: build}, {type: terminal, command: npm run lint}]
+`;
+    const sourceMap = createSourceMap(content);
+
+    test('should record mapping keys at the key position', () => {
+        assert.deepStrictEqual(sourceMap.get('version'), { line: 2, column: 1 });
+        assert.deepStrictEqual(sourceMap.get('commands.build.command'), { line: 6, column: 5 });
+        assert.deepStrictEqual(sourceMap.get('menu[0].ref'), { line: 9, column: 5 });
+    });
+
+    test('should record sequence items in block and flow style', () => {
+        assert.deepStrictEqual(sourceMap.get('menu[0]'), { line: 8, column: 5 });
+        assert.deepStrictEqual(sourceMap.get('menu[1]'), { line: 11, column: 5 });
+        assert.deepStrictEqual(sourceMap.get('menu[1].children[0].actions[1].command'), { line: 14, column: 50 });
+    });
+
+    test('should fall back to the nearest parent', () => {
+        assert.deepStrictEqual(findPosition(sourceMap, 'menu[1].children[0].type'), { line: 13, column: 9 });
+        assert.deepStrictEqual(findPosition(sourceMap, 'commands.deploy'), { line: 3, column: 1 });
+        assert.deepStrictEqual(findPosition(sourceMap), { line: 2, column: 1 });
+    });
+
+    test('should skip empty sequence items and keys without values', () => {
+        const map = createSourceMap('menu:\n  -\n  - label: A\n    icon:\n    ref: a\n');
+
+        assert.strictEqual(map.has('menu[0]'), false);
+        assert.deepStrictEqual(map.get('menu[1].icon'), { line: 4, column: 5 });
+        assert.deepStrictEqual(map.get('menu[1].ref'), { line: 5, column: 5 });
+    });
+
+    test('should return an empty map for invalid YAML', () => {
+        assert.strictEqual(createSourceMap('menu: [').size, 0);
+    });
+});
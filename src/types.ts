@@ -19,6 +19,7 @@
  * - `openInDevContainer`: DevContainerでフォルダを開く
  * - `openRemoteSSH`: Remote-SSHでフォルダを開く
  * - `openRemoteTunnel`: Remote Tunnelでフォルダを開く
+ * - `process`: ターミナルを使わずにバックグラウンドでコマンドを実行（出力はOutputチャンネルに表示）
  *
  * @example
  * ```yaml
@@ -45,8 +46,145 @@
  * path: /home/user/project
  * tunnelName: my-tunnel
  * ```
+ *
+ * @example
+ * ```yaml
+ * type: process
+ * command: npm run lint
+ * timeout: 120
+ * ```
  */
-export type ActionType = 'terminal' | 'vscodeCommand' | 'task' | 'openInDevContainer' | 'openRemoteSSH' | 'openRemoteTunnel';
+export type ActionType = 'terminal' | 'vscodeCommand' | 'task' | 'openInDevContainer' | 'openRemoteSSH' | 'openRemoteTunnel' | 'process';
+
+/**
+ * ターミナルの表示位置
+ *
+ * - `panel`: パネル（既定）
+ * - `editor`: エディタ領域のタブ
+ */
+export type TerminalLocationType = 'panel' | 'editor';
+
+/**
+ * ターミナルの再利用ポリシー
+ *
+ * - `reuse`: 同名のターミナルがあれば再利用（既定）
+ * - `new`: 毎回新しいターミナルを作成し、以降の同名の実行で使用
+ * - `clear-before`: 同名のターミナルを再利用し、実行前に画面をクリア
+ * - `restart`: 同名のターミナルを閉じて（実行中のプロセスを終了して）作り直す
+ * - `dedicated-per-run`: 実行ごとに番号付きの専用ターミナルを作成（他の実行では使用しない）
+ */
+export type TerminalPolicy = 'reuse' | 'new' | 'clear-before' | 'restart' | 'dedicated-per-run';
+
+/**
+ * 前提コマンドの実行順
+ *
+ * - `sequence`: 記述順に1つずつ実行（既定）
+ * - `parallel`: 同時に実行
+ */
+export type DependsOrder = 'sequence' | 'parallel';
+
+/**
+ * ターミナルのシェル・表示・再利用設定（type: terminal の場合）
+ *
+ * 未指定の項目はユーザーの既定のプロファイルに従います。
+ *
+ * @example
+ * ```yaml
+ * type: terminal
+ * command: ./build.ps1
+ * shell: pwsh
+ * shellArgs: ["-NoLogo"]
+ * iconPath: terminal-powershell
+ * color: terminal.ansiBlue
+ * location: editor
+ * ```
+ */
+export interface TerminalProfileOptions {
+    /**
+     * シェルの実行ファイル
+     * @example "/bin/bash"
+     * @minLength 1
+     */
+    shell?: string;
+
+    /**
+     * シェルの引数
+     * @example ["-l"]
+     */
+    shellArgs?: string[] | string;
+
+    /**
+     * ターミナルプロファイル名
+     *
+     * `terminal.integrated.profiles.*`で定義したプロファイルのシェル・引数・環境変数・
+     * アイコン・色を使用します。`shell`等を指定した場合はそちらが優先されます。
+     *
+     * @example "Git Bash"
+     * @minLength 1
+     */
+    terminalProfile?: string;
+
+    /**
+     * タブのアイコン（Codicon名または画像ファイルのパス）
+     * @example "terminal-bash"
+     * @minLength 1
+     */
+    iconPath?: string;
+
+    /**
+     * タブのアイコンの色（テーマカラーID）
+     * @example "terminal.ansiGreen"
+     * @minLength 1
+     */
+    color?: string;
+
+    /**
+     * 表示位置
+     * @default "panel"
+     */
+    location?: TerminalLocationType;
+
+    /**
+     * 同名のターミナルの再利用ポリシー
+     * @default "reuse"
+     */
+    terminalPolicy?: TerminalPolicy;
+}
+
+/**
+ * 実行するタスクの条件（type: task の場合）
+ *
+ * `command`（タスク名）に加えて指定した条件にすべて一致するタスクを実行します。
+ * `taskGroup`を指定した場合は`command`を省略でき、グループの既定のタスクが優先されます。
+ *
+ * @example
+ * ```yaml
+ * type: task
+ * taskGroup: build   # 既定のビルドタスク
+ * ```
+ */
+export interface TaskMatchOptions {
+    /**
+     * タスクのソース（`Workspace`・`npm`・`shell`等）
+     * @example "npm"
+     * @minLength 1
+     */
+    taskSource?: string;
+
+    /**
+     * タスク定義の種類（tasks.jsonの`type`）
+     * @example "shell"
+     * @minLength 1
+     */
+    taskType?: string;
+
+    /**
+     * タスクのグループ（`build`・`test`・`clean`・`rebuild`）
+     * @example "build"
+     * @minLength 1
+     */
+    taskGroup?: string;
+}
 
 /**
  * コマンド定義
@@ -66,7 +204,7 @@ export type ActionType = 'terminal' | 'vscodeCommand' | 'task' | 'openInDevConta
  *     command: workbench.action.openSettings
  * ```
  */
-export interface CommandDefinition {
+export interface CommandDefinition extends TerminalProfileOptions, TaskMatchOptions {
     /**
      * アクションタイプ
      * @example "terminal"
@@ -80,9 +218,12 @@ export interface CommandDefinition {
      * - `vscodeCommand`: VS CodeコマンドID（例: `workbench.action.openSettings`）
      * - `task`: タスク名（例: `build`）
      *
+     * `openInDevContainer`・`openRemoteSSH`・`openRemoteTunnel`では不要（`path`を使用）。
+     *
      * @example "npm run build"
+     * @minLength 1
      */
-    command: string;
+    command?: string;
 
     /**
      * ターミナル名（type: terminal の場合）
@@ -104,7 +245,7 @@ export interface CommandDefinition {
     args?: unknown[];
 
     /**
-     * 作業ディレクトリ（type: terminal の場合）
+     * 作業ディレクトリ（type: terminal, process の場合）
      *
      * コマンドを実行するディレクトリ。相対パスはワークスペースルートからの相対パス。
      *
@@ -112,6 +253,37 @@ export interface CommandDefinition {
      */
     cwd?: string;
 
+    /**
+     * 環境変数（type: terminal, process の場合）
+     *
+     * 現在の環境変数に追加・上書きする値。
+     * ルートの`env`を上書きし、参照元のメニュー項目・アクションの`env`で上書きされます。
+     *
+     * @example { "NODE_ENV": "test" }
+     */
+    env?: Record<string, string>;
+
+    /**
+     * 環境変数ファイル（type: terminal, process の場合）
+     *
+     * `KEY=VALUE`形式の`.env`ファイルのパス（ワークスペースフォルダ基準）。
+     * ファイルの値は`env`で上書きされます。
+     *
+     * @example ".env.local"
+     * @minLength 1
+     */
+    envFile?: string;
+
+    /**
+     * タイムアウト秒数（type: process の場合）
+     *
+     * 指定した秒数を超えるとプロセスを終了し、失敗として扱います。
+     *
+     * @example 120
+     * @exclusiveMinimum 0
+     */
+    timeout?: number;
+
     /**
      * コマンドの説明
      *
@@ -121,12 +293,35 @@ export interface CommandDefinition {
      */
     description?: string;
 
+    /**
+     * 表示条件
+     *
+     * 条件を満たさない場合、このコマンドを参照するメニュー項目は非表示になります。
+     * 構文は`MenuItem.when`と同じです。
+     *
+     * @example "exists('Cargo.toml')"
+     */
+    when?: string;
+
+    /**
+     * 実行前の確認
+     *
+     * 指定すると、このコマンドを参照するメニュー項目の実行前に、実行するコマンドを表示して確認します。
+     * 文字列の場合は確認メッセージとして表示します。
+     *
+     * @example true
+     * @example "本番データベースを削除します。よろしいですか？"
+     * @minLength 1
+     */
+    confirm?: boolean | string;
+
     /**
      * フォルダパス（type: openInDevContainer, openRemoteSSH の場合）
      *
      * 開くフォルダの絶対パス。
      *
      * @example "/home/user/project"
+     * @minLength 1
      */
     path?: string;
 
@@ -136,6 +331,7 @@ export interface CommandDefinition {
      * ~/.ssh/config で定義されているHost名を指定。
      *
      * @example "my-server"
+     * @minLength 1
      */
     host?: string;
 
@@ -145,8 +341,27 @@ export interface CommandDefinition {
      * VS Code Remote Tunnelで登録されているトンネル名を指定。
      *
      * @example "my-tunnel"
+     * @minLength 1
      */
     tunnelName?: string;
+
+    /**
+     * 前提コマンド
+     *
+     * このコマンドの前に実行するコマンド名（`commands`のキー）。
+     * 前提コマンドの`dependsOn`も再帰的に解決され、1回の実行で各コマンドは一度だけ実行されます。
+     * 前提コマンドが失敗した場合、このコマンドは実行されません。
+     *
+     * @example ["build", "lint"]
+     */
+    dependsOn?: string[];
+
+    /**
+     * 前提コマンドの実行順
+     *
+     * @default "sequence"
+     */
+    dependsOrder?: DependsOrder;
 }
 
 /**
@@ -163,7 +378,7 @@ export interface CommandDefinition {
  *     command: npm test
  * ```
  */
-export interface ActionDefinition {
+export interface ActionDefinition extends TerminalProfileOptions, TaskMatchOptions {
     /**
      * コマンド参照
      *
@@ -183,6 +398,7 @@ export interface ActionDefinition {
     /**
      * 実行するコマンド（ref未使用時）
      * @example "npm run build"
+     * @minLength 1
      */
     command?: string;
 
@@ -199,11 +415,34 @@ export interface ActionDefinition {
     args?: unknown[];
 
     /**
-     * 作業ディレクトリ（type: terminal、ref未使用時）
+     * 作業ディレクトリ（type: terminal, process、ref未使用時）
      * @example "./packages/app"
      */
     cwd?: string;
 
+    /**
+     * 環境変数（type: terminal, process）
+     *
+     * ref使用時は参照先コマンドの`env`を上書きします。
+     *
+     * @example { "NODE_ENV": "test" }
+     */
+    env?: Record<string, string>;
+
+    /**
+     * 環境変数ファイル（type: terminal, process）
+     * @example ".env.local"
+     * @minLength 1
+     */
+    envFile?: string;
+
+    /**
+     * タイムアウト秒数（type: process、ref未使用時）
+     * @example 120
+     * @exclusiveMinimum 0
+     */
+    timeout?: number;
+
     /**
      * アクションの説明
      * @example "テストを実行"
@@ -213,18 +452,21 @@ export interface ActionDefinition {
     /**
      * フォルダパス（type: openInDevContainer, openRemoteSSH、ref未使用時）
      * @example "/home/user/project"
+     * @minLength 1
      */
     path?: string;
 
     /**
      * SSHホスト名（type: openRemoteSSH、ref未使用時）
      * @example "my-server"
+     * @minLength 1
      */
     host?: string;
 
     /**
      * トンネル名（type: openRemoteTunnel、ref未使用時）
      * @example "my-tunnel"
+     * @minLength 1
      */
     tunnelName?: string;
 }
@@ -274,13 +516,14 @@ export interface ActionDefinition {
  *       - ref: start
  * ```
  */
-export interface MenuItem {
+export interface MenuItem extends TerminalProfileOptions, TaskMatchOptions {
     /**
      * 表示ラベル（必須）
      *
      * サイドバーに表示されるメニュー項目の名前。
      *
      * @example "Build"
+     * @minLength 1
      */
     label: string;
 
@@ -304,6 +547,64 @@ export interface MenuItem {
      */
     description?: string;
 
+    /**
+     * アイテムID
+     *
+     * `taskPilot.run`コマンドの引数や`taskPilot.run.<id>`コマンドで
+     * この項目を直接実行するための識別子。メニュー内で一意である必要があります。
+     *
+     * @example "build"
+     * @pattern ^[A-Za-z0-9_.-]+$
+     */
+    id?: string;
+
+    /**
+     * キーバインドの表示用ヒント
+     *
+     * メニューに表示されるだけで、実際の割り当ては`keybindings.json`で行います。
+     *
+     * @example "Ctrl+Alt+B"
+     */
+    keybinding?: string;
+
+    /**
+     * ステータスバーボタン
+     *
+     * 指定するとステータスバーにこの項目を実行するボタンを表示します。
+     * `true`の場合はアイコンとラベルを左側に表示。
+     *
+     * @example true
+     * @example { "text": "$(package) Build", "alignment": "right" }
+     */
+    statusBar?: boolean | StatusBarOptions;
+
+    /**
+     * 実行前の確認
+     *
+     * 指定すると、実行前に展開済みのコマンドを表示して確認します（QuickPick・サイドバー共通）。
+     * 文字列の場合は確認メッセージとして表示します。
+     *
+     * @example true
+     * @example "Force push to origin?"
+     * @minLength 1
+     */
+    confirm?: boolean | string;
+
+    /**
+     * 表示条件
+     *
+     * 条件を満たさない場合、この項目（カテゴリの場合は子項目を含む）は非表示になります。
+     *
+     * - `platform == linux`、`isWindows`、`isMac`
+     * - `remoteName == dev-container`、`isRemote`
+     * - `exists('package.json')`（ワークスペースフォルダ基準のグロブ）
+     * - `env.CI`、`env.NODE_ENV != production`
+     * - `!`、`&&`、`||`、括弧で組み合わせ可能
+     *
+     * @example "isLinux && exists('package.json')"
+     */
+    when?: string;
+
     /**
      * 子メニュー項目
      *
@@ -332,6 +633,7 @@ export interface MenuItem {
     /**
      * 実行するコマンド（ref未使用時）
      * @example "npm run build"
+     * @minLength 1
      */
     command?: string;
 
@@ -347,26 +649,55 @@ export interface MenuItem {
     args?: unknown[];
 
     /**
-     * 作業ディレクトリ（type: terminal、ref未使用時）
+     * 作業ディレクトリ（type: terminal, process、ref未使用時）
      * @example "./packages/app"
      */
     cwd?: string;
 
+    /**
+     * 環境変数（type: terminal, process）
+     *
+     * ref先コマンドの`env`を上書きし、`actions`・`parallel`の各アクションに継承されます。
+     *
+     * @example { "NODE_ENV": "test" }
+     */
+    env?: Record<string, string>;
+
+    /**
+     * 環境変数ファイル（type: terminal, process）
+     *
+     * `actions`・`parallel`の各アクションに継承されます。
+     *
+     * @example ".env.local"
+     * @minLength 1
+     */
+    envFile?: string;
+
+    /**
+     * タイムアウト秒数（type: process、ref未使用時）
+     * @example 120
+     * @exclusiveMinimum 0
+     */
+    timeout?: number;
+
     /**
      * フォルダパス（type: openInDevContainer, openRemoteSSH、ref未使用時）
      * @example "/home/user/project"
+     * @minLength 1
      */
     path?: string;
 
     /**
      * SSHホスト名（type: openRemoteSSH、ref未使用時）
      * @example "my-server"
+     * @minLength 1
      */
     host?: string;
 
     /**
      * トンネル名（type: openRemoteTunnel、ref未使用時）
      * @example "my-tunnel"
+     * @minLength 1
      */
     tunnelName?: string;
 
@@ -400,6 +731,151 @@ export interface MenuItem {
     parallel?: ActionDefinition[];
 }
 
+/**
+ * ステータスバーボタンの設定
+ *
+ * @example
+ * ```yaml
+ * statusBar:
+ *   text: "$(play) Start"
+ *   tooltip: 開発サーバーを起動
+ *   alignment: right
+ *   priority: 100
+ *   color: charts.green
+ * ```
+ */
+export interface StatusBarOptions {
+    /**
+     * 表示位置
+     * @default "left"
+     */
+    alignment?: 'left' | 'right';
+
+    /**
+     * 優先度（大きいほど左側に表示）
+     * @example 100
+     */
+    priority?: number;
+
+    /**
+     * 表示テキスト（省略時はアイコンとラベル）
+     * @example "$(package) Build"
+     */
+    text?: string;
+
+    /**
+     * ツールチップ（省略時は説明文）
+     */
+    tooltip?: string;
+
+    /**
+     * 文字色（`#rrggbb`またはテーマカラーID）
+     * @example "charts.green"
+     */
+    color?: string;
+}
+
+/**
+ * 入力タイプ
+ *
+ * tasks.jsonの`inputs`と同じ種類の入力プロンプト。
+ *
+ * - `promptString`: テキスト入力ボックスを表示
+ * - `pickString`: 選択肢リストを表示
+ */
+export type InputType = 'promptString' | 'pickString';
+
+/**
+ * 選択肢（type: pickString の場合）
+ *
+ * 文字列、または表示ラベルと値の組で指定します。
+ *
+ * @example { "label": "本番環境", "value": "production" }
+ */
+export interface InputOption {
+    /** 表示ラベル */
+    label: string;
+    /** 入力値として使用される値 */
+    value: string;
+}
+
+/**
+ * 入力定義
+ *
+ * メニュー実行時にユーザーへ入力を求め、`${input:id}`として
+ * `command`、`args`、`cwd`、`path`内で参照できます。
+ *
+ * @example
+ * ```yaml
+ * inputs:
+ *   - id: env
+ *     type: pickString
+ *     description: デプロイ先
+ *     options: [staging, production]
+ *     default: staging
+ *   - id: message
+ *     type: promptString
+ *     description: コミットメッセージ
+ *     validation: "^.{1,72}$"
+ * ```
+ */
+export interface InputDefinition {
+    /**
+     * 入力ID（必須）
+     *
+     * `${input:id}`で参照する名前。
+     *
+     * @example "env"
+     * @minLength 1
+     */
+    id: string;
+
+    /**
+     * 入力タイプ（必須）
+     * @example "promptString"
+     */
+    type: InputType;
+
+    /**
+     * 説明文
+     *
+     * 入力ボックス・選択リストのプロンプトとして表示されます。
+     *
+     * @example "デプロイ先の環境"
+     */
+    description?: string;
+
+    /**
+     * デフォルト値
+     * @example "staging"
+     */
+    default?: string;
+
+    /**
+     * 選択肢（type: pickString の場合、必須）
+     * @example ["staging", "production"]
+     */
+    options?: (string | InputOption)[];
+
+    /**
+     * パスワード入力として扱う（type: promptString の場合）
+     * @default false
+     */
+    password?: boolean;
+
+    /**
+     * 入力値の検証用正規表現（type: promptString の場合）
+     * @example "^[a-z0-9-]+$"
+     */
+    validation?: string;
+
+    /**
+     * 検証失敗時のメッセージ（type: promptString の場合）
+     * @example "英小文字・数字・ハイフンのみ使用できます"
+     */
+    validationMessage?: string;
+}
+
 /**
  * ルート設定
  *
@@ -428,6 +904,7 @@ export interface MenuConfig {
      * 現在は "1.0" を指定してください。
      *
      * @example "1.0"
+     * @minLength 1
      */
     version: string;
 
@@ -439,6 +916,60 @@ export interface MenuConfig {
      */
     commands?: Record<string, CommandDefinition>;
 
+    /**
+     * カスタム変数
+     *
+     * `command`、`cwd`、`path`、`args`内で`${変数名}`として参照できます。
+     * 値の中でVS Code形式の変数（`${workspaceFolder}`、`${file}`、`${env:NAME}`、
+     * `${config:section.key}`など）や他のカスタム変数を使用できます。
+     * 組み込み変数と同名の場合は組み込み変数が優先されます。
+     *
+     * @example { "appDir": "${workspaceFolder}/packages/app" }
+     * @propertyNames {"pattern": "^[A-Za-z_][A-Za-z0-9_.-]*$"}
+     */
+    variables?: Record<string, string>;
+
+    /**
+     * 共通の環境変数
+     *
+     * すべてのterminal・processアクションに適用されます。
+     * コマンド定義・メニュー項目・アクションの`env`で上書きできます。
+     *
+     * @example { "NODE_ENV": "development" }
+     */
+    env?: Record<string, string>;
+
+    /**
+     * 共通の環境変数ファイル
+     *
+     * `KEY=VALUE`形式の`.env`ファイルのパス（ワークスペースフォルダ基準）。
+     * `env`で指定した値が優先されます。
+     *
+     * @example ".env"
+     * @minLength 1
+     */
+    envFile?: string;
+
+    /**
+     * 読み込む追加の設定ファイル
+     *
+     * このファイルからの相対パス、またはグロブパターンで指定します。
+     * 読み込んだファイルの`menu`は末尾に追加され、`commands`・`variables`・`inputs`はマージされます
+     * （同じ名前がある場合はinclude元の定義が優先）。
+     * includeされるファイルでは`version`と`menu`を省略できます。
+     *
+     * @example ["menus/*.yaml", "../shared/commands.yaml"]
+     */
+    include?: string[];
+
+    /**
+     * 入力定義
+     *
+     * メニュー実行時にユーザーへ入力を求める項目の定義。
+     * `${input:id}`で参照されている入力のみ、実行前にプロンプトが表示されます。
+     */
+    inputs?: InputDefinition[];
+
     /**
      * メニュー構造
      *
@@ -448,16 +979,26 @@ export interface MenuConfig {
     menu: MenuItem[];
 }
 
+/**
+ * 継承した環境変数の1つ（ルート・コマンド定義・メニュー項目・アクションのenvFileまたはenv）
+ */
+export interface EnvLayer {
+    /** 環境変数ファイル */
+    envFile?: string;
+    /** 環境変数 */
+    env?: Record<string, string>;
+}
+
 /**
  * 解決済みアクション
  *
  * `ref`参照を解決した後の、実行可能なアクション情報。
  * 内部処理で使用される型です。
  */
-export interface ResolvedAction {
+export interface ResolvedAction extends TerminalProfileOptions, TaskMatchOptions {
     /** アクションタイプ */
     type: ActionType;
-    /** 実行コマンド（terminal, vscodeCommand, task で使用） */
+    /** 実行コマンド（terminal, vscodeCommand, task, process で使用） */
     command?: string;
     /** ターミナル名 */
     terminal?: string;
@@ -465,6 +1006,12 @@ export interface ResolvedAction {
     args?: unknown[];
     /** 作業ディレクトリ */
     cwd?: string;
+    /** 環境変数（terminal, process で使用、継承をマージ済み） */
+    env?: Record<string, string>;
+    /** envFileがある場合の継承したenvFile・env（terminal, process で使用、継承順。実行前に読み込んでenvにする） */
+    envLayers?: EnvLayer[];
+    /** タイムアウト秒数（process で使用） */
+    timeout?: number;
     /** 説明 */
     description?: string;
     /** フォルダパス（openInDevContainer, openRemoteSSH, openRemoteTunnel で使用） */
@@ -473,6 +1020,14 @@ export interface ResolvedAction {
     host?: string;
     /** トンネル名（openRemoteTunnel で使用） */
     tunnelName?: string;
+    /** 所属するワークスペースフォルダの絶対パス（cwdのデフォルト・変数展開に使用） */
+    workspaceFolder?: string;
+    /** 実行前の確認（参照先のコマンド定義のconfirm） */
+    confirm?: boolean | string;
+    /** 前提コマンドとして実行する場合のコマンド名（dependsOnで追加） */
+    dependency?: string;
+    /** 同時に実行する前提コマンドのグループ番号（dependsOrder: parallel） */
+    dependencyGroup?: number;
 }
 
 /**
@@ -501,6 +1056,10 @@ export interface ValidationError {
     message: string;
     /** 問題のあるフィールドへのパス（例: "menu[0].children[1].ref"） */
     path?: string;
+    /** 行番号（1始まり、YAMLコンテンツから検証した場合） */
+    line?: number;
+    /** 列番号（1始まり、YAMLコンテンツから検証した場合） */
+    column?: number;
 }
 
 /**
@@ -519,8 +1078,11 @@ export interface ValidationResult {
 export interface MultipleActionOptions {
     /** エラー時も続行するか */
     continueOnError?: boolean;
-    /** キャンセルトークン */
-    cancellationToken?: { isCancellationRequested: boolean };
+    /** キャンセルトークン（onCancellationRequestedがあれば実行中のコマンド待ちも中断） */
+    cancellationToken?: {
+        isCancellationRequested: boolean;
+        onCancellationRequested?: (listener: () => void) => { dispose(): void };
+    };
     /** 進捗コールバック */
     onProgress?: (current: number, total: number, action: ResolvedAction) => void;
 }
@@ -535,6 +1097,8 @@ export interface ActionError {
     action: ResolvedAction;
     /** 発生したエラー */
     error: Error;
+    /** 終了コード（terminalアクションが0以外で終了した場合） */
+    exitCode?: number;
 }
 
 /**
@@ -555,6 +1119,8 @@ export interface MultipleActionResult {
     failedIndex?: number;
     /** エラーリスト（continueOnError: true時） */
     errors?: ActionError[];
+    /** 各アクションの終了コード（シェル統合で取得できたterminalアクションのみ） */
+    exitCodes?: (number | undefined)[];
 }
 
 /**
@@ -573,4 +1139,9 @@ export type ActionGroup =
           actions: ResolvedAction[];
           terminalName: string;
           startIndex: number;
+      }
+    | {
+          type: 'dependency-group';
+          actions: ResolvedAction[];
+          startIndex: number;
       };
@@ -0,0 +1,314 @@
+/**
+ * TaskPilot Variable Resolver
+ * コマンド・cwd・path・env・envFile 内の ${...} 変数を展開する
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { EnvLayer, ResolvedAction } from './types';
+
+/**
+ * 変数展開エラー
+ */
+export class VariableResolveError extends Error {
+    constructor(
+        message: string,
+        public readonly variable: string
+    ) {
+        super(message);
+        this.name = 'VariableResolveError';
+    }
+}
+
+/**
+ * 変数展開に使用するコンテキスト
+ */
+export interface VariableContext {
+    /** ワークスペースフォルダの絶対パス */
+    workspaceFolder?: string;
+    /** アクティブエディタのファイルパス */
+    file?: string;
+    /** アクティブエディタの選択テキスト */
+    selectedText?: string;
+    /** アクティブエディタのカーソル行（1始まり） */
+    lineNumber?: number;
+    /** 環境変数 */
+    env: Record<string, string | undefined>;
+    /** VS Code設定値の取得関数（例: "editor.fontSize"） */
+    getConfiguration: (key: string) => unknown;
+    /** MenuConfig.variables で定義されたカスタム変数 */
+    variables: Record<string, string>;
+    /** ユーザー入力値（${input:id}） */
+    inputs: Record<string, string>;
+}
+
+/** 変数参照パターン */
+const VARIABLE_PATTERN = /\$\{([^}]+)\}/g;
+
+/**
+ * 現在のVS Code状態から変数コンテキストを作成
+ * @param variables カスタム変数
+ * @param inputs ユーザー入力値
+ * @param workspaceFolder ワークスペースフォルダ（省略時は最初のフォルダ）
+ */
+export function createVariableContext(
+    variables: Record<string, string> = {},
+    inputs: Record<string, string> = {},
+    workspaceFolder?: string
+): VariableContext {
+    const editor = vscode.window.activeTextEditor;
+    const document = editor?.document;
+    const file = document && document.uri.scheme === 'file' ? document.uri.fsPath : undefined;
+
+    return {
+        workspaceFolder: workspaceFolder ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+        file,
+        selectedText: editor && !editor.selection.isEmpty
+            ? document!.getText(editor.selection)
+            : undefined,
+        lineNumber: editor ? editor.selection.active.line + 1 : undefined,
+        env: process.env,
+        getConfiguration: (key: string) => {
+            const lastDot = key.lastIndexOf('.');
+            if (lastDot < 0) {
+                return vscode.workspace.getConfiguration().get(key);
+            }
+            return vscode.workspace
+                .getConfiguration(key.substring(0, lastDot))
+                .get(key.substring(lastDot + 1));
+        },
+        variables,
+        inputs
+    };
+}
+
+/**
+ * 文字列内の変数を展開
+ * @param value 展開対象の文字列
+ * @param context 変数コンテキスト
+ * @returns 展開後の文字列
+ * @throws VariableResolveError 未知の変数・解決できない変数がある場合
+ */
+export function resolveVariables(value: string, context: VariableContext): string {
+    return resolveWithStack(value, context, []);
+}
+
+/**
+ * 循環参照を検出しながら変数を展開
+ */
+function resolveWithStack(value: string, context: VariableContext, stack: string[]): string {
+    return value.replace(VARIABLE_PATTERN, (_match, name: string) => {
+        return resolveVariable(name.trim(), context, stack);
+    });
+}
+
+/**
+ * 単一の変数を解決
+ */
+function resolveVariable(name: string, context: VariableContext, stack: string[]): string {
+    // ${env:NAME}
+    if (name.startsWith('env:')) {
+        return context.env[name.substring(4)] ?? '';
+    }
+
+    // ${input:id}
+    if (name.startsWith('input:')) {
+        const id = name.substring(6);
+        if (!Object.prototype.hasOwnProperty.call(context.inputs, id)) {
+            throw new VariableResolveError(`Unknown input "\${${name}}"`, name);
+        }
+        return context.inputs[id];
+    }
+
+    // ${config:section.key}
+    if (name.startsWith('config:')) {
+        const value = context.getConfiguration(name.substring(7));
+        if (value === undefined || value === null) {
+            return '';
+        }
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+
+    const builtin = resolveBuiltinVariable(name, context);
+    if (builtin !== undefined) {
+        return builtin;
+    }
+
+    // カスタム変数（MenuConfig.variables）
+    if (Object.prototype.hasOwnProperty.call(context.variables, name)) {
+        if (stack.includes(name)) {
+            throw new VariableResolveError(
+                `Circular variable reference: ${[...stack, name].join(' -> ')}`,
+                name
+            );
+        }
+        return resolveWithStack(context.variables[name], context, [...stack, name]);
+    }
+
+    throw new VariableResolveError(`Unknown variable "\${${name}}"`, name);
+}
+
+/**
+ * 組み込み変数を解決（未知の名前の場合はundefined）
+ */
+function resolveBuiltinVariable(name: string, context: VariableContext): string | undefined {
+    switch (name) {
+        case 'workspaceFolder':
+            return requireValue(name, context.workspaceFolder, 'no workspace folder is open');
+        case 'workspaceFolderBasename':
+            return path.basename(requireValue(name, context.workspaceFolder, 'no workspace folder is open'));
+        case 'file':
+            return requireFile(name, context);
+        case 'fileBasename':
+            return path.basename(requireFile(name, context));
+        case 'fileBasenameNoExtension': {
+            const file = requireFile(name, context);
+            return path.basename(file, path.extname(file));
+        }
+        case 'fileDirname':
+            return path.dirname(requireFile(name, context));
+        case 'fileExtname':
+            return path.extname(requireFile(name, context));
+        case 'relativeFile':
+            return relativeToWorkspace(name, requireFile(name, context), context);
+        case 'relativeFileDirname':
+            return path.dirname(relativeToWorkspace(name, requireFile(name, context), context));
+        case 'selectedText':
+            return context.selectedText ?? '';
+        case 'lineNumber':
+            return String(requireValue(name, context.lineNumber, 'no editor is active'));
+        case 'pathSeparator':
+            return path.sep;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * 値が存在しない場合はエラーを投げる
+ */
+function requireValue<T>(name: string, value: T | undefined, reason: string): T {
+    if (value === undefined) {
+        throw new VariableResolveError(`Cannot resolve "\${${name}}": ${reason}`, name);
+    }
+    return value;
+}
+
+/**
+ * アクティブファイルのパスを取得
+ */
+function requireFile(name: string, context: VariableContext): string {
+    return requireValue(name, context.file, 'no file is open in the active editor');
+}
+
+/**
+ * ワークスペースからの相対パスに変換
+ */
+function relativeToWorkspace(name: string, file: string, context: VariableContext): string {
+    const root = requireValue(name, context.workspaceFolder, 'no workspace folder is open');
+    return path.relative(root, file);
+}
+
+/**
+ * アクション内で参照されている入力ID（${input:id}）を出現順に収集
+ * カスタム変数経由の参照も対象とする
+ * @param actions 解決済みアクション
+ * @param variables カスタム変数
+ */
+export function collectInputIds(actions: ResolvedAction[], variables: Record<string, string> = {}): string[] {
+    const ids: string[] = [];
+    const visitedVariables = new Set<string>();
+
+    const scan = (value: unknown): void => {
+        if (typeof value === 'string') {
+            for (const match of value.matchAll(VARIABLE_PATTERN)) {
+                const name = match[1].trim();
+                if (name.startsWith('input:')) {
+                    const id = name.substring(6);
+                    if (!ids.includes(id)) {
+                        ids.push(id);
+                    }
+                } else if (Object.prototype.hasOwnProperty.call(variables, name) && !visitedVariables.has(name)) {
+                    visitedVariables.add(name);
+                    scan(variables[name]);
+                }
+            }
+        } else if (Array.isArray(value)) {
+            value.forEach(scan);
+        } else if (value && typeof value === 'object') {
+            Object.values(value).forEach(scan);
+        }
+    };
+
+    for (const action of actions) {
+        scan(action.command);
+        scan(action.cwd);
+        scan(action.path);
+        scan(action.args);
+        scan(action.env);
+        scan(action.envLayers);
+        scan(action.shell);
+        scan(action.shellArgs);
+        scan(action.iconPath);
+    }
+
+    return ids;
+}
+
+/**
+ * args内の文字列を再帰的に展開
+ */
+function resolveArgs(value: unknown, context: VariableContext): unknown {
+    if (typeof value === 'string') {
+        return resolveVariables(value, context);
+    }
+    if (Array.isArray(value)) {
+        return value.map(v => resolveArgs(v, context));
+    }
+    if (value && typeof value === 'object') {
+        const result: Record<string, unknown> = {};
+        for (const [key, v] of Object.entries(value)) {
+            result[key] = resolveArgs(v, context);
+        }
+        return result;
+    }
+    return value;
+}
+
+/**
+ * ResolvedActionの変数を展開した新しいアクションを返す
+ * command, cwd, path, args, env, envLayers, shell, shellArgs, iconPath が展開対象
+ */
+export function resolveActionVariables(action: ResolvedAction, context: VariableContext): ResolvedAction {
+    const resolved: ResolvedAction = { ...action };
+
+    if (action.command !== undefined) {
+        resolved.command = resolveVariables(action.command, context);
+    }
+    if (action.cwd !== undefined) {
+        resolved.cwd = resolveVariables(action.cwd, context);
+    }
+    if (action.path !== undefined) {
+        resolved.path = resolveVariables(action.path, context);
+    }
+    if (action.args !== undefined) {
+        resolved.args = action.args.map(arg => resolveArgs(arg, context));
+    }
+    if (action.env !== undefined) {
+        resolved.env = resolveArgs(action.env, context) as Record<string, string>;
+    }
+    if (action.envLayers !== undefined) {
+        resolved.envLayers = resolveArgs(action.envLayers, context) as EnvLayer[];
+    }
+    if (action.shell !== undefined) {
+        resolved.shell = resolveVariables(action.shell, context);
+    }
+    if (action.shellArgs !== undefined) {
+        resolved.shellArgs = resolveArgs(action.shellArgs, context) as string[] | string;
+    }
+    if (action.iconPath !== undefined) {
+        resolved.iconPath = resolveVariables(action.iconPath, context);
+    }
+
+    return resolved;
+}
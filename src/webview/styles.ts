@@ -5,5 +5,5 @@
  * Edit styles.scss instead and run 'npm run compile:scss' to regenerate.
  */
 export function getStyles(): string {
-    return `:root{--tp-bg: var(--vscode-editor-background);--tp-fg: var(--vscode-foreground);--tp-fg-description: var(--vscode-descriptionForeground);--tp-hover-bg: var(--vscode-list-hoverBackground);--tp-border: var(--vscode-widget-border, rgba(128, 128, 128, 0.3));--tp-indent-guide: var(--vscode-tree-indentGuidesStroke, rgba(128, 128, 128, 0.3));--tp-btn-bg: var(--vscode-button-background);--tp-btn-fg: var(--vscode-button-foreground);--tp-btn-hover-bg: var(--vscode-button-hoverBackground);--tp-space-xs: 0.25rem;--tp-space-sm: 0.5rem;--tp-space-md: 0.75rem;--tp-space-lg: 1rem;--tp-font-sm: 0.6875rem;--tp-font-base: var(--vscode-font-size);--tp-radius: 3px;--tp-item-height: 22px;--tp-icon-size: 16px;--tp-indent: 16px}*{box-sizing:border-box;margin:0;padding:0}body{font-family:var(--vscode-font-family);font-size:var(--tp-font-base);color:var(--tp-fg);background:var(--tp-bg);line-height:1.5}.menu-container{padding:var(--tp-space-sm) 0}.menu-item{display:flex;align-items:flex-start;padding:var(--tp-radius) var(--tp-space-sm) var(--tp-radius) var(--tp-space-md);cursor:pointer;user-select:none;min-height:var(--tp-item-height)}.menu-item:hover{background-color:var(--tp-hover-bg)}.menu-item:hover .run-btn{opacity:1}.menu-item.category{font-weight:600}.menu-item .icon,.menu-item .chevron{width:var(--tp-icon-size);height:var(--tp-item-height);display:flex;align-items:center;justify-content:center;flex-shrink:0;text-align:center}.menu-item .icon{margin-right:6px}.menu-item .chevron{margin-right:2px;opacity:.8;color:var(--tp-fg)}.menu-item .label-container{flex:1;min-width:0}.menu-item .label{line-height:var(--tp-item-height)}.menu-item .description{font-size:var(--tp-font-sm);color:var(--tp-fg-description);opacity:.8;line-height:1.3;margin-top:1px;word-break:break-word}.menu-item .run-btn{opacity:0;padding:2px 6px;background:var(--tp-btn-bg);color:var(--tp-btn-fg);border:none;border-radius:var(--tp-radius);cursor:pointer;font-size:var(--tp-font-sm)}.menu-item .run-btn:hover{background:var(--tp-btn-hover-bg)}.children{display:none}.children.expanded{display:block}.children .menu-item{padding-left:calc(var(--tp-indent) + var(--tp-space-sm));position:relative}.children .menu-item::before{content:"";position:absolute;left:var(--tp-indent);top:0;bottom:0;width:1px;background:var(--tp-indent-guide)}.children .children .menu-item{padding-left:calc(var(--tp-indent)*2 + var(--tp-space-sm))}.children .children .menu-item::after{content:"";position:absolute;left:calc(var(--tp-indent)*2);top:0;bottom:0;width:1px;background:var(--tp-indent-guide)}.toolbar{display:flex;align-items:center;gap:var(--tp-space-xs);padding:var(--tp-space-xs) var(--tp-space-sm);margin-bottom:var(--tp-space-xs)}.description-toggle{padding:var(--tp-space-xs) var(--tp-space-sm);font-size:var(--tp-font-sm);color:var(--tp-fg-description);background:rgba(0,0,0,0);border:1px solid var(--tp-border);border-radius:var(--tp-radius);cursor:pointer;display:flex;align-items:center;gap:var(--tp-space-xs);flex:1}.description-toggle:hover{background:var(--tp-hover-bg)}.global-settings-btn{padding:var(--tp-space-xs);color:var(--tp-fg-description);background:rgba(0,0,0,0);border:1px solid var(--tp-border);border-radius:var(--tp-radius);cursor:pointer;display:flex;align-items:center;justify-content:center;width:24px;height:24px}.global-settings-btn:hover{background:var(--tp-hover-bg)}.empty-state{padding:20px;text-align:center;color:var(--tp-fg-description)}.empty-state .empty-hint{font-size:var(--tp-font-sm);margin-bottom:var(--tp-space-md)}.empty-state .generate-btn{padding:var(--tp-space-sm) var(--tp-space-lg);background:var(--tp-btn-bg);color:var(--tp-btn-fg);border:none;border-radius:4px;cursor:pointer;font-size:13px}.empty-state .generate-btn:hover{background:var(--tp-btn-hover-bg)}.empty-state a{color:var(--vscode-textLink-foreground);cursor:pointer}.toolbar{display:flex;gap:var(--tp-space-sm);margin-bottom:var(--tp-space-lg);padding:var(--tp-space-sm);background:var(--vscode-toolbar-background);border-radius:4px}.toolbar button{padding:6px 12px;background:var(--tp-btn-bg);color:var(--tp-btn-fg);border:none;border-radius:4px;cursor:pointer;font-size:12px}.toolbar button:hover:not(:disabled){background:var(--tp-btn-hover-bg)}.toolbar button:disabled{opacity:.5;cursor:not-allowed}.toolbar button.primary{background:var(--tp-btn-bg)}.toolbar button.secondary{background:var(--vscode-button-secondaryBackground);color:var(--vscode-button-secondaryForeground)}.section{margin-bottom:24px}.section-header{display:flex;justify-content:space-between;align-items:center;margin-bottom:var(--tp-space-sm)}.section-title{font-size:14px;font-weight:600;color:var(--tp-fg)}.menu-tree{border:1px solid var(--vscode-panel-border);border-radius:4px;background:var(--tp-bg)}.menu-tree .menu-item{display:flex;align-items:center;padding:var(--tp-space-sm) var(--tp-space-md);border-bottom:1px solid var(--vscode-panel-border);cursor:grab}.menu-tree .menu-item:last-child{border-bottom:none}.menu-tree .menu-item:hover{background:var(--tp-hover-bg)}.menu-tree .menu-item:hover .actions{opacity:1}.menu-tree .menu-item.dragging{opacity:.5}.menu-tree .menu-item.drag-over{border-top:2px solid var(--vscode-focusBorder)}.menu-tree .drag-handle{margin-right:var(--tp-space-sm);color:var(--tp-fg-description);cursor:grab}.menu-tree .icon{margin-right:var(--tp-space-sm);width:20px;text-align:center}.menu-tree .label{flex:1;font-weight:500}.menu-tree .type-badge{font-size:var(--tp-font-sm);padding:2px 6px;border-radius:var(--tp-radius);background:var(--vscode-badge-background);color:var(--vscode-badge-foreground);margin-right:var(--tp-space-sm)}.menu-tree .actions{display:flex;gap:var(--tp-space-xs);opacity:0}.menu-tree .actions button{padding:var(--tp-space-xs) var(--tp-space-sm);font-size:var(--tp-font-sm);background:rgba(0,0,0,0);border:1px solid var(--vscode-button-border, transparent);color:var(--tp-fg);border-radius:var(--tp-radius);cursor:pointer}.menu-tree .actions button:hover{background:var(--vscode-button-secondaryBackground)}.menu-tree .actions button.delete:hover{background:var(--vscode-errorForeground);color:#fff}.menu-tree .children{padding-left:24px}.modal{display:none;position:fixed;top:0;left:0;right:0;bottom:0;background:rgba(0,0,0,.5);z-index:1000;align-items:center;justify-content:center}.modal.open{display:flex}.modal-content{background:var(--tp-bg);border:1px solid var(--vscode-panel-border);border-radius:8px;padding:24px;min-width:400px;max-width:600px;max-height:80vh;overflow-y:auto}.modal-header{display:flex;justify-content:space-between;align-items:center;margin-bottom:var(--tp-space-lg)}.modal-title{font-size:16px;font-weight:600}.modal-close{background:none;border:none;font-size:20px;cursor:pointer;color:var(--tp-fg)}.form-group{margin-bottom:var(--tp-space-lg)}.form-group label{display:block;margin-bottom:var(--tp-space-xs);font-weight:500}.form-group input,.form-group select,.form-group textarea{width:100%;padding:var(--tp-space-sm);background:var(--vscode-input-background);color:var(--vscode-input-foreground);border:1px solid var(--vscode-input-border);border-radius:4px;font-family:inherit;font-size:inherit}.form-group textarea{min-height:80px;resize:vertical}.form-actions{display:flex;justify-content:flex-end;gap:var(--tp-space-sm);margin-top:24px}`;
+    return `:root{--tp-bg: var(--vscode-editor-background);--tp-fg: var(--vscode-foreground);--tp-fg-description: var(--vscode-descriptionForeground);--tp-hover-bg: var(--vscode-list-hoverBackground);--tp-border: var(--vscode-widget-border, rgba(128, 128, 128, 0.3));--tp-indent-guide: var(--vscode-tree-indentGuidesStroke, rgba(128, 128, 128, 0.3));--tp-btn-bg: var(--vscode-button-background);--tp-btn-fg: var(--vscode-button-foreground);--tp-btn-hover-bg: var(--vscode-button-hoverBackground);--tp-space-xs: 0.25rem;--tp-space-sm: 0.5rem;--tp-space-md: 0.75rem;--tp-space-lg: 1rem;--tp-font-sm: 0.6875rem;--tp-font-base: var(--vscode-font-size);--tp-radius: 3px;--tp-item-height: 22px;--tp-icon-size: 16px;--tp-indent: 16px}*{box-sizing:border-box;margin:0;padding:0}body{font-family:var(--vscode-font-family);font-size:var(--tp-font-base);color:var(--tp-fg);background:var(--tp-bg);line-height:1.5}.menu-container{padding:var(--tp-space-sm) 0}.menu-item{display:flex;align-items:flex-start;padding:var(--tp-radius) var(--tp-space-sm) var(--tp-radius) var(--tp-space-md);cursor:pointer;user-select:none;min-height:var(--tp-item-height)}.menu-item:hover{background-color:var(--tp-hover-bg)}.menu-item:hover .run-btn,.menu-item:hover .preview-btn,.menu-item:hover .pin-btn{opacity:1}.menu-item.category{font-weight:600}.menu-item .icon,.menu-item .chevron{width:var(--tp-icon-size);height:var(--tp-item-height);display:flex;align-items:center;justify-content:center;flex-shrink:0;text-align:center}.menu-item .icon{margin-right:6px}.menu-item .chevron{margin-right:2px;opacity:.8;color:var(--tp-fg)}.menu-item .label-container{flex:1;min-width:0}.menu-item .label{line-height:var(--tp-item-height)}.menu-item .description{font-size:var(--tp-font-sm);color:var(--tp-fg-description);opacity:.8;line-height:1.3;margin-top:1px;word-break:break-word}.menu-item .run-btn{opacity:0;padding:2px 6px;background:var(--tp-btn-bg);color:var(--tp-btn-fg);border:none;border-radius:var(--tp-radius);cursor:pointer;font-size:var(--tp-font-sm)}.menu-item .run-btn:hover{background:var(--tp-btn-hover-bg)}.menu-item .keybinding{flex-shrink:0;margin-right:var(--tp-space-xs);padding:0 var(--tp-space-xs);font-size:var(--tp-font-sm);color:var(--tp-fg-description);border:1px solid var(--tp-border);border-radius:var(--tp-radius)}.menu-item .preview-btn,.menu-item .pin-btn{opacity:0;padding:2px 4px;margin-right:var(--tp-space-xs);background:rgba(0,0,0,0);color:var(--tp-fg-description);border:none;border-radius:var(--tp-radius);cursor:pointer}.menu-item .preview-btn.pinned,.menu-item .pin-btn.pinned{opacity:1}.menu-item .preview-btn:hover,.menu-item .pin-btn:hover{color:var(--tp-fg)}.menu-item.pinned-item .pin-btn{opacity:1}.menu-item.missing .label{color:var(--tp-fg-description);text-decoration:line-through}.children{display:none}.children.expanded{display:block}.children .menu-item{padding-left:calc(var(--tp-indent) + var(--tp-space-sm));position:relative}.children .menu-item::before{content:"";position:absolute;left:var(--tp-indent);top:0;bottom:0;width:1px;background:var(--tp-indent-guide)}.children .children .menu-item{padding-left:calc(var(--tp-indent)*2 + var(--tp-space-sm))}.children .children .menu-item::after{content:"";position:absolute;left:calc(var(--tp-indent)*2);top:0;bottom:0;width:1px;background:var(--tp-indent-guide)}.toolbar{display:flex;align-items:center;gap:var(--tp-space-xs);padding:var(--tp-space-xs) var(--tp-space-sm);margin-bottom:var(--tp-space-xs)}.description-toggle{padding:var(--tp-space-xs) var(--tp-space-sm);font-size:var(--tp-font-sm);color:var(--tp-fg-description);background:rgba(0,0,0,0);border:1px solid var(--tp-border);border-radius:var(--tp-radius);cursor:pointer;display:flex;align-items:center;gap:var(--tp-space-xs);flex:1}.description-toggle:hover{background:var(--tp-hover-bg)}.global-settings-btn{padding:var(--tp-space-xs);color:var(--tp-fg-description);background:rgba(0,0,0,0);border:1px solid var(--tp-border);border-radius:var(--tp-radius);cursor:pointer;display:flex;align-items:center;justify-content:center;width:24px;height:24px}.global-settings-btn:hover{background:var(--tp-hover-bg)}.empty-state{padding:20px;text-align:center;color:var(--tp-fg-description)}.empty-state .empty-hint{font-size:var(--tp-font-sm);margin-bottom:var(--tp-space-md)}.empty-state .generate-btn{padding:var(--tp-space-sm) var(--tp-space-lg);background:var(--tp-btn-bg);color:var(--tp-btn-fg);border:none;border-radius:4px;cursor:pointer;font-size:13px}.empty-state .generate-btn:hover{background:var(--tp-btn-hover-bg)}.empty-state a{color:var(--vscode-textLink-foreground);cursor:pointer}.sidebar-section-title{padding:var(--tp-space-xs) var(--tp-space-md);font-size:var(--tp-font-sm);font-weight:600;text-transform:uppercase;color:var(--tp-fg-description)}.filter-box{display:flex;align-items:center;gap:var(--tp-space-xs);margin:0 var(--tp-space-sm) var(--tp-space-xs);padding:2px var(--tp-space-xs);background:var(--vscode-input-background);border:1px solid var(--vscode-input-border, var(--tp-border));border-radius:var(--tp-radius)}.filter-box .codicon{color:var(--tp-fg-description)}.filter-box input{flex:1;min-width:0;padding:2px 0;background:rgba(0,0,0,0);color:var(--vscode-input-foreground);border:none;outline:none;font-family:inherit;font-size:inherit}.toolbar{display:flex;gap:var(--tp-space-sm);margin-bottom:var(--tp-space-lg);padding:var(--tp-space-sm);background:var(--vscode-toolbar-background);border-radius:4px}.toolbar button{padding:6px 12px;background:var(--tp-btn-bg);color:var(--tp-btn-fg);border:none;border-radius:4px;cursor:pointer;font-size:12px}.toolbar button:hover:not(:disabled){background:var(--tp-btn-hover-bg)}.toolbar button:disabled{opacity:.5;cursor:not-allowed}.toolbar button.primary{background:var(--tp-btn-bg)}.toolbar button.secondary{background:var(--vscode-button-secondaryBackground);color:var(--vscode-button-secondaryForeground)}.section{margin-bottom:24px}.section-header{display:flex;justify-content:space-between;align-items:center;margin-bottom:var(--tp-space-sm)}.section-title{font-size:14px;font-weight:600;color:var(--tp-fg)}.menu-tree{border:1px solid var(--vscode-panel-border);border-radius:4px;background:var(--tp-bg)}.menu-tree .menu-item{display:flex;align-items:center;padding:var(--tp-space-sm) var(--tp-space-md);border-bottom:1px solid var(--vscode-panel-border);cursor:grab}.menu-tree .menu-item:last-child{border-bottom:none}.menu-tree .menu-item:hover{background:var(--tp-hover-bg)}.menu-tree .menu-item:hover .actions{opacity:1}.menu-tree .menu-item.dragging{opacity:.5}.menu-tree .menu-item.drag-over{border-top:2px solid var(--vscode-focusBorder)}.menu-tree .drag-handle{margin-right:var(--tp-space-sm);color:var(--tp-fg-description);cursor:grab}.menu-tree .icon{margin-right:var(--tp-space-sm);width:20px;text-align:center}.menu-tree .label{flex:1;font-weight:500}.menu-tree .type-badge{font-size:var(--tp-font-sm);padding:2px 6px;border-radius:var(--tp-radius);background:var(--vscode-badge-background);color:var(--vscode-badge-foreground);margin-right:var(--tp-space-sm)}.menu-tree .actions{display:flex;gap:var(--tp-space-xs);opacity:0}.menu-tree .actions button{padding:var(--tp-space-xs) var(--tp-space-sm);font-size:var(--tp-font-sm);background:rgba(0,0,0,0);border:1px solid var(--vscode-button-border, transparent);color:var(--tp-fg);border-radius:var(--tp-radius);cursor:pointer}.menu-tree .actions button:hover{background:var(--vscode-button-secondaryBackground)}.menu-tree .actions button.delete:hover{background:var(--vscode-errorForeground);color:#fff}.menu-tree .children{padding-left:24px}.modal{display:none;position:fixed;top:0;left:0;right:0;bottom:0;background:rgba(0,0,0,.5);z-index:1000;align-items:center;justify-content:center}.modal.open{display:flex}.modal-content{background:var(--tp-bg);border:1px solid var(--vscode-panel-border);border-radius:8px;padding:24px;min-width:400px;max-width:600px;max-height:80vh;overflow-y:auto}.modal-header{display:flex;justify-content:space-between;align-items:center;margin-bottom:var(--tp-space-lg)}.modal-title{font-size:16px;font-weight:600}.modal-close{background:none;border:none;font-size:20px;cursor:pointer;color:var(--tp-fg)}.form-group{margin-bottom:var(--tp-space-lg)}.form-group label{display:block;margin-bottom:var(--tp-space-xs);font-weight:500}.form-group input,.form-group select,.form-group textarea{width:100%;padding:var(--tp-space-sm);background:var(--vscode-input-background);color:var(--vscode-input-foreground);border:1px solid var(--vscode-input-border);border-radius:4px;font-family:inherit;font-size:inherit}.form-group textarea{min-height:80px;resize:vertical}.form-actions{display:flex;justify-content:flex-end;gap:var(--tp-space-sm);margin-top:24px}`;
 }
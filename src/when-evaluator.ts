@@ -0,0 +1,354 @@
+/**
+ * TaskPilot When Evaluator
+ * メニュー項目の表示条件（when式）を解析・評価する
+ *
+ * 構文:
+ * - 識別子: platform, remoteName, isLinux, isMac, isWindows, isRemote, env.NAME, true, false
+ * - 比較: `platform == linux`, `env.NODE_ENV != 'production'`（右辺は引用符なしの単語も可）
+ * - ファイル存在: `exists('package.json')`, `exists('*.sln')`（ワークスペースフォルダ基準のグロブ）
+ * - 論理演算: `!`, `&&`, `||`, 括弧
+ */
+
+/**
+ * when式の解析・評価エラー
+ */
+export class WhenExpressionError extends Error {
+    constructor(
+        message: string,
+        public readonly expression: string
+    ) {
+        super(`Invalid when expression "${expression}": ${message}`);
+        this.name = 'WhenExpressionError';
+    }
+}
+
+/**
+ * when式の評価に使用するコンテキスト
+ */
+export interface WhenContext {
+    /** OSプラットフォーム（linux, darwin, win32 等） */
+    platform: string;
+    /** リモート名（dev-container, ssh-remote, wsl 等。ローカルの場合はundefined） */
+    remoteName?: string;
+    /** 環境変数 */
+    env: Record<string, string | undefined>;
+    /** グロブパターンに一致するファイルが存在するか */
+    fileExists: (pattern: string) => boolean;
+}
+
+/**
+ * 構文木のノード
+ */
+type WhenNode =
+    | { kind: 'literal'; value: string | boolean }
+    | { kind: 'identifier'; name: string }
+    | { kind: 'exists'; pattern: string }
+    | { kind: 'not'; operand: WhenNode }
+    | { kind: 'and' | 'or'; left: WhenNode; right: WhenNode }
+    | { kind: 'compare'; operator: '==' | '!='; left: WhenNode; right: WhenNode };
+
+/**
+ * 字句トークン
+ */
+interface Token {
+    type: 'word' | 'string' | 'operator' | 'end';
+    value: string;
+}
+
+/** 使用可能な識別子 */
+const KNOWN_IDENTIFIERS = new Set(['platform', 'remoteName', 'isLinux', 'isMac', 'isWindows', 'isRemote']);
+
+/** 解析済みの式（同じ式を繰り返し評価するためキャッシュ） */
+const parsedCache = new Map<string, WhenNode>();
+
+/**
+ * when式を検証
+ * @throws WhenExpressionError 構文エラー・未知の識別子がある場合
+ */
+export function validateWhen(expression: string): void {
+    parseWhen(expression);
+}
+
+/**
+ * when式を評価
+ * @param expression when式
+ * @param context 評価コンテキスト
+ * @throws WhenExpressionError 構文エラー・未知の識別子がある場合
+ */
+export function evaluateWhen(expression: string, context: WhenContext): boolean {
+    return isTruthy(evaluateNode(parseWhen(expression), context));
+}
+
+/**
+ * when式で参照されているファイル存在チェックのパターンを収集
+ * 構文エラーのある式は無視する
+ */
+export function collectFilePatterns(expression: string): string[] {
+    let node: WhenNode;
+    try {
+        node = parseWhen(expression);
+    } catch {
+        return [];
+    }
+
+    const patterns: string[] = [];
+    const visit = (n: WhenNode): void => {
+        switch (n.kind) {
+            case 'exists':
+                patterns.push(n.pattern);
+                break;
+            case 'not':
+                visit(n.operand);
+                break;
+            case 'and':
+            case 'or':
+            case 'compare':
+                visit(n.left);
+                visit(n.right);
+                break;
+        }
+    };
+    visit(node);
+    return patterns;
+}
+
+/**
+ * when式を構文木に変換
+ */
+function parseWhen(expression: string): WhenNode {
+    const cached = parsedCache.get(expression);
+    if (cached) {
+        return cached;
+    }
+
+    const tokens = tokenize(expression);
+    let position = 0;
+
+    const peek = (): Token => tokens[position];
+    const next = (): Token => tokens[position++];
+    const fail = (message: string): never => {
+        throw new WhenExpressionError(message, expression);
+    };
+    const expect = (value: string): void => {
+        const token = next();
+        if (token.value !== value || token.type === 'string') {
+            fail(`expected "${value}" but found ${describe(token)}`);
+        }
+    };
+
+    const parseOr = (): WhenNode => {
+        let left = parseAnd();
+        while (peek().type === 'operator' && peek().value === '||') {
+            next();
+            left = { kind: 'or', left, right: parseAnd() };
+        }
+        return left;
+    };
+
+    const parseAnd = (): WhenNode => {
+        let left = parseUnary();
+        while (peek().type === 'operator' && peek().value === '&&') {
+            next();
+            left = { kind: 'and', left, right: parseUnary() };
+        }
+        return left;
+    };
+
+    const parseUnary = (): WhenNode => {
+        if (peek().type === 'operator' && peek().value === '!') {
+            next();
+            return { kind: 'not', operand: parseUnary() };
+        }
+        return parseComparison();
+    };
+
+    const parseComparison = (): WhenNode => {
+        const left = parsePrimary();
+        const token = peek();
+        if (token.type === 'operator' && (token.value === '==' || token.value === '!=')) {
+            next();
+            return { kind: 'compare', operator: token.value, left, right: parseValue() };
+        }
+        return left;
+    };
+
+    const parsePrimary = (): WhenNode => {
+        const token = next();
+
+        if (token.type === 'operator' && token.value === '(') {
+            const node = parseOr();
+            expect(')');
+            return node;
+        }
+
+        if (token.type === 'string') {
+            return { kind: 'literal', value: token.value };
+        }
+
+        if (token.type === 'word') {
+            if (token.value === 'true' || token.value === 'false') {
+                return { kind: 'literal', value: token.value === 'true' };
+            }
+            if (token.value === 'exists') {
+                expect('(');
+                const pattern = next();
+                if (pattern.type !== 'string' || pattern.value === '') {
+                    fail('exists() requires a quoted file pattern');
+                }
+                expect(')');
+                return { kind: 'exists', pattern: pattern.value };
+            }
+            if (KNOWN_IDENTIFIERS.has(token.value) || /^env\.[A-Za-z_][A-Za-z0-9_]*$/.test(token.value)) {
+                return { kind: 'identifier', name: token.value };
+            }
+            return fail(`unknown identifier "${token.value}"`);
+        }
+
+        return fail(`unexpected ${describe(token)}`);
+    };
+
+    // 比較の右辺（引用符なしの単語はリテラルとして扱う）
+    const parseValue = (): WhenNode => {
+        const token = peek();
+        if (token.type === 'word' && (token.value === 'true' || token.value === 'false')) {
+            next();
+            return { kind: 'literal', value: token.value === 'true' };
+        }
+        if (token.type === 'word' && !KNOWN_IDENTIFIERS.has(token.value) &&
+            !token.value.startsWith('env.') && token.value !== 'exists') {
+            next();
+            return { kind: 'literal', value: token.value };
+        }
+        return parsePrimary();
+    };
+
+    if (peek().type === 'end') {
+        fail('expression is empty');
+    }
+
+    const node = parseOr();
+    if (peek().type !== 'end') {
+        fail(`unexpected ${describe(peek())}`);
+    }
+
+    parsedCache.set(expression, node);
+    return node;
+}
+
+/**
+ * when式をトークンに分割
+ */
+function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < expression.length) {
+        const char = expression[i];
+
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        const twoChars = expression.substring(i, i + 2);
+        if (twoChars === '&&' || twoChars === '||' || twoChars === '==' || twoChars === '!=') {
+            tokens.push({ type: 'operator', value: twoChars });
+            i += 2;
+            continue;
+        }
+
+        if (char === '!' || char === '(' || char === ')') {
+            tokens.push({ type: 'operator', value: char });
+            i++;
+            continue;
+        }
+
+        if (char === '"' || char === "'") {
+            const end = expression.indexOf(char, i + 1);
+            if (end < 0) {
+                throw new WhenExpressionError('unterminated string', expression);
+            }
+            tokens.push({ type: 'string', value: expression.substring(i + 1, end) });
+            i = end + 1;
+            continue;
+        }
+
+        const match = /^[A-Za-z0-9_.\-/*]+/.exec(expression.substring(i));
+        if (!match) {
+            throw new WhenExpressionError(`unexpected character "${char}"`, expression);
+        }
+        tokens.push({ type: 'word', value: match[0] });
+        i += match[0].length;
+    }
+
+    tokens.push({ type: 'end', value: '' });
+    return tokens;
+}
+
+/**
+ * エラーメッセージ用にトークンを表現
+ */
+function describe(token: Token): string {
+    if (token.type === 'end') {
+        return 'end of expression';
+    }
+    return token.type === 'string' ? `'${token.value}'` : `"${token.value}"`;
+}
+
+/**
+ * 構文木を評価
+ */
+function evaluateNode(node: WhenNode, context: WhenContext): string | boolean | undefined {
+    switch (node.kind) {
+        case 'literal':
+            return node.value;
+        case 'identifier':
+            return resolveIdentifier(node.name, context);
+        case 'exists':
+            return context.fileExists(node.pattern);
+        case 'not':
+            return !isTruthy(evaluateNode(node.operand, context));
+        case 'and':
+            return isTruthy(evaluateNode(node.left, context)) && isTruthy(evaluateNode(node.right, context));
+        case 'or':
+            return isTruthy(evaluateNode(node.left, context)) || isTruthy(evaluateNode(node.right, context));
+        case 'compare': {
+            const equal = String(evaluateNode(node.left, context) ?? '') ===
+                String(evaluateNode(node.right, context) ?? '');
+            return node.operator === '==' ? equal : !equal;
+        }
+    }
+}
+
+/**
+ * 識別子の値を取得
+ */
+function resolveIdentifier(name: string, context: WhenContext): string | boolean | undefined {
+    if (name.startsWith('env.')) {
+        return context.env[name.substring(4)];
+    }
+
+    switch (name) {
+        case 'platform':
+            return context.platform;
+        case 'remoteName':
+            return context.remoteName;
+        case 'isLinux':
+            return context.platform === 'linux';
+        case 'isMac':
+            return context.platform === 'darwin';
+        case 'isWindows':
+            return context.platform === 'win32';
+        case 'isRemote':
+            return !!context.remoteName;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * 値の真偽判定（空文字列・undefinedはfalse）
+ */
+function isTruthy(value: string | boolean | undefined): boolean {
+    return typeof value === 'boolean' ? value : !!value;
+}
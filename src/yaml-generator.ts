@@ -1,178 +1,156 @@
 /**
  * TaskPilot YAML Generator
  * MenuConfig から YAML 文字列を生成する機能
+ * 出力する項目と順序は types.ts から生成したJSONスキーマ（schemas/taskpilot.schema.json）に従う
  */
 
 import * as yaml from 'js-yaml';
-import { MenuConfig, MenuItem, CommandDefinition, ActionDefinition } from './types';
+import { configSchema, getDefinition, JsonSchema } from './config-schema';
+import { MenuConfig, MenuItem } from './types';
+
+/** 共通オプション（TerminalProfileOptions・TaskMatchOptions）を継承する定義 */
+const OPTION_DEFINITIONS = ['CommandDefinition', 'ActionDefinition', 'MenuItem'];
+
+/** 共通オプションのプロパティ */
+let optionProperties: string[] | undefined;
 
 /**
  * MenuConfigをYAML文字列に変換
+ * スキーマにあるすべてのプロパティ（スキーマにないプロパティも含む）を出力する
  * @param config 設定オブジェクト
  * @returns YAML文字列
  */
 export function generateYaml(config: MenuConfig): string {
-    const lines: string[] = [];
-
-    // version
-    lines.push(`version: "${config.version}"`);
-    lines.push('');
-
-    // commands (optional)
-    if (config.commands && Object.keys(config.commands).length > 0) {
-        lines.push('commands:');
-        for (const [name, cmd] of Object.entries(config.commands)) {
-            lines.push(...generateCommandYaml(name, cmd, 1));
-        }
-        lines.push('');
-    }
+    const data = config as unknown as Record<string, unknown>;
 
-    // menu
-    if (config.menu.length === 0) {
-        lines.push('menu: []');
-    } else {
-        lines.push('menu:');
-        for (const item of config.menu) {
-            lines.push(...generateMenuItemYamlLines(item, 1));
-        }
-    }
+    // トップレベルの項目は空行で区切る
+    return orderKeys(data, configSchema)
+        .map(key => generateEntryLines(key, data[key], getPropertySchema(configSchema, key, data[key]), 0).join('\n'))
+        .join('\n\n');
+}
 
-    return lines.join('\n');
+/**
+ * MenuItemをYAML文字列に変換（公開API）
+ * @param item メニューアイテム
+ * @param indent インデントレベル
+ * @returns YAML文字列
+ */
+export function generateMenuItemYaml(item: MenuItem, indent: number): string {
+    return generateSequenceItemLines(item, resolveSchema({ $ref: '#/definitions/MenuItem' }, item), indent).join('\n');
 }
 
 /**
- * CommandDefinitionをYAML行配列に変換
+ * `key: value`をYAML行配列に変換（マッピング・シーケンスは次の行から1段深くインデント）
  */
-function generateCommandYaml(name: string, cmd: CommandDefinition, indent: number): string[] {
+function generateEntryLines(key: string, value: unknown, valueSchema: JsonSchema | undefined, indent: number): string[] {
     const prefix = '  '.repeat(indent);
-    const lines: string[] = [];
+    const name = escapeYamlString(key);
 
-    lines.push(`${prefix}${name}:`);
-    lines.push(`${prefix}  type: ${cmd.type}`);
-    lines.push(`${prefix}  command: ${escapeYamlString(cmd.command)}`);
-
-    if (cmd.description) {
-        lines.push(`${prefix}  description: ${escapeYamlString(cmd.description)}`);
-    }
-    if (cmd.terminal) {
-        lines.push(`${prefix}  terminal: ${escapeYamlString(cmd.terminal)}`);
-    }
-    if (cmd.cwd) {
-        lines.push(`${prefix}  cwd: ${escapeYamlString(cmd.cwd)}`);
+    if (isBlock(value)) {
+        return [`${prefix}${name}:`, ...generateBlockLines(value, valueSchema, indent + 1)];
     }
-    if (cmd.args && cmd.args.length > 0) {
-        lines.push(`${prefix}  args:`);
-        for (const arg of cmd.args) {
-            lines.push(`${prefix}    - ${formatYamlValue(arg)}`);
-        }
+    return [`${prefix}${name}: ${formatYamlValue(value)}`];
+}
+
+/**
+ * マッピング・シーケンスをYAML行配列に変換
+ */
+function generateBlockLines(value: object, valueSchema: JsonSchema | undefined, indent: number): string[] {
+    if (Array.isArray(value)) {
+        return value.flatMap(item => generateSequenceItemLines(item, resolveSchema(valueSchema?.items, item), indent));
     }
 
-    return lines;
+    const mapping = value as Record<string, unknown>;
+    return orderKeys(mapping, valueSchema).flatMap(key =>
+        generateEntryLines(key, mapping[key], getPropertySchema(valueSchema, key, mapping[key]), indent)
+    );
 }
 
 /**
- * MenuItemをYAML行配列に変換（内部用）
+ * シーケンスの要素をYAML行配列に変換（マッピングの最初の項目は`- `と同じ行）
  */
-function generateMenuItemYamlLines(item: MenuItem, indent: number): string[] {
+function generateSequenceItemLines(item: unknown, itemSchema: JsonSchema | undefined, indent: number): string[] {
     const prefix = '  '.repeat(indent);
-    const lines: string[] = [];
+    if (!isBlock(item)) {
+        return [`${prefix}- ${formatYamlValue(item)}`];
+    }
 
-    // リストアイテムとしてlabelを出力
-    lines.push(`${prefix}- label: ${escapeYamlString(item.label)}`);
-    const contentPrefix = prefix + '  ';
+    const lines = generateBlockLines(item, itemSchema, indent + 1);
+    lines[0] = `${prefix}- ${lines[0].slice(prefix.length + 2)}`;
+    return lines;
+}
 
-    // icon
-    if (item.icon) {
-        lines.push(`${contentPrefix}icon: ${escapeYamlString(item.icon)}`);
+/**
+ * 出力するキーの順序
+ * - スキーマの定義順（types.tsの宣言順）
+ * - 共通オプション（シェル・ターミナルの表示・タスクの条件）はその型の項目の後
+ * - 入れ子の定義の配列（children・actions・parallel・menu等）は最後
+ * - スキーマにないキーは失わないよう末尾に元の順序で出力
+ */
+function orderKeys(value: Record<string, unknown>, definition: JsonSchema | undefined): string[] {
+    const keys = Object.keys(value).filter(key => value[key] !== undefined);
+    const properties = definition?.properties;
+    if (!properties) {
+        return keys;
     }
 
-    // description
-    if (item.description) {
-        lines.push(`${contentPrefix}description: ${escapeYamlString(item.description)}`);
-    }
+    const names = Object.keys(properties);
+    const options = getOptionProperties();
+    const nested = names.filter(name => properties[name].type === 'array' && !!properties[name].items?.$ref);
+    const order = [
+        ...names.filter(name => !options.includes(name) && !nested.includes(name)),
+        ...names.filter(name => options.includes(name)),
+        ...nested
+    ];
+
+    return [
+        ...order.filter(name => keys.includes(name)),
+        ...keys.filter(key => !names.includes(key))
+    ];
+}
 
-    // children (ネストしたメニュー)
-    if (item.children && item.children.length > 0) {
-        lines.push(`${contentPrefix}children:`);
-        for (const child of item.children) {
-            lines.push(...generateMenuItemYamlLines(child, indent + 2));
-        }
-    } else if (item.actions && item.actions.length > 0) {
-        // multiple actions
-        lines.push(`${contentPrefix}actions:`);
-        for (const action of item.actions) {
-            lines.push(...generateActionDefinitionYaml(action, indent + 2));
-        }
-        if (item.continueOnError !== undefined) {
-            lines.push(`${contentPrefix}continueOnError: ${item.continueOnError}`);
-        }
-    } else if (item.ref) {
-        // ref reference
-        lines.push(`${contentPrefix}ref: ${item.ref}`);
-    } else if (item.type && item.command) {
-        // inline action
-        lines.push(`${contentPrefix}type: ${item.type}`);
-        lines.push(`${contentPrefix}command: ${escapeYamlString(item.command)}`);
-
-        if (item.terminal) {
-            lines.push(`${contentPrefix}terminal: ${escapeYamlString(item.terminal)}`);
-        }
-        if (item.cwd) {
-            lines.push(`${contentPrefix}cwd: ${escapeYamlString(item.cwd)}`);
-        }
-        if (item.args && item.args.length > 0) {
-            lines.push(`${contentPrefix}args:`);
-            for (const arg of item.args) {
-                lines.push(`${contentPrefix}  - ${formatYamlValue(arg)}`);
-            }
-        }
+/**
+ * 共通オプションのプロパティ
+ * 継承したプロパティは各定義の先頭に並ぶため、継承する定義に共通する先頭のプロパティとする
+ */
+function getOptionProperties(): string[] {
+    if (!optionProperties) {
+        const lists = OPTION_DEFINITIONS.map(name => Object.keys(getDefinition(name)?.properties ?? {}));
+        const length = lists[0].findIndex((name, index) => lists.some(list => list[index] !== name));
+        optionProperties = lists[0].slice(0, length < 0 ? lists[0].length : length);
     }
+    return optionProperties;
+}
 
-    return lines;
+/**
+ * プロパティの値のスキーマ
+ */
+function getPropertySchema(definition: JsonSchema | undefined, key: string, value: unknown): JsonSchema | undefined {
+    const additional = typeof definition?.additionalProperties === 'object' ? definition.additionalProperties : undefined;
+    return resolveSchema(definition?.properties?.[key] ?? additional, value);
 }
 
 /**
- * ActionDefinitionをYAML行配列に変換
+ * $refと候補（anyOf、例: `boolean | StatusBarOptions`）を値に合わせて解決
  */
-function generateActionDefinitionYaml(action: ActionDefinition, indent: number): string[] {
-    const prefix = '  '.repeat(indent);
-    const lines: string[] = [];
-
-    if (action.ref) {
-        lines.push(`${prefix}- ref: ${action.ref}`);
-    } else if (action.type && action.command) {
-        lines.push(`${prefix}- type: ${action.type}`);
-        const contentPrefix = prefix + '  ';
-        lines.push(`${contentPrefix}command: ${escapeYamlString(action.command)}`);
-
-        if (action.description) {
-            lines.push(`${contentPrefix}description: ${escapeYamlString(action.description)}`);
-        }
-        if (action.terminal) {
-            lines.push(`${contentPrefix}terminal: ${escapeYamlString(action.terminal)}`);
-        }
-        if (action.cwd) {
-            lines.push(`${contentPrefix}cwd: ${escapeYamlString(action.cwd)}`);
-        }
-        if (action.args && action.args.length > 0) {
-            lines.push(`${contentPrefix}args:`);
-            for (const arg of action.args) {
-                lines.push(`${contentPrefix}  - ${formatYamlValue(arg)}`);
-            }
-        }
+function resolveSchema(node: JsonSchema | undefined, value: unknown): JsonSchema | undefined {
+    if (node?.$ref) {
+        return resolveSchema(getDefinition(node.$ref), value);
     }
-
-    return lines;
+    if (node?.anyOf) {
+        const kind = Array.isArray(value) ? 'array' : isBlock(value) ? 'object' : undefined;
+        return node.anyOf
+            .map(branch => resolveSchema(branch, value))
+            .find(branch => kind !== undefined && branch?.type === kind);
+    }
+    return node;
 }
 
 /**
- * MenuItemをYAML文字列に変換（公開API）
- * @param item メニューアイテム
- * @param indent インデントレベル
- * @returns YAML文字列
+ * 次の行から書くマッピング・シーケンス（空の場合は`{}`・`[]`）かどうか
  */
-export function generateMenuItemYaml(item: MenuItem, indent: number): string {
-    return generateMenuItemYamlLines(item, indent).join('\n');
+function isBlock(value: unknown): value is object {
+    return !!value && typeof value === 'object' && Object.keys(value).length > 0;
 }
 
 /**
@@ -188,7 +166,7 @@ function formatYamlValue(value: unknown): string {
     if (value === null || value === undefined) {
         return 'null';
     }
-    // オブジェクトや配列はjs-yamlでダンプ
+    // 空のオブジェクトや配列はjs-yamlでダンプ
     return yaml.dump(value, { flowLevel: 0 }).trim();
 }
 
@@ -196,7 +174,7 @@ function formatYamlValue(value: unknown): string {
  * YAML文字列をエスケープ（必要な場合のみクォート）
  */
 function escapeYamlString(str: string): string {
-    // 特殊文字や予約語を含む場合はクォートする
+    // 特殊文字や予約語を含む場合、文字列として読み込まれない場合（数値・null・`- `で始まる等）はクォートする
     const needsQuotes = /[:#\[\]{}|>&*!?'"`\n\r]/.test(str) ||
         str.startsWith(' ') ||
         str.endsWith(' ') ||
@@ -205,12 +183,24 @@ function escapeYamlString(str: string): string {
         str === 'null' ||
         str === 'yes' ||
         str === 'no' ||
-        /^\d+(\.\d+)?$/.test(str);
+        /^\d+(\.\d+)?$/.test(str) ||
+        !loadsAsString(str);
 
     if (needsQuotes) {
-        // ダブルクォートでエスケープ
-        return `"${str.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+        // ダブルクォートでエスケープ（JSONの文字列はYAMLのダブルクォート文字列として読み込める）
+        return JSON.stringify(str);
     }
 
     return str;
 }
+
+/**
+ * クォートせずにYAMLとして読み込んだ場合に同じ文字列になるか
+ */
+function loadsAsString(str: string): boolean {
+    try {
+        return yaml.load(str) === str;
+    } catch {
+        return false;
+    }
+}
@@ -4,29 +4,40 @@
  */
 
 import * as yaml from 'js-yaml';
-import { MenuConfig, MenuItem, CommandDefinition, ValidationResult, ValidationError } from './types';
+import { MenuConfig, ActionType, ValidationResult, ValidationError } from './types';
+import { validateWhen } from './when-evaluator';
+import { validateSchema } from './schema-validator';
+import { createSourceMap, findPosition } from './yaml-source-map';
 
 /**
- * YAMLパースエラー（行番号付き）
+ * YAMLパースエラー（ファイル名・行番号付き）
+ * バリデーションエラーの場合は`errors`にすべてのエラーを位置付きで保持する
  */
 export class YamlParseError extends Error {
+    /** ファイル名・行番号を含まないエラーメッセージ */
+    public readonly reason: string;
+
     constructor(
         message: string,
         public readonly line?: number,
-        public readonly column?: number
+        public readonly column?: number,
+        public readonly file?: string,
+        public readonly errors: ValidationError[] = []
     ) {
-        super(line ? `Line ${line}: ${message}` : message);
+        super(`${file ? `${file}: ` : ''}${line ? `Line ${line}: ${message}` : message}`);
         this.name = 'YamlParseError';
+        this.reason = message;
     }
 }
 
 /**
  * YAMLコンテンツをパースしてMenuConfigを返す
  * @param content YAMLコンテンツ文字列
+ * @param file エラー表示用のファイル名
  * @returns パース結果
  * @throws YamlParseError パース失敗時
  */
-export function parseYaml(content: string): unknown {
+export function parseYaml(content: string, file?: string): unknown {
     try {
         return yaml.load(content);
     } catch (error) {
@@ -35,120 +46,109 @@ export function parseYaml(content: string): unknown {
             throw new YamlParseError(
                 error.reason || 'Invalid YAML syntax',
                 mark?.line !== undefined ? mark.line + 1 : undefined,
-                mark?.column !== undefined ? mark.column + 1 : undefined
+                mark?.column !== undefined ? mark.column + 1 : undefined,
+                file
             );
         }
         throw new YamlParseError(
-            error instanceof Error ? error.message : 'Unknown parse error'
+            error instanceof Error ? error.message : 'Unknown parse error',
+            undefined,
+            undefined,
+            file
         );
     }
 }
 
 /**
  * パース結果をMenuConfig型として検証・変換
+ * JSONスキーマ（型・必須項目・値の範囲）で検証し、スキーマで表現できない検証（タイプごとの必須項目・when式・idの重複など）を加える
  * @param data パースされたデータ
  * @returns バリデーション結果と設定
  */
 export function validateConfig(data: unknown): { result: ValidationResult; config?: MenuConfig } {
-    const errors: ValidationError[] = [];
-
     if (!data || typeof data !== 'object') {
-        errors.push({ message: 'Configuration must be an object' });
-        return { result: { valid: false, errors } };
+        return { result: { valid: false, errors: [{ message: 'Configuration must be an object' }] } };
     }
 
-    const obj = data as Record<string, unknown>;
+    const errors = [...validateSchema(data), ...validateConstraints(data as Record<string, unknown>)];
 
-    // version check
-    if (!obj.version || typeof obj.version !== 'string') {
-        errors.push({ message: 'Missing or invalid "version" field', path: 'version' });
+    if (errors.length > 0) {
+        return { result: { valid: false, errors } };
     }
 
-    // menu check
-    if (!obj.menu) {
-        errors.push({ message: 'Missing "menu" field', path: 'menu' });
-    } else if (!Array.isArray(obj.menu)) {
-        errors.push({ message: '"menu" must be an array', path: 'menu' });
-    } else {
+    return {
+        result: { valid: true, errors: [] },
+        config: data as MenuConfig
+    };
+}
+
+/**
+ * スキーマで表現できない検証を行う
+ * 型の誤り等はスキーマで報告するため、検証できる形の値のみを対象にする
+ */
+function validateConstraints(obj: Record<string, unknown>): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (Array.isArray(obj.menu)) {
         validateMenuItems(obj.menu, 'menu', errors);
     }
 
-    // commands check (optional)
-    if (obj.commands !== undefined) {
-        if (typeof obj.commands !== 'object' || Array.isArray(obj.commands)) {
-            errors.push({ message: '"commands" must be an object', path: 'commands' });
-        } else {
-            validateCommands(obj.commands as Record<string, unknown>, errors);
-        }
+    if (isRecord(obj.commands)) {
+        validateCommands(obj.commands, errors);
     }
 
-    if (errors.length > 0) {
-        return { result: { valid: false, errors } };
+    if (Array.isArray(obj.inputs)) {
+        validateInputs(obj.inputs, errors);
     }
 
-    return {
-        result: { valid: true, errors: [] },
-        config: obj as unknown as MenuConfig
-    };
+    return errors;
 }
 
 /**
  * メニューアイテム配列を検証
  */
-function validateMenuItems(items: unknown[], path: string, errors: ValidationError[]): void {
+function validateMenuItems(
+    items: unknown[],
+    path: string,
+    errors: ValidationError[],
+    ids: Set<string> = new Set()
+): void {
     items.forEach((item, index) => {
         const itemPath = `${path}[${index}]`;
-
-        if (!item || typeof item !== 'object') {
-            errors.push({ message: 'Menu item must be an object', path: itemPath });
+        if (!isRecord(item)) {
             return;
         }
 
-        const menuItem = item as Record<string, unknown>;
-
-        // label is required
-        if (!menuItem.label || typeof menuItem.label !== 'string') {
-            errors.push({ message: 'Missing or invalid "label" field', path: `${itemPath}.label` });
-        }
-
-        // icon validation
-        if (menuItem.icon !== undefined && typeof menuItem.icon !== 'string') {
-            errors.push({ message: '"icon" must be a string', path: `${itemPath}.icon` });
+        // id validation (unique within the menu)
+        if (typeof item.id === 'string') {
+            if (ids.has(item.id)) {
+                errors.push({ message: `Duplicate id "${item.id}"`, path: `${itemPath}.id` });
+            } else {
+                ids.add(item.id);
+            }
         }
 
-        // description validation
-        if (menuItem.description !== undefined && typeof menuItem.description !== 'string') {
-            errors.push({ message: '"description" must be a string', path: `${itemPath}.description` });
-        }
+        // when validation
+        validateWhenField(item.when, `${itemPath}.when`, errors);
 
         // children or action
-        if (menuItem.children !== undefined) {
-            if (!Array.isArray(menuItem.children)) {
-                errors.push({ message: '"children" must be an array', path: `${itemPath}.children` });
-            } else {
-                validateMenuItems(menuItem.children, `${itemPath}.children`, errors);
+        if (item.children !== undefined) {
+            if (Array.isArray(item.children)) {
+                validateMenuItems(item.children, `${itemPath}.children`, errors, ids);
             }
-        } else if (menuItem.actions !== undefined) {
+        } else if (item.actions !== undefined) {
             // Multiple actions
-            if (!Array.isArray(menuItem.actions)) {
-                errors.push({ message: '"actions" must be an array', path: `${itemPath}.actions` });
-            } else {
-                validateActionsArray(menuItem.actions, `${itemPath}.actions`, errors);
+            if (Array.isArray(item.actions)) {
+                validateActionsArray(item.actions, `${itemPath}.actions`, errors);
             }
-            // continueOnError validation
-            if (menuItem.continueOnError !== undefined && typeof menuItem.continueOnError !== 'boolean') {
-                errors.push({ message: '"continueOnError" must be a boolean', path: `${itemPath}.continueOnError` });
-            }
-        } else if (menuItem.parallel !== undefined) {
+        } else if (item.parallel !== undefined) {
             // Parallel actions (split terminals)
-            if (!Array.isArray(menuItem.parallel)) {
-                errors.push({ message: '"parallel" must be an array', path: `${itemPath}.parallel` });
-            } else {
-                validateActionsArray(menuItem.parallel, `${itemPath}.parallel`, errors);
+            if (Array.isArray(item.parallel)) {
+                validateActionsArray(item.parallel, `${itemPath}.parallel`, errors);
             }
         } else {
             // Must have ref or (type + command)
-            validateAction(menuItem, itemPath, errors);
+            validateAction(item, itemPath, 'Missing "type" or "ref" for action item', errors);
         }
     });
 }
@@ -158,179 +158,204 @@ function validateMenuItems(items: unknown[], path: string, errors: ValidationErr
  */
 function validateActionsArray(actions: unknown[], path: string, errors: ValidationError[]): void {
     actions.forEach((action, index) => {
-        const actionPath = `${path}[${index}]`;
-
-        if (!action || typeof action !== 'object') {
-            errors.push({ message: 'Action must be an object', path: actionPath });
-            return;
+        if (isRecord(action)) {
+            validateAction(action, `${path}[${index}]`, 'Missing "type" or "ref" for action', errors);
         }
-
-        const actionDef = action as Record<string, unknown>;
-        validateActionDefinition(actionDef, actionPath, errors);
     });
 }
 
 /**
- * 個別のアクション定義を検証（actions配列内の要素用）
+ * アクション定義を検証（refまたはtypeと、タイプごとの必須フィールド）
  */
-function validateActionDefinition(item: Record<string, unknown>, path: string, errors: ValidationError[]): void {
+function validateAction(item: Record<string, unknown>, path: string, missingMessage: string, errors: ValidationError[]): void {
+    // ref がある場合は type/command は不要
     if (item.ref !== undefined) {
-        if (typeof item.ref !== 'string') {
-            errors.push({ message: '"ref" must be a string', path: `${path}.ref` });
-        }
         return;
     }
 
     // ref がない場合は type と command が必要
-    if (!item.type) {
-        errors.push({ message: 'Missing "type" or "ref" for action', path: `${path}.type` });
-    } else if (!isValidActionType(item.type)) {
-        errors.push({
-            message: '"type" must be one of: terminal, vscodeCommand, task, openInDevContainer, openRemoteSSH, openRemoteTunnel',
-            path: `${path}.type`
-        });
+    if (item.type === undefined) {
+        errors.push({ message: missingMessage, path: `${path}.type` });
+        return;
     }
 
-    // openInDevContainer/openRemoteSSH/openRemoteTunnel は path を使用、それ以外は command を使用
+    validateRequiredFields(item, path, errors);
+}
+
+/**
+ * アクションタイプごとの必須フィールドを検証
+ * openInDevContainer/openRemoteSSH/openRemoteTunnel は path を使用、それ以外は command を使用
+ */
+function validateRequiredFields(item: Record<string, unknown>, path: string, errors: ValidationError[]): void {
+    const required: string[] = [];
     if (item.type === 'openInDevContainer' || item.type === 'openRemoteSSH' || item.type === 'openRemoteTunnel') {
-        if (!item.path || typeof item.path !== 'string') {
-            errors.push({ message: 'Missing or invalid "path" field', path: `${path}.path` });
-        }
-        if (item.type === 'openRemoteSSH' && (!item.host || typeof item.host !== 'string')) {
-            errors.push({ message: 'Missing or invalid "host" field', path: `${path}.host` });
+        required.push('path');
+        if (item.type === 'openRemoteSSH') {
+            required.push('host');
         }
-        if (item.type === 'openRemoteTunnel' && (!item.tunnelName || typeof item.tunnelName !== 'string')) {
-            errors.push({ message: 'Missing or invalid "tunnelName" field', path: `${path}.tunnelName` });
+        if (item.type === 'openRemoteTunnel') {
+            required.push('tunnelName');
         }
-    } else if (!item.command || typeof item.command !== 'string') {
-        errors.push({ message: 'Missing or invalid "command" field', path: `${path}.command` });
+    } else if (isValidActionType(item.type) && !isTaskGroupAction(item)) {
+        required.push('command');
     }
 
-    // terminal-specific validation
-    if (item.type === 'terminal') {
-        if (item.terminal !== undefined && typeof item.terminal !== 'string') {
-            errors.push({ message: '"terminal" must be a string', path: `${path}.terminal` });
-        }
-        if (item.cwd !== undefined && typeof item.cwd !== 'string') {
-            errors.push({ message: '"cwd" must be a string', path: `${path}.cwd` });
-        }
+    for (const field of required.filter(field => item[field] === undefined)) {
+        errors.push({ message: `Missing "${field}" field`, path: `${path}.${field}` });
     }
+}
+
+/**
+ * アクションタイプが有効かチェック
+ */
+function isValidActionType(type: unknown): type is ActionType {
+    return type === 'terminal' || type === 'vscodeCommand' || type === 'task' || type === 'openInDevContainer' || type === 'openRemoteSSH' || type === 'openRemoteTunnel' || type === 'process';
+}
 
-    // vscodeCommand-specific validation
-    if (item.type === 'vscodeCommand') {
-        if (item.args !== undefined && !Array.isArray(item.args)) {
-            errors.push({ message: '"args" must be an array', path: `${path}.args` });
+/**
+ * タスク名を省略してtaskGroupで指定したtaskアクションか判定
+ */
+function isTaskGroupAction(item: Record<string, unknown>): boolean {
+    return item.type === 'task' && item.command === undefined && typeof item.taskGroup === 'string';
+}
+
+/**
+ * コマンド定義を検証
+ * 未定義のコマンド・循環依存はincludeのマージ後に検証する（command-graph）
+ */
+function validateCommands(commands: Record<string, unknown>, errors: ValidationError[]): void {
+    for (const [name, cmd] of Object.entries(commands)) {
+        const path = `commands.${name}`;
+        if (!isRecord(cmd)) {
+            continue;
         }
+
+        validateRequiredFields(cmd, path, errors);
+        validateWhenField(cmd.when, `${path}.when`, errors);
     }
 }
 
 /**
- * アクション定義を検証
+ * 表示条件（when式）の構文を検証
  */
-function validateAction(item: Record<string, unknown>, path: string, errors: ValidationError[]): void {
-    if (item.ref !== undefined) {
-        if (typeof item.ref !== 'string') {
-            errors.push({ message: '"ref" must be a string', path: `${path}.ref` });
-        }
-        // ref がある場合は type/command は不要
+function validateWhenField(when: unknown, path: string, errors: ValidationError[]): void {
+    if (typeof when !== 'string') {
         return;
     }
 
-    // ref がない場合は type と command が必要
-    if (!item.type) {
-        errors.push({ message: 'Missing "type" or "ref" for action item', path: `${path}.type` });
-    } else if (!isValidActionType(item.type)) {
-        errors.push({
-            message: '"type" must be one of: terminal, vscodeCommand, task, openInDevContainer, openRemoteSSH, openRemoteTunnel',
-            path: `${path}.type`
-        });
+    try {
+        validateWhen(when);
+    } catch (error) {
+        errors.push({ message: error instanceof Error ? error.message : String(error), path });
     }
+}
 
-    // openInDevContainer/openRemoteSSH/openRemoteTunnel は path を使用、それ以外は command を使用
-    if (item.type === 'openInDevContainer' || item.type === 'openRemoteSSH' || item.type === 'openRemoteTunnel') {
-        if (!item.path || typeof item.path !== 'string') {
-            errors.push({ message: 'Missing or invalid "path" field', path: `${path}.path` });
-        }
-        if (item.type === 'openRemoteSSH' && (!item.host || typeof item.host !== 'string')) {
-            errors.push({ message: 'Missing or invalid "host" field', path: `${path}.host` });
-        }
-        if (item.type === 'openRemoteTunnel' && (!item.tunnelName || typeof item.tunnelName !== 'string')) {
-            errors.push({ message: 'Missing or invalid "tunnelName" field', path: `${path}.tunnelName` });
+/**
+ * 入力定義を検証（idの重複・pickStringの選択肢・validationの正規表現）
+ */
+function validateInputs(inputs: unknown[], errors: ValidationError[]): void {
+    const ids = new Set<string>();
+
+    inputs.forEach((input, index) => {
+        const path = `inputs[${index}]`;
+        if (!isRecord(input)) {
+            return;
         }
-    } else if (!item.command || typeof item.command !== 'string') {
-        errors.push({ message: 'Missing or invalid "command" field', path: `${path}.command` });
-    }
 
-    // terminal-specific validation
-    if (item.type === 'terminal') {
-        if (item.terminal !== undefined && typeof item.terminal !== 'string') {
-            errors.push({ message: '"terminal" must be a string', path: `${path}.terminal` });
+        if (typeof input.id === 'string') {
+            if (ids.has(input.id)) {
+                errors.push({ message: `Duplicate input id "${input.id}"`, path: `${path}.id` });
+            } else {
+                ids.add(input.id);
+            }
         }
-        if (item.cwd !== undefined && typeof item.cwd !== 'string') {
-            errors.push({ message: '"cwd" must be a string', path: `${path}.cwd` });
+
+        if (input.type === 'pickString' && (input.options === undefined || (Array.isArray(input.options) && input.options.length === 0))) {
+            errors.push({ message: '"options" must be a non-empty array for pickString', path: `${path}.options` });
         }
-    }
 
-    // vscodeCommand-specific validation
-    if (item.type === 'vscodeCommand') {
-        if (item.args !== undefined && !Array.isArray(item.args)) {
-            errors.push({ message: '"args" must be an array', path: `${path}.args` });
+        if (typeof input.validation === 'string') {
+            try {
+                new RegExp(input.validation);
+            } catch {
+                errors.push({ message: '"validation" must be a valid regular expression', path: `${path}.validation` });
+            }
         }
-    }
+    });
 }
 
 /**
- * アクションタイプが有効かチェック
+ * 値がオブジェクト（配列以外）か判定
  */
-function isValidActionType(type: unknown): type is 'terminal' | 'vscodeCommand' | 'task' | 'openInDevContainer' | 'openRemoteSSH' | 'openRemoteTunnel' {
-    return type === 'terminal' || type === 'vscodeCommand' || type === 'task' || type === 'openInDevContainer' || type === 'openRemoteSSH' || type === 'openRemoteTunnel';
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
 }
 
 /**
- * コマンド定義を検証
+ * YAMLコンテンツをパースしてMenuConfigとして返す
+ * @param content YAMLコンテンツ文字列
+ * @param file エラー表示用のファイル名
+ * @returns パースされた設定
+ * @throws YamlParseError パース/バリデーション失敗時
  */
-function validateCommands(commands: Record<string, unknown>, errors: ValidationError[]): void {
-    for (const [name, cmd] of Object.entries(commands)) {
-        const path = `commands.${name}`;
-
-        if (!cmd || typeof cmd !== 'object') {
-            errors.push({ message: 'Command definition must be an object', path });
-            continue;
-        }
+export function parseMenuConfig(content: string, file?: string): MenuConfig {
+    const data = parseYaml(content, file);
+    return toMenuConfig(data, content, file);
+}
 
-        const cmdDef = cmd as Record<string, unknown>;
+/**
+ * includeされるYAMLコンテンツをパース
+ * `version`・`menu`は省略可能（commandsのみのファイル等）
+ * @param content YAMLコンテンツ文字列
+ * @param file エラー表示用のファイル名
+ * @returns パースされた設定（menu省略時は空配列）
+ * @throws YamlParseError パース/バリデーション失敗時
+ */
+export function parseIncludedConfig(content: string, file?: string): MenuConfig {
+    const data = parseYaml(content, file);
 
-        if (!cmdDef.type) {
-            errors.push({ message: 'Missing "type" field', path: `${path}.type` });
-        } else if (!isValidActionType(cmdDef.type)) {
-            errors.push({
-                message: '"type" must be one of: terminal, vscodeCommand, task, openInDevContainer, openRemoteSSH, openRemoteTunnel',
-                path: `${path}.type`
-            });
-        }
+    // 空ファイルは空の設定として扱う
+    if (data === undefined || data === null) {
+        return { version: '1.0', menu: [] };
+    }
 
-        if (!cmdDef.command || typeof cmdDef.command !== 'string') {
-            errors.push({ message: 'Missing or invalid "command" field', path: `${path}.command` });
-        }
+    if (typeof data !== 'object' || Array.isArray(data)) {
+        return toMenuConfig(data, content, file);
     }
+
+    return toMenuConfig({ version: '1.0', menu: [], ...data }, content, file);
 }
 
 /**
- * YAMLコンテンツをパースしてMenuConfigとして返す
- * @param content YAMLコンテンツ文字列
- * @returns パースされた設定
- * @throws YamlParseError パース/バリデーション失敗時
+ * パース結果を検証してMenuConfigに変換
+ * バリデーションエラーはすべてYAML上の位置を付けて報告する
  */
-export function parseMenuConfig(content: string): MenuConfig {
-    const data = parseYaml(content);
+function toMenuConfig(data: unknown, content: string, file?: string): MenuConfig {
     const { result, config } = validateConfig(data);
 
     if (!result.valid || !config) {
-        const errorMessages = result.errors
-            .map(e => e.path ? `${e.path}: ${e.message}` : e.message)
-            .join('\n');
-        throw new YamlParseError(`Configuration validation failed:\n${errorMessages}`);
+        const sourceMap = createSourceMap(content);
+        // スキーマ・個別の検証のエラーをファイル内の位置の順に並べる
+        const errors = result.errors
+            .map(error => ({ ...error, ...findPosition(sourceMap, error.path) }))
+            .sort((a, b) => (a.line ?? Infinity) - (b.line ?? Infinity) || (a.column ?? 0) - (b.column ?? 0));
+        throw new YamlParseError(
+            `Configuration validation failed:\n${errors.map(formatValidationError).join('\n')}`,
+            undefined,
+            undefined,
+            file,
+            errors
+        );
     }
 
     return config;
 }
+
+/**
+ * バリデーションエラーを1行の文字列に変換
+ * @example "Line 3, Column 5: menu[0].type: Missing \"type\" or \"ref\" for action item"
+ */
+export function formatValidationError(error: ValidationError): string {
+    const location = error.line ? `Line ${error.line}, Column ${error.column}: ` : '';
+    return `${location}${error.path ? `${error.path}: ` : ''}${error.message}`;
+}
@@ -0,0 +1,494 @@
+/**
+ * TaskPilot YAML Patch
+ * 変更後の設定との差分だけを元のYAMLに適用する（コメント・書式・キーの順序を保持）
+ */
+
+import * as yaml from 'js-yaml';
+import { isDeepStrictEqual } from 'util';
+import { MenuConfig } from './types';
+import { generateYaml } from './yaml-generator';
+import { SourceNode, SourceRange, createRangeMap } from './yaml-source-map';
+
+/**
+ * テキストの置換（オフセット）
+ */
+interface TextEdit {
+    start: number;
+    end: number;
+    text: string;
+}
+
+/**
+ * 元のYAMLに設定の変更を適用
+ * 適用できない場合は全体を生成し直す（コメント・アンカー・キーの順序は失われる）
+ * @param content 元のYAMLコンテンツ
+ * @param config 変更後の設定
+ * @returns 変更後のYAMLコンテンツ
+ */
+export function patchYaml(content: string, config: MenuConfig): string {
+    return tryPatchYaml(content, config) ?? generateYaml(config);
+}
+
+/**
+ * 元のYAMLに設定の変更だけを適用
+ * - 変更のないノードは元のテキスト（コメント・アンカー・引用符・キーの順序）をそのまま残す
+ * - 変更のあるスカラーは値だけ、追加・削除されたキーや要素はその行だけを書き換える
+ * - 移動した要素は元のテキストをインデントを合わせて移動する
+ * @param content 元のYAMLコンテンツ
+ * @param config 変更後の設定
+ * @returns 変更後のYAMLコンテンツ（適用結果が設定と一致しない場合・解釈できない構造の場合はundefined）
+ */
+export function tryPatchYaml(content: string, config: MenuConfig): string | undefined {
+    const target = normalize(config);
+
+    let original: unknown;
+    try {
+        original = normalize(yaml.load(content));
+    } catch {
+        return undefined;
+    }
+
+    const patcher = new YamlPatcher(content, original);
+    const edits = patcher.patch('', original, target, 0);
+    if (!edits) {
+        return undefined;
+    }
+
+    const patched = applyEdits(content, edits, 0);
+    try {
+        return isDeepStrictEqual(normalize(yaml.load(patched)), target) ? patched : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * 差分をテキストの置換に変換する
+ */
+class YamlPatcher {
+    private readonly ranges: Map<string, SourceNode>;
+
+    constructor(
+        private readonly content: string,
+        private readonly original: unknown
+    ) {
+        this.ranges = createRangeMap(content);
+    }
+
+    /**
+     * ノードの差分の置換を作成
+     * @param path ノードのパス（元のYAMLでのパス）
+     * @param column ノードのキーの列（シーケンスの要素の場合は`- `の後の列）
+     * @returns 置換（このノードの中だけでは変更できない場合はundefined）
+     */
+    patch(path: string, oldValue: unknown, newValue: unknown, column: number): TextEdit[] | undefined {
+        if (isDeepStrictEqual(oldValue, newValue)) {
+            return [];
+        }
+
+        const node = this.ranges.get(path);
+        const raw = node?.raw;
+        if (!raw || raw.start === raw.end || isFlow(this.content, raw)) {
+            return undefined;
+        }
+
+        if (isMapping(oldValue) && isMapping(newValue)) {
+            return this.patchMapping(path, oldValue, newValue);
+        }
+        if (Array.isArray(oldValue) && Array.isArray(newValue) && newValue.length > 0) {
+            return this.patchSequence(path, oldValue, newValue);
+        }
+        return undefined;
+    }
+
+    /**
+     * マッピングの差分（キーの変更・削除・追加）
+     */
+    private patchMapping(
+        path: string,
+        oldValue: Record<string, unknown>,
+        newValue: Record<string, unknown>
+    ): TextEdit[] | undefined {
+        // マージキー（`<<: *anchor`）から継承したキーは範囲がないため、変更がなければそのまま残す
+        const keys = Object.keys(oldValue).filter(key => this.ranges.get(joinPath(path, key))?.key);
+        const inherited = Object.keys(oldValue).filter(key => !keys.includes(key));
+        if (keys.length === 0 || inherited.some(key => !isDeepStrictEqual(oldValue[key], newValue[key]))) {
+            return undefined;
+        }
+        const nodes = keys.map(key => this.ranges.get(joinPath(path, key))) as (SourceNode & { key: SourceRange })[];
+        const keyColumn = this.columnOf(nodes[0].key.start);
+
+        const edits: TextEdit[] = [];
+        for (let i = 0; i < keys.length; i++) {
+            const key = keys[i];
+            const entry = nodes[i];
+
+            if (!(key in newValue)) {
+                const next = nodes.find((_, index) => index > i && keys[index] in newValue);
+                const removal = this.removeEntry(entry, next);
+                if (!removal) {
+                    return undefined;
+                }
+                edits.push(removal);
+                continue;
+            }
+
+            const childEdits = this.patch(joinPath(path, key), oldValue[key], newValue[key], keyColumn);
+            edits.push(...(childEdits ?? [this.replaceValue(entry, newValue[key], keyColumn, false)]));
+        }
+
+        // 追加されたキーは最後のキーの後に追加
+        const added = Object.keys(newValue).filter(key => !(key in oldValue));
+        if (added.length > 0) {
+            const end = this.lineEnd(Math.max(...nodes.map(entry => (entry.raw ?? entry.key).end)));
+            const text = added
+                .map(key => `${' '.repeat(keyColumn)}${formatEntry(key, newValue[key], keyColumn)}\n`)
+                .join('');
+            edits.push({ start: end, end, text: this.ensureNewline(end, text) });
+        }
+
+        return edits;
+    }
+
+    /**
+     * キーと値の行を削除
+     * `- `と同じ行にあるキーは、次に残るキーを`- `の行に詰める（残るキーがない場合はundefined）
+     */
+    private removeEntry(entry: SourceNode & { key: SourceRange }, next?: SourceNode & { key: SourceRange }): TextEdit | undefined {
+        const lineStart = this.lineStart(entry.key.start);
+        const end = this.lineEnd((entry.raw ?? entry.key).end);
+        if (!this.isLineHead(entry.key.start)) {
+            return next ? { start: entry.key.start, end: next.key.start, text: '' } : undefined;
+        }
+        return { start: lineStart, end, text: '' };
+    }
+
+    /**
+     * シーケンスの差分
+     * 要素の増減・並べ替えがない場合は要素ごとに変更し、ある場合は要素単位でテキストを組み立て直す
+     */
+    private patchSequence(path: string, oldValue: unknown[], newValue: unknown[]): TextEdit[] | undefined {
+        const items = oldValue.map((_, index) => this.ranges.get(`${path}[${index}]`)?.raw);
+        if (items.length === 0 || items.some(item => !item || item.start === item.end)) {
+            return undefined;
+        }
+        const ranges = items as SourceRange[];
+        const dashes = ranges.map(range => this.findDash(range.start));
+        if (dashes.some(dash => dash < 0 || !this.isLineHead(dash))) {
+            return undefined;
+        }
+        const dashColumn = this.columnOf(dashes[0]);
+
+        const pairs = pairItems(oldValue, newValue);
+        if (oldValue.length === newValue.length && newValue.every((_, index) => pairs.get(index) === index)) {
+            const edits: TextEdit[] = [];
+            for (let i = 0; i < oldValue.length; i++) {
+                const itemPath = `${path}[${i}]`;
+                const childEdits = this.patch(itemPath, oldValue[i], newValue[i], dashColumn + 2);
+                edits.push(...(childEdits ?? [this.replaceValue(this.ranges.get(itemPath) as SourceNode, newValue[i], dashColumn + 2, true)]));
+            }
+            return edits;
+        }
+
+        // 要素のテキスト（前のコメントを含む）
+        const chunkStarts = ranges.map((_, index) => index === 0 ? this.lineStart(dashes[0]) : this.lineEnd(ranges[index - 1].end));
+        const chunkEnds = ranges.map(range => this.lineEnd(range.end));
+
+        const chunks = newValue.map((value, index) => {
+            const oldIndex = pairs.get(index);
+            if (oldIndex !== undefined) {
+                const childEdits = this.patch(`${path}[${oldIndex}]`, oldValue[oldIndex], value, dashColumn + 2);
+                if (childEdits) {
+                    const chunk = this.content.slice(chunkStarts[oldIndex], chunkEnds[oldIndex]);
+                    return applyEdits(chunk, childEdits, chunkStarts[oldIndex]);
+                }
+            }
+            return this.findMovedItem(value, dashColumn)
+                ?? `${' '.repeat(dashColumn)}- ${renderValue(value, dashColumn + 2, true)}`;
+        });
+
+        // 末尾に改行のないファイルの最後の要素を除き、要素は改行で終わる
+        const end = chunkEnds[chunkEnds.length - 1];
+        const text = chunks.map(chunk => chunk.endsWith('\n') ? chunk : `${chunk}\n`).join('');
+        const atEof = end === this.content.length && !this.content.endsWith('\n');
+        return [{ start: chunkStarts[0], end, text: atEof ? text.slice(0, -1) : text }];
+    }
+
+    /**
+     * 別のシーケンスから移動した要素の元のテキスト（インデントを合わせる）
+     */
+    private findMovedItem(value: unknown, dashColumn: number): string | undefined {
+        for (const [path, node] of this.ranges) {
+            if (!/\[\d+\]$/.test(path) || !node.raw || node.raw.start === node.raw.end) {
+                continue;
+            }
+            if (!isDeepStrictEqual(getByPath(this.original, path), value)) {
+                continue;
+            }
+            const dash = this.findDash(node.raw.start);
+            if (dash < 0 || !this.isLineHead(dash)) {
+                continue;
+            }
+            const chunk = this.content.slice(this.lineStart(dash), this.lineEnd(node.raw.end));
+            return reindent(chunk, dashColumn - this.columnOf(dash));
+        }
+        return undefined;
+    }
+
+    /**
+     * 値を置き換え
+     * @param inline シーケンスの要素かどうか（マッピングを`- `と同じ行から書く）
+     */
+    private replaceValue(node: SourceNode, value: unknown, column: number, inline: boolean): TextEdit {
+        const raw = node.raw as SourceRange;
+        const rendered = isFlow(this.content, raw) && !isEmptyCollection(getFlowValue(this.content, raw))
+            ? renderFlow(value)
+            : renderValue(value, column, inline);
+
+        // `key:`・`-`の直後から置き換える（値が次の行から始まる場合や値を省略している場合を含む）
+        let start = raw.start;
+        while (start > 0 && /\s/.test(this.content[start - 1])) {
+            start--;
+        }
+        if (start > 0 && (this.content[start - 1] === ':' || this.content[start - 1] === '-')) {
+            return { start, end: raw.end, text: rendered.startsWith('\n') ? rendered : ` ${rendered}` };
+        }
+        return { start: raw.start, end: raw.end, text: rendered };
+    }
+
+    /**
+     * シーケンスの要素の`-`の位置（見つからない場合は-1）
+     */
+    private findDash(offset: number): number {
+        let position = offset - 1;
+        while (position >= 0 && /\s/.test(this.content[position])) {
+            position--;
+        }
+        return position >= 0 && this.content[position] === '-' ? position : -1;
+    }
+
+    /**
+     * 行の最初の文字かどうか（`- - a`のように親の要素と同じ行にある要素を除く）
+     */
+    private isLineHead(offset: number): boolean {
+        return /^\s*$/.test(this.content.slice(this.lineStart(offset), offset));
+    }
+
+    /**
+     * 行の先頭のオフセット
+     */
+    private lineStart(offset: number): number {
+        return this.content.lastIndexOf('\n', offset - 1) + 1;
+    }
+
+    /**
+     * 次の行の先頭のオフセット（最終行の場合は末尾）
+     */
+    private lineEnd(offset: number): number {
+        const newline = this.content.indexOf('\n', offset);
+        return newline < 0 ? this.content.length : newline + 1;
+    }
+
+    /**
+     * 列番号（0始まり）
+     */
+    private columnOf(offset: number): number {
+        return offset - this.lineStart(offset);
+    }
+
+    /**
+     * 末尾に改行のないファイルの最後に追加する場合は改行を補う
+     */
+    private ensureNewline(offset: number, text: string): string {
+        return offset === this.content.length && this.content.length > 0 && !this.content.endsWith('\n')
+            ? `\n${text}`
+            : text;
+    }
+}
+
+/**
+ * 新しいシーケンスの要素と元の要素を対応付ける
+ * 変更のない要素（最長共通部分列）を基準に、その間の要素はラベルが同じもの、次に順番で対応付ける
+ * @returns 新しい要素の添字から元の要素の添字へのマップ
+ */
+function pairItems(oldItems: unknown[], newItems: unknown[]): Map<number, number> {
+    const pairs = new Map<number, number>();
+
+    // 最長共通部分列
+    const lengths = Array.from({ length: oldItems.length + 1 }, () => new Array<number>(newItems.length + 1).fill(0));
+    for (let i = oldItems.length - 1; i >= 0; i--) {
+        for (let j = newItems.length - 1; j >= 0; j--) {
+            lengths[i][j] = isDeepStrictEqual(oldItems[i], newItems[j])
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+    const anchors: [number, number][] = [];
+    for (let i = 0, j = 0; i < oldItems.length && j < newItems.length;) {
+        if (isDeepStrictEqual(oldItems[i], newItems[j])) {
+            anchors.push([i, j]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+
+    // 共通部分の間の要素
+    let oldStart = 0;
+    let newStart = 0;
+    for (const [oldIndex, newIndex] of [...anchors, [oldItems.length, newItems.length] as [number, number]]) {
+        const oldGap = range(oldStart, oldIndex);
+        const newGap = range(newStart, newIndex);
+        for (const j of [...newGap]) {
+            const label = labelOf(newItems[j]);
+            const i = label === undefined ? -1 : oldGap.findIndex(index => labelOf(oldItems[index]) === label);
+            if (i >= 0) {
+                pairs.set(j, oldGap[i]);
+                oldGap.splice(i, 1);
+                newGap.splice(newGap.indexOf(j), 1);
+            }
+        }
+        newGap.forEach((j, index) => {
+            if (index < oldGap.length) {
+                pairs.set(j, oldGap[index]);
+            }
+        });
+        if (oldIndex < oldItems.length) {
+            pairs.set(newIndex, oldIndex);
+        }
+        oldStart = oldIndex + 1;
+        newStart = newIndex + 1;
+    }
+
+    return pairs;
+}
+
+/**
+ * 値をYAMLのテキストに変換
+ * @param column 値のキーの列（シーケンスの要素の場合は`- `の後の列）
+ * @param inline マッピング・シーケンスを同じ行から書くかどうか（シーケンスの要素）
+ * @returns ブロック形式のマッピング・シーケンスをキーの次の行から書く場合は改行から始まる
+ */
+function renderValue(value: unknown, column: number, inline: boolean): string {
+    const lines = yaml.dump(value, { lineWidth: -1, noRefs: true }).replace(/\n$/, '').split('\n');
+    if (!inline && (isMapping(value) || Array.isArray(value)) && !isEmptyCollection(value)) {
+        return lines.map(line => `\n${' '.repeat(column + 2)}${line}`).join('');
+    }
+    const indent = ' '.repeat(column);
+    return lines.map((line, index) => index === 0 || line === '' ? line : `${indent}${line}`).join('\n');
+}
+
+/**
+ * 値をフロー形式（`[a, b]`・`{a: 1}`）のYAMLのテキストに変換
+ */
+function renderFlow(value: unknown): string {
+    return yaml.dump(value, { flowLevel: 0, lineWidth: -1, noRefs: true }).trim();
+}
+
+/**
+ * キーと値を1項目のYAMLのテキストに変換
+ */
+function formatEntry(key: string, value: unknown, column: number): string {
+    const formattedKey = /^[A-Za-z_][\w.-]*$/.test(key) ? key : JSON.stringify(key);
+    const rendered = renderValue(value, column, false);
+    return `${formattedKey}:${rendered.startsWith('\n') ? rendered : ` ${rendered}`}`;
+}
+
+/**
+ * 行のインデントを変更
+ */
+function reindent(text: string, delta: number): string {
+    if (delta === 0) {
+        return text;
+    }
+    return text.replace(/^( *)(?=\S)/gm, (spaces: string) => ' '.repeat(Math.max(0, spaces.length + delta)));
+}
+
+/**
+ * テキストに置換を適用
+ * @param offset テキストの先頭のオフセット（置換のオフセットから差し引く）
+ */
+function applyEdits(text: string, edits: TextEdit[], offset: number): string {
+    let result = text;
+    for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+        result = result.slice(0, edit.start - offset) + edit.text + result.slice(edit.end - offset);
+    }
+    return result;
+}
+
+/**
+ * フロー形式の値（`[`・`{`で始まる）かどうか
+ */
+function isFlow(content: string, raw: SourceRange): boolean {
+    return content[raw.start] === '[' || content[raw.start] === '{';
+}
+
+/**
+ * フロー形式の値をパース
+ */
+function getFlowValue(content: string, raw: SourceRange): unknown {
+    try {
+        return yaml.load(content.slice(raw.start, raw.end));
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * 空の配列・オブジェクトかどうか
+ */
+function isEmptyCollection(value: unknown): boolean {
+    return (Array.isArray(value) && value.length === 0) || (isMapping(value) && Object.keys(value).length === 0);
+}
+
+/**
+ * プレーンなオブジェクト（マッピング）かどうか
+ */
+function isMapping(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * メニュー項目のラベル
+ */
+function labelOf(value: unknown): unknown {
+    return isMapping(value) ? value.label : undefined;
+}
+
+/**
+ * パスの値を取得
+ */
+function getByPath(data: unknown, path: string): unknown {
+    let current = data;
+    for (const [, key, index] of path.matchAll(/(?:^|\.)([^.[\]]+)|\[(\d+)\]/g)) {
+        if (!current || typeof current !== 'object') {
+            return undefined;
+        }
+        current = (current as Record<string, unknown>)[key ?? index];
+    }
+    return current;
+}
+
+/**
+ * パスにキーを追加
+ */
+function joinPath(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+}
+
+/**
+ * 連番の配列
+ */
+function range(start: number, end: number): number[] {
+    return Array.from({ length: Math.max(0, end - start) }, (_, index) => start + index);
+}
+
+/**
+ * undefinedのプロパティを除き、比較できる形に変換
+ */
+function normalize(value: unknown): unknown {
+    return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
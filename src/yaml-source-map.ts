@@ -0,0 +1,252 @@
+/**
+ * TaskPilot YAML Source Map
+ * YAMLの各ノードの位置（行・列）をバリデーションエラーのパス形式で記録する
+ */
+
+import * as yaml from 'js-yaml';
+
+/**
+ * ソース上の位置（1始まり）
+ */
+export interface SourcePosition {
+    line: number;
+    column: number;
+}
+
+/**
+ * パス（例: "menu[0].children[1].ref"）から位置へのマップ
+ */
+export type SourceMap = Map<string, SourcePosition>;
+
+/**
+ * ソース上の範囲（オフセット、終了位置は含まない）
+ */
+export interface SourceRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * パスのノードの範囲
+ */
+export interface SourceNode {
+    /** マッピングのキーの範囲（シーケンスの要素・ルートはundefined） */
+    key?: SourceRange;
+    /** 値の範囲（引用符で囲まれたスカラーは引用符の内側、値を省略したキーはundefined） */
+    value?: SourceRange;
+    /** 値の範囲（引用符・ブロックスカラーの指示子を含む、値を省略したキーは`:`の直後の空の範囲） */
+    raw?: SourceRange;
+}
+
+/**
+ * パース中のノード（js-yamlのlistenerのopen/closeイベントから構築）
+ */
+interface YamlNode {
+    start: number;
+    end: number;
+    result?: unknown;
+    children: YamlNode[];
+}
+
+/**
+ * YAMLコンテンツのソースマップを作成
+ * マッピングのキーはキーの位置、シーケンスの要素は要素の位置を記録する
+ * @param content YAMLコンテンツ文字列
+ * @returns ソースマップ（YAMLとして不正な場合は空）
+ */
+export function createSourceMap(content: string): SourceMap {
+    const lineStarts = getLineStarts(content);
+    const positions: SourceMap = new Map();
+    for (const [path, node] of createRangeMap(content)) {
+        const range = node.key ?? node.value;
+        if (range) {
+            positions.set(path, toPosition(lineStarts, range.start));
+        }
+    }
+    return positions;
+}
+
+/**
+ * YAMLコンテンツの各パスのキー・値の範囲を作成
+ * @param content YAMLコンテンツ文字列
+ * @returns パス（例: "menu[0].ref"）から範囲へのマップ（YAMLとして不正な場合は空）
+ */
+export function createRangeMap(content: string): Map<string, SourceNode> {
+    const root: YamlNode = { start: 0, end: 0, children: [] };
+    const stack: YamlNode[] = [root];
+
+    try {
+        yaml.load(content, {
+            listener(eventType, state) {
+                if (eventType === 'open') {
+                    stack.push({ start: state.position, end: state.position, children: [] });
+                    return;
+                }
+
+                const node = stack.pop();
+                if (!node) {
+                    return;
+                }
+                node.result = state.result;
+                node.end = state.position;
+                // 明示的なキー（?）などで同じ値を包むだけのノードは中身に置き換える
+                const child = node.children.length === 1 && node.children[0].result === node.result
+                    ? node.children[0]
+                    : node;
+                stack[stack.length - 1].children.push(child);
+            }
+        });
+    } catch {
+        return new Map();
+    }
+
+    const ranges = new Map<string, SourceNode>();
+    const rangeOf = (node: YamlNode): SourceRange => toRange(content, node);
+    const valueOf = (node: YamlNode): SourceNode => {
+        const raw = toRawRange(content, node);
+        return raw.start === raw.end ? { raw } : { value: rangeOf(node), raw };
+    };
+
+    const visit = (node: YamlNode, path: string): void => {
+        const result = node.result;
+
+        if (Array.isArray(result)) {
+            // 空の要素（`- `のみ）にはノードがないため、値で対応付ける
+            let next = 0;
+            result.forEach((value, index) => {
+                const child = node.children[next];
+                if (child && child.result === value) {
+                    const childPath = `${path}[${index}]`;
+                    ranges.set(childPath, valueOf(child));
+                    visit(child, childPath);
+                    next++;
+                }
+            });
+            return;
+        }
+
+        if (result && typeof result === 'object') {
+            // 子ノードはキーと値が交互に並ぶ（値を省略したキーは値のノードがない）
+            const mapping = result as Record<string, unknown>;
+            for (let i = 0; i < node.children.length; i++) {
+                const keyNode = node.children[i];
+                const key = String(keyNode.result);
+                if (typeof keyNode.result === 'object' || !Object.prototype.hasOwnProperty.call(mapping, key)) {
+                    continue;
+                }
+                const childPath = path ? `${path}.${key}` : key;
+
+                const valueNode = node.children[i + 1];
+                if (valueNode && valueNode.result === mapping[key]) {
+                    ranges.set(childPath, { key: rangeOf(keyNode), ...valueOf(valueNode) });
+                    visit(valueNode, childPath);
+                    i++;
+                } else {
+                    ranges.set(childPath, { key: rangeOf(keyNode) });
+                }
+            }
+        }
+    };
+
+    if (root.children[0]) {
+        ranges.set('', valueOf(root.children[0]));
+        visit(root.children[0], '');
+    }
+
+    return ranges;
+}
+
+/**
+ * ノードの範囲（前後の空白・コメントとスカラーの引用符を除く）
+ */
+function toRange(content: string, node: YamlNode): SourceRange {
+    const { start, end } = toRawRange(content, node);
+    const quote = content[start];
+    if (typeof node.result === 'string' && (quote === '"' || quote === "'") && end - start >= 2 && content[end - 1] === quote) {
+        return { start: start + 1, end: end - 1 };
+    }
+    return { start, end };
+}
+
+/**
+ * ノードの範囲（前後の空白・コメントを除く）
+ * 値を省略したキー（`key:`）の値は読み飛ばすと次のノードに進むため、開始位置の空の範囲とする
+ */
+function toRawRange(content: string, node: YamlNode): SourceRange {
+    const start = skipSpaceAndComments(content, node.start);
+    if (start >= node.end) {
+        return { start: node.start, end: node.start };
+    }
+
+    let end = node.end;
+    while (end > start && /\s/.test(content[end - 1])) {
+        end--;
+    }
+    return { start, end };
+}
+
+/**
+ * パスの位置を取得（パスにノードがない場合は最も近い親の位置）
+ * @param sourceMap ソースマップ
+ * @param path バリデーションエラーのパス
+ */
+export function findPosition(sourceMap: SourceMap, path = ''): SourcePosition | undefined {
+    let current = path;
+    for (;;) {
+        const position = sourceMap.get(current);
+        if (position || current === '') {
+            return position;
+        }
+        current = current.replace(/(^|\.)[^.[\]]+$|\[\d+\]$/, '');
+    }
+}
+
+/**
+ * 各行の開始オフセット
+ */
+function getLineStarts(content: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < content.length; i++) {
+        if (content[i] === '\n') {
+            starts.push(i + 1);
+        }
+    }
+    return starts;
+}
+
+/**
+ * オフセットを行・列に変換
+ */
+function toPosition(lineStarts: number[], offset: number): SourcePosition {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (lineStarts[mid] <= offset) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+}
+
+/**
+ * ノードの開始位置から空白・改行・コメントを読み飛ばす
+ */
+function skipSpaceAndComments(content: string, offset: number): number {
+    let position = offset;
+    while (position < content.length) {
+        const char = content[position];
+        if (char === ' ' || char === '\t' || char === '\r' || char === '\n') {
+            position++;
+        } else if (char === '#') {
+            while (position < content.length && content[position] !== '\n') {
+                position++;
+            }
+        } else {
+            break;
+        }
+    }
+    return position;
+}